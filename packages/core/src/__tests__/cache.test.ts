@@ -0,0 +1,119 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import { createResolutionCache, readFileWithCache } from '../cache';
+import { createMemoryFileSystem } from '../file-system';
+import { resolvePath } from '../resolver';
+import { compileFolder } from '../compiler';
+import { validateFile } from '../validator';
+import type { AtRefFileSystem } from '../types';
+
+/**
+ * Wrap a file system to count the reads of each file
+ */
+function countReads(fileSystem: AtRefFileSystem): { fileSystem: AtRefFileSystem; reads: Map<string, number> } {
+  const reads = new Map<string, number>();
+  return {
+    reads,
+    fileSystem: {
+      ...fileSystem,
+      readFile(filePath) {
+        reads.set(filePath, (reads.get(filePath) ?? 0) + 1);
+        return fileSystem.readFile(filePath);
+      },
+    },
+  };
+}
+
+describe('createResolutionCache', () => {
+  let tempDir: string;
+
+  before(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'at-ref-test-cache-'));
+  });
+
+  after(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('reuses resolutions until the cache is invalidated', () => {
+    const cache = createResolutionCache();
+    const filePath = path.join(tempDir, 'moved.md');
+    fs.writeFileSync(filePath, 'Content');
+
+    assert.strictEqual(resolvePath('moved.md', { basePath: tempDir, cache }).exists, true);
+    fs.rmSync(filePath);
+    assert.strictEqual(resolvePath('moved.md', { basePath: tempDir, cache }).exists, true);
+
+    cache.invalidate();
+    assert.strictEqual(resolvePath('moved.md', { basePath: tempDir, cache }).exists, false);
+  });
+
+  it('keeps resolutions with different options apart', () => {
+    const cache = createResolutionCache();
+    fs.writeFileSync(path.join(tempDir, 'guide.md'), 'Guide');
+
+    assert.strictEqual(resolvePath('guide', { basePath: tempDir, cache }).exists, false);
+    assert.strictEqual(resolvePath('guide', { basePath: tempDir, cache, tryExtensions: ['.md'] }).exists, true);
+  });
+
+  it('returns copies of cached resolutions', () => {
+    const cache = createResolutionCache();
+    fs.writeFileSync(path.join(tempDir, 'copy.md'), 'Copy');
+
+    const first = resolvePath('copy.md', { basePath: tempDir, cache });
+    first.exists = false;
+
+    assert.strictEqual(resolvePath('copy.md', { basePath: tempDir, cache }).exists, true);
+  });
+
+  it('forgets the content of an edited file and fragments into it', () => {
+    const cache = createResolutionCache();
+    const filePath = path.join(tempDir, 'edited.md');
+    fs.writeFileSync(filePath, '# Intro');
+    const fragment = { type: 'heading' as const, slug: 'usage' };
+
+    assert.strictEqual(readFileWithCache(filePath, { cache }), '# Intro');
+    assert.strictEqual(resolvePath('edited.md', { basePath: tempDir, cache }, fragment).errorCode, 'heading-not-found');
+
+    fs.writeFileSync(filePath, '# Intro\n\n## Usage');
+    assert.strictEqual(readFileWithCache(filePath, { cache }), '# Intro');
+
+    cache.invalidate(filePath);
+    assert.strictEqual(readFileWithCache(filePath, { cache }), '# Intro\n\n## Usage');
+    assert.strictEqual(resolvePath('edited.md', { basePath: tempDir, cache }, fragment).exists, true);
+  });
+});
+
+describe('caching during validation and compilation', () => {
+  const files = {
+    '/project/docs/a.md': '@docs/shared.md#intro\n\n@docs/shared.md',
+    '/project/docs/b.md': '@docs/shared.md',
+    '/project/docs/shared.md': '# Intro\n\nShared',
+  };
+
+  it('reads each file once when validating', () => {
+    const { fileSystem, reads } = countReads(createMemoryFileSystem(files));
+
+    validateFile('/project/docs/a.md', { basePath: '/project', fileSystem });
+
+    assert.strictEqual(reads.get('/project/docs/shared.md'), 1);
+  });
+
+  it('reads each file once per folder compilation', () => {
+    const outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'at-ref-test-cache-out-'));
+    const { fileSystem, reads } = countReads(createMemoryFileSystem(files));
+
+    try {
+      const result = compileFolder('/project/docs', { basePath: '/project', fileSystem, outputDir });
+
+      assert.strictEqual(result.totalFailures, 0);
+      assert.strictEqual(reads.get('/project/docs/shared.md'), 1);
+      assert.strictEqual(reads.get('/project/docs/a.md'), 1);
+    } finally {
+      fs.rmSync(outputDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import { CLAUDE_MAX_IMPORT_DEPTH, getClaudeCompatIssue } from '../claude-compat';
+import { validateFile, hasErrors } from '../validator';
+import { compileFile } from '../compiler';
+import type { ResolvedReference } from '../types';
+
+/**
+ * A reference with a resolution, as the validator passes them to checkRules
+ */
+function resolvedReference(
+  refPath: string,
+  resolution: Partial<ResolvedReference['resolution']>,
+  ref: Partial<ResolvedReference> = {}
+): ResolvedReference {
+  return {
+    raw: `@${refPath}`,
+    path: refPath,
+    startIndex: 0,
+    endIndex: refPath.length + 1,
+    line: 1,
+    column: 1,
+    resolution: { resolvedPath: `/repo/${refPath}`, exists: true, isDirectory: false, ...resolution },
+    ...ref,
+  };
+}
+
+describe('getClaudeCompatIssue', () => {
+  it('accepts file paths as written up to the max import depth', () => {
+    assert.strictEqual(getClaudeCompatIssue(resolvedReference('docs/guide.md', {}), 1), undefined);
+    assert.strictEqual(getClaudeCompatIssue(resolvedReference('docs/guide.md', {}), CLAUDE_MAX_IMPORT_DEPTH), undefined);
+    assert.strictEqual(
+      getClaudeCompatIssue(resolvedReference('~/notes.md', { resolvedPath: '/home/me/notes.md' }), 1),
+      undefined
+    );
+  });
+
+  it('reports references beyond the max import depth', () => {
+    assert.strictEqual(
+      getClaudeCompatIssue(resolvedReference('docs/guide.md', {}), 6),
+      'Claude Code stops following imports after 5 hops (this reference is 6 hops deep)'
+    );
+  });
+
+  it('reports syntax Claude Code does not understand', () => {
+    const issues = [
+      resolvedReference('notes.md', {}, { raw: '@?notes.md', optional: true }),
+      resolvedReference('Design Notes.md', {}, { raw: '@"Design Notes.md"' }),
+      resolvedReference('npm:zod/README.md', { resolvedPath: '/repo/node_modules/zod/README.md' }),
+      resolvedReference('shared:rules.md', { resolvedPath: '/prompts/rules.md' }),
+      resolvedReference('${DOCS}/guide.md', { resolvedPath: '/docs/guide.md' }),
+      resolvedReference('docs/*.md', { matches: ['/repo/docs/a.md'] }),
+      resolvedReference('guide.md', {}, { raw: '@guide.md#L1-5', fragment: { type: 'lines', start: 1, end: 5 } }),
+      resolvedReference('docs', { isDirectory: true }),
+      resolvedReference('docs/guide', { resolvedPath: '/repo/docs/guide.md' }),
+    ].map(ref => getClaudeCompatIssue(ref, 1));
+
+    assert.deepStrictEqual(issues, [
+      'Claude Code does not support optional references (@?path)',
+      'Claude Code does not support quoted or escaped paths',
+      'Claude Code does not resolve npm: package references',
+      'Claude Code does not resolve path aliases (shared:)',
+      'Claude Code does not expand ${VAR} placeholders',
+      'Claude Code does not expand globs',
+      'Claude Code reads a #fragment as part of the file name',
+      'Claude Code does not import directories',
+      'Claude Code does not add extensions or index files (the file is guide.md)',
+    ]);
+  });
+
+  it('does not report references that do not resolve', () => {
+    assert.strictEqual(getClaudeCompatIssue(resolvedReference('docs/*.md', { exists: false }), 9), undefined);
+  });
+});
+
+describe('claudeCompat option', () => {
+  let tempDir: string;
+
+  before(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'at-ref-test-claude-compat-'));
+    fs.writeFileSync(path.join(tempDir, 'main.md'), '@hop1.md\n@docs/guide\n@sub/');
+    for (let hop = 1; hop <= 7; hop++) {
+      fs.writeFileSync(path.join(tempDir, `hop${hop}.md`), hop < 7 ? `Hop ${hop}\n@hop${hop + 1}.md` : 'Hop 7');
+    }
+    fs.mkdirSync(path.join(tempDir, 'docs'));
+    fs.writeFileSync(path.join(tempDir, 'docs', 'guide.md'), '# Guide');
+    fs.mkdirSync(path.join(tempDir, 'sub'));
+    fs.writeFileSync(path.join(tempDir, 'sub', 'a.md'), '# A');
+  });
+
+  after(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('validates every reference on disk without it', () => {
+    const result = validateFile(path.join(tempDir, 'main.md'), { tryExtensions: ['.md'] });
+
+    assert.ok(result.references.some(ref => ref.path === 'hop7.md'));
+    assert.strictEqual(result.warnings.length, 0);
+    assert.strictEqual(hasErrors(result), false);
+  });
+
+  it('stops at the max import depth and fails references Claude Code would not load', () => {
+    const result = validateFile(path.join(tempDir, 'main.md'), { tryExtensions: ['.md'], claudeCompat: true });
+
+    assert.ok(!result.references.some(ref => ref.path === 'hop7.md'));
+    assert.deepStrictEqual(
+      result.warnings.map(w => [w.ruleId, w.severity, w.reference.path]),
+      [
+        ['claude-compat', 'error', 'docs/guide'],
+        ['claude-compat', 'error', 'sub/'],
+        ['claude-compat', 'error', 'hop6.md'],
+      ]
+    );
+    assert.strictEqual(result.warnings[2]?.filePath, path.join(tempDir, 'hop5.md'));
+    assert.strictEqual(result.invalid.length, 0);
+    assert.strictEqual(hasErrors(result), true);
+  });
+
+  it('uses the configured severity of the claude-compat rule', () => {
+    const result = validateFile(path.join(tempDir, 'main.md'), {
+      tryExtensions: ['.md'],
+      claudeCompat: true,
+      rules: { 'claude-compat': 'warn' },
+    });
+
+    assert.strictEqual(result.warnings.length, 3);
+    assert.strictEqual(hasErrors(result), false);
+  });
+
+  it('reports bare paths that Claude Code resolves relative to the importing file', () => {
+    const nestedDir = path.join(tempDir, 'packages', 'app');
+    fs.mkdirSync(nestedDir, { recursive: true });
+    fs.writeFileSync(path.join(nestedDir, 'CLAUDE.md'), '@docs/guide.md');
+
+    const result = validateFile(path.join(nestedDir, 'CLAUDE.md'), { basePath: tempDir, claudeCompat: true });
+
+    assert.strictEqual(result.invalid.length, 0);
+    assert.deepStrictEqual(
+      result.warnings.map(w => w.message),
+      ['Claude Code resolves this relative to the importing file: docs/guide.md']
+    );
+
+    const compiled = compileFile(path.join(nestedDir, 'CLAUDE.md'), { basePath: tempDir, claudeCompat: true, writeOutput: false });
+    assert.ok(compiled.references[0]?.notLoaded);
+    assert.ok(!compiled.compiledContent.includes('# Guide'));
+  });
+
+  it('leaves references Claude Code would not load as written when compiling', () => {
+    const result = compileFile(path.join(tempDir, 'main.md'), {
+      tryExtensions: ['.md'],
+      claudeCompat: true,
+      writeOutput: false,
+    });
+
+    assert.ok(result.compiledContent.includes('Hop 5'));
+    assert.ok(result.compiledContent.includes('@hop6.md'));
+    assert.ok(!result.compiledContent.includes('Hop 6'));
+    assert.ok(result.compiledContent.includes('@docs/guide'));
+    assert.ok(!result.compiledContent.includes('# Guide'));
+
+    const notLoaded = result.references.filter(ref => ref.notLoaded);
+    assert.deepStrictEqual(
+      notLoaded.map(ref => [ref.reference.path, ref.error]),
+      [
+        ['hop6.md', 'Claude Code stops following imports after 5 hops (this reference is 6 hops deep)'],
+        ['docs/guide', 'Claude Code does not add extensions or index files (the file is guide.md)'],
+        ['sub/', 'Claude Code does not import directories'],
+      ]
+    );
+    assert.strictEqual(result.failedCount, 3);
+  });
+});
@@ -4,6 +4,7 @@ import * as fs from 'node:fs';
 import * as path from 'node:path';
 import * as os from 'node:os';
 import { compileFile, compileContent, getBuiltOutputPath } from '../compiler';
+import { nodeFileSystem } from '../file-system';
 
 describe('getBuiltOutputPath', () => {
   it('adds .built suffix before extension', () => {
@@ -72,6 +73,43 @@ describe('compileContent', () => {
     assert.ok(result.compiledContent.includes('export * from "./main";'));
   });
 
+  it('compiles quoted references to files with spaces in the name', () => {
+    fs.writeFileSync(path.join(tempDir, 'Design Notes (v2).md'), 'Design content');
+    const result = compileContent('See @"Design Notes (v2).md" here', { basePath: tempDir });
+
+    assert.strictEqual(result.references[0]?.found, true);
+    assert.ok(result.compiledContent.includes('Design content'));
+    assert.ok(!result.compiledContent.includes('@"Design'));
+  });
+
+  it('compiles references to files with Unicode names', () => {
+    fs.writeFileSync(path.join(tempDir, 'Übersicht.md'), 'Überblick');
+    const result = compileContent('Siehe @Übersicht.md', { basePath: tempDir });
+
+    assert.strictEqual(result.references[0]?.found, true);
+    assert.ok(result.compiledContent.includes('Überblick'));
+  });
+
+  it('outputs escaped @ without the backslash', () => {
+    const result = compileContent('Install \\@scope/package, then read @hello.ts', { basePath: tempDir });
+
+    assert.strictEqual(result.references.length, 1);
+    assert.ok(result.compiledContent.startsWith('Install @scope/package, then read <file'));
+  });
+
+  it('keeps the backslash in escapes inside code', () => {
+    const result = compileContent('Run `npm i \\@scope/package`', { basePath: tempDir });
+    assert.strictEqual(result.compiledContent, 'Run `npm i \\@scope/package`');
+  });
+
+  it('leaves references in ignore regions untouched', () => {
+    const content = '<!-- at-ref-ignore -->\nSyntax: @hello.ts\n<!-- at-ref-ignore-end -->';
+    const result = compileContent(content, { basePath: tempDir });
+
+    assert.strictEqual(result.references.length, 0);
+    assert.strictEqual(result.compiledContent, content);
+  });
+
   it('preserves content without references', () => {
     const content = 'No references here, just plain text.';
     const result = compileContent(content, { basePath: tempDir });
@@ -80,13 +118,111 @@ describe('compileContent', () => {
     assert.strictEqual(result.compiledContent, content);
   });
 
-  it('handles directories as errors', () => {
+  it('compiles directories to a tree listing by default', () => {
     const content = 'See @src/ for details';
     const result = compileContent(content, { basePath: tempDir });
 
     assert.strictEqual(result.references.length, 1);
+    assert.strictEqual(result.references[0]?.found, true);
+    assert.ok(result.compiledContent.includes(`<directory path="${path.join(tempDir, 'src')}">`));
+    assert.ok(result.compiledContent.includes('src/\n└── index.ts'));
+  });
+});
+
+describe('compileContent with line-range fragments', () => {
+  let tempDir: string;
+
+  before(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'at-ref-compile-'));
+    fs.writeFileSync(path.join(tempDir, 'lines.ts'), 'one\ntwo\nthree\nfour\n');
+    fs.writeFileSync(path.join(tempDir, 'nested.md'), 'intro\nSee @lines.ts#L4\nSee @missing.ts\n');
+  });
+
+  after(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('inlines only the selected lines', () => {
+    const result = compileContent('See @lines.ts#L2-3', { basePath: tempDir });
+
+    assert.strictEqual(result.references[0]?.found, true);
+    assert.ok(result.compiledContent.includes('two\nthree'));
+    assert.ok(!result.compiledContent.includes('one'));
+    assert.ok(!result.compiledContent.includes('four'));
+  });
+
+  it('shows the range in the file wrapper', () => {
+    const result = compileContent('See @lines.ts#L2-3', { basePath: tempDir });
+    assert.ok(result.compiledContent.includes(`<file path="${path.join(tempDir, 'lines.ts')}" lines="2-3">`));
+  });
+
+  it('reports ranges outside the file as failures', () => {
+    const result = compileContent('See @lines.ts#L3-10', { basePath: tempDir });
+
+    assert.strictEqual(result.references[0]?.found, false);
+    assert.ok(result.references[0]?.error?.includes('outside file'));
+  });
+
+  it('only compiles references inside the selected lines', () => {
+    const result = compileContent('See @nested.md#L1-2', { basePath: tempDir });
+
+    assert.strictEqual(result.references.length, 2);
+    assert.ok(result.compiledContent.includes('four'));
+    assert.ok(result.references.every(r => r.found));
+  });
+
+  it('treats different ranges of one file as separate imports', () => {
+    const result = compileContent('@lines.ts#L1 and @lines.ts#L2', {
+      basePath: tempDir,
+      optimizeDuplicates: true,
+    });
+
+    assert.ok(result.compiledContent.includes('one'));
+    assert.ok(result.compiledContent.includes('two'));
+    assert.ok(!result.compiledContent.includes(' />'));
+  });
+});
+
+describe('compileContent with heading fragments', () => {
+  let tempDir: string;
+
+  before(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'at-ref-compile-'));
+    fs.writeFileSync(
+      path.join(tempDir, 'api.md'),
+      '# API\n\nIntro\n\n## Error Handling\n\nUse problem details.\n\n### Retries\n\nBack off.\n\n## Pagination\n\nUse cursors.\n'
+    );
+  });
+
+  after(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('inlines only the heading and its subsections', () => {
+    const result = compileContent('See @api.md#error-handling', { basePath: tempDir });
+
+    assert.strictEqual(result.references[0]?.found, true);
+    assert.ok(result.compiledContent.includes('Use problem details.'));
+    assert.ok(result.compiledContent.includes('Back off.'));
+    assert.ok(!result.compiledContent.includes('Intro'));
+    assert.ok(!result.compiledContent.includes('Use cursors.'));
+  });
+
+  it('shows the section in the file wrapper', () => {
+    const result = compileContent('See @api.md#pagination', { basePath: tempDir });
+    assert.ok(result.compiledContent.includes(`<file path="${path.join(tempDir, 'api.md')}" section="pagination">`));
+  });
+
+  it('normalizes the section heading to the reference context', () => {
+    const result = compileContent('# Root\n\n@api.md#retries', { basePath: tempDir });
+    assert.ok(result.compiledContent.includes('\n## Retries'));
+  });
+
+  it('reports unknown anchors as failures', () => {
+    const result = compileContent('See @api.md#auth', { basePath: tempDir });
+
     assert.strictEqual(result.references[0]?.found, false);
-    assert.ok(result.references[0]?.error?.includes('directory'));
+    assert.ok(result.references[0]?.error?.includes('#auth'));
   });
 });
 
@@ -538,3 +674,275 @@ describe('heading normalization mode', () => {
     assert.ok(result.compiledContent.includes('#### Example'));
   });
 });
+
+describe('compileContent with glob references', () => {
+  let tempDir: string;
+
+  before(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'at-ref-compile-'));
+    fs.mkdirSync(path.join(tempDir, 'backend'));
+    fs.writeFileSync(path.join(tempDir, 'backend', 'b.md'), 'Content B');
+    fs.writeFileSync(path.join(tempDir, 'backend', 'a.md'), 'Content A');
+    fs.writeFileSync(path.join(tempDir, 'backend', 'index.md'), 'All backend docs: @./*.md');
+  });
+
+  after(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('inlines every match in sorted order', () => {
+    const result = compileContent('Docs: @backend/?.md', { basePath: tempDir });
+
+    assert.deepStrictEqual(
+      result.references.map(r => path.basename(r.resolvedPath)),
+      ['a.md', 'b.md']
+    );
+    assert.ok(result.references.every(r => r.found));
+    const aIndex = result.compiledContent.indexOf('Content A');
+    const bIndex = result.compiledContent.indexOf('Content B');
+    assert.ok(aIndex !== -1 && bIndex > aIndex);
+    assert.ok(!result.compiledContent.includes('@backend'));
+  });
+
+  it('does not import the referencing file itself', () => {
+    const result = compileFile(path.join(tempDir, 'backend', 'index.md'), { writeOutput: false });
+
+    assert.deepStrictEqual(
+      result.references.map(r => path.basename(r.resolvedPath)),
+      ['a.md', 'b.md']
+    );
+    assert.strictEqual(result.failedCount, 0);
+  });
+
+  it('compiles a glob whose only match is the referencing file to nothing', () => {
+    fs.mkdirSync(path.join(tempDir, 'solo'));
+    fs.writeFileSync(path.join(tempDir, 'solo', 'a.md'), 'See @solo/*.md');
+
+    const result = compileFile(path.join(tempDir, 'solo', 'a.md'), { basePath: tempDir, writeOutput: false });
+
+    assert.strictEqual(result.references.length, 0);
+    assert.strictEqual(result.failedCount, 0);
+    assert.strictEqual(result.compiledContent.trim(), 'See');
+  });
+
+  it('reports a glob that matches nothing', () => {
+    const result = compileContent('Docs: @frontend/*.md', { basePath: tempDir });
+
+    assert.strictEqual(result.references.length, 1);
+    assert.strictEqual(result.references[0]?.found, false);
+    assert.ok(result.references[0]?.error?.includes('No files match'));
+    assert.ok(result.compiledContent.includes('@frontend/*.md'));
+  });
+});
+
+describe('compileContent with directory references', () => {
+  let tempDir: string;
+
+  before(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'at-ref-compile-'));
+    fs.mkdirSync(path.join(tempDir, 'docs', 'guides'), { recursive: true });
+    fs.writeFileSync(path.join(tempDir, 'docs', 'README.md'), 'Docs readme');
+    fs.writeFileSync(path.join(tempDir, 'docs', 'api.md'), 'API content');
+    fs.writeFileSync(path.join(tempDir, 'docs', 'guides', 'setup.md'), 'Setup content');
+    fs.writeFileSync(path.join(tempDir, 'docs', 'logo.png'), Buffer.from([0x89, 0x50, 0x00, 0x47]));
+    fs.mkdirSync(path.join(tempDir, 'empty'));
+  });
+
+  after(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('lists the directory in tree mode without inlining files', () => {
+    const result = compileContent('@docs/', { basePath: tempDir, directoryMode: 'tree' });
+
+    assert.ok(result.compiledContent.includes('├── guides/\n│   └── setup.md'));
+    assert.ok(!result.compiledContent.includes('API content'));
+  });
+
+  it('inlines every text file after the listing in contents mode', () => {
+    const result = compileContent('@docs/', { basePath: tempDir, directoryMode: 'contents' });
+
+    assert.deepStrictEqual(
+      result.references.map(r => path.relative(tempDir, r.resolvedPath)),
+      ['docs', path.join('docs', 'README.md'), path.join('docs', 'api.md'), path.join('docs', 'guides', 'setup.md')]
+    );
+    const treeIndex = result.compiledContent.indexOf('<directory');
+    const apiIndex = result.compiledContent.indexOf('API content');
+    const setupIndex = result.compiledContent.indexOf('Setup content');
+    assert.ok(treeIndex !== -1 && apiIndex > treeIndex && setupIndex > apiIndex);
+    assert.ok(result.compiledContent.includes('logo.png'));
+    assert.ok(!result.compiledContent.includes(`path="${path.join(tempDir, 'docs', 'logo.png')}"`));
+  });
+
+  it('honours the depth limit and ignore patterns', () => {
+    const result = compileContent('@docs/', {
+      basePath: tempDir,
+      directoryMode: 'contents',
+      directoryMaxDepth: 1,
+      directoryIgnorePatterns: [/^api\.md$/],
+    });
+
+    assert.ok(result.compiledContent.includes('guides/'));
+    assert.ok(!result.compiledContent.includes('Setup content'));
+    assert.ok(!result.compiledContent.includes('API content'));
+  });
+
+  it('walks a directory once when optimizing duplicates', () => {
+    const readDirs: string[] = [];
+    const fileSystem = {
+      ...nodeFileSystem,
+      readdir: (dirPath: string) => {
+        readDirs.push(dirPath);
+        return nodeFileSystem.readdir(dirPath);
+      },
+    };
+
+    compileContent('@docs/', { basePath: tempDir, directoryMode: 'contents', optimizeDuplicates: true, fileSystem });
+
+    assert.strictEqual(readDirs.filter(dir => dir === path.join(tempDir, 'docs')).length, 1);
+    assert.strictEqual(readDirs.filter(dir => dir === path.join(tempDir, 'docs', 'guides')).length, 1);
+  });
+
+  it('inlines the index file in index mode', () => {
+    const result = compileContent('@docs/', { basePath: tempDir, directoryMode: 'index' });
+
+    assert.strictEqual(result.references.length, 1);
+    assert.strictEqual(result.references[0]?.resolvedPath, path.join(tempDir, 'docs', 'README.md'));
+    assert.ok(result.compiledContent.includes('Docs readme'));
+    assert.ok(!result.compiledContent.includes('<directory'));
+  });
+
+  it('reports a directory without an index file in index mode', () => {
+    const result = compileContent('@empty/', { basePath: tempDir, directoryMode: 'index' });
+
+    assert.strictEqual(result.references[0]?.found, false);
+    assert.ok(result.references[0]?.error?.includes('no index file'));
+  });
+});
+
+describe('compileContent with optional references', () => {
+  let tempDir: string;
+
+  before(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'at-ref-compile-'));
+    fs.writeFileSync(path.join(tempDir, 'shared.md'), 'Shared content');
+    fs.writeFileSync(path.join(tempDir, 'main.md'), '# Rules\n@?local.md\nEnd');
+  });
+
+  after(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('drops a missing optional reference on its own line without failing', () => {
+    const result = compileFile(path.join(tempDir, 'main.md'), { writeOutput: false });
+
+    assert.strictEqual(result.compiledContent, '# Rules\nEnd');
+    assert.strictEqual(result.failedCount, 0);
+    assert.strictEqual(result.references[0]?.skipped, true);
+    assert.strictEqual(result.references[0]?.found, false);
+  });
+
+  it('drops an inline missing optional reference', () => {
+    const result = compileContent('Also see @?local.md here', { basePath: tempDir });
+
+    assert.strictEqual(result.compiledContent, 'Also see  here');
+    assert.strictEqual(result.references[0]?.skipped, true);
+  });
+
+  it('inlines optional references whose target exists', () => {
+    const result = compileContent('@?shared.md', { basePath: tempDir });
+
+    assert.ok(result.compiledContent.includes('Shared content'));
+    assert.strictEqual(result.references[0]?.found, true);
+    assert.strictEqual(result.references[0]?.skipped, undefined);
+  });
+});
+
+describe('compileContent with aliases', () => {
+  let tempDir: string;
+
+  before(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'at-ref-compile-'));
+    fs.mkdirSync(path.join(tempDir, 'prompts'));
+    fs.writeFileSync(path.join(tempDir, 'prompts', 'review.md'), 'Review steps @shared:tone.md');
+    fs.writeFileSync(path.join(tempDir, 'prompts', 'tone.md'), 'Be kind');
+    fs.mkdirSync(path.join(tempDir, 'project'));
+  });
+
+  after(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('inlines aliased references, including nested ones', () => {
+    const result = compileContent('@shared:review.md', {
+      basePath: path.join(tempDir, 'project'),
+      aliases: { shared: path.join(tempDir, 'prompts') },
+    });
+
+    assert.ok(result.compiledContent.includes('Review steps'));
+    assert.ok(result.compiledContent.includes('Be kind'));
+    assert.ok(result.references.every(r => r.found));
+  });
+});
+
+describe('compileFile with a sandbox', () => {
+  let tempDir: string;
+
+  before(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'at-ref-compile-'));
+    fs.mkdirSync(path.join(tempDir, 'project'));
+    fs.writeFileSync(path.join(tempDir, 'project', 'main.md'), 'Context: @../secret.md\n\n@notes.md');
+    fs.writeFileSync(path.join(tempDir, 'project', 'notes.md'), 'Notes');
+    fs.writeFileSync(path.join(tempDir, 'secret.md'), 'Secret');
+  });
+
+  after(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('refuses to inline targets outside the allowed roots', () => {
+    const result = compileFile(path.join(tempDir, 'project', 'main.md'), {
+      writeOutput: false,
+      sandbox: { allowedRoots: [path.join(tempDir, 'project')] },
+    });
+
+    assert.ok(!result.compiledContent.includes('Secret'));
+    assert.ok(result.compiledContent.includes('@../secret.md'));
+    assert.ok(result.compiledContent.includes('Notes'));
+    assert.strictEqual(result.failedCount, 1);
+  });
+});
+
+describe('compileContent wrapper styles', () => {
+  let tempDir: string;
+
+  before(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'at-ref-compile-'));
+    fs.writeFileSync(path.join(tempDir, 'notes.md'), 'Note content');
+  });
+
+  after(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('wraps files in XML tags by default', () => {
+    const result = compileContent('@notes.md', { basePath: tempDir });
+
+    assert.ok(result.compiledContent.startsWith(`<file path="${path.join(tempDir, 'notes.md')}">`));
+  });
+
+  it('marks files with HTML comments in comment style', () => {
+    const result = compileContent('@notes.md', { basePath: tempDir, wrapper: 'comment' });
+
+    assert.strictEqual(
+      result.compiledContent,
+      `<!-- begin file path="${path.join(tempDir, 'notes.md')}" -->\n\nNote content\n\n<!-- end file -->`
+    );
+  });
+
+  it('inlines content as-is with no wrapper', () => {
+    const result = compileContent('@notes.md', { basePath: tempDir, wrapper: 'none' });
+
+    assert.strictEqual(result.compiledContent, 'Note content');
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import { findConfigFile, loadConfig } from '../config';
+
+describe('findConfigFile', () => {
+  let tempDir: string;
+
+  before(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'at-ref-config-'));
+    fs.mkdirSync(path.join(tempDir, 'repo', '.git'), { recursive: true });
+    fs.mkdirSync(path.join(tempDir, 'repo', 'docs', 'guides'), { recursive: true });
+    fs.writeFileSync(path.join(tempDir, 'repo', 'at-ref.config.json'), '{}');
+    fs.writeFileSync(path.join(tempDir, '.atrefrc.json'), '{}');
+  });
+
+  after(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('finds the nearest config file in a parent directory', () => {
+    const configPath = findConfigFile(path.join(tempDir, 'repo', 'docs', 'guides'));
+
+    assert.strictEqual(configPath, path.join(tempDir, 'repo', 'at-ref.config.json'));
+  });
+
+  it('prefers .atrefrc.json over at-ref.config.json', () => {
+    fs.writeFileSync(path.join(tempDir, 'repo', '.atrefrc.json'), '{}');
+    try {
+      assert.strictEqual(findConfigFile(path.join(tempDir, 'repo')), path.join(tempDir, 'repo', '.atrefrc.json'));
+    } finally {
+      fs.rmSync(path.join(tempDir, 'repo', '.atrefrc.json'));
+    }
+  });
+
+  it('does not look above the repository root', () => {
+    fs.rmSync(path.join(tempDir, 'repo', 'at-ref.config.json'));
+    try {
+      assert.strictEqual(findConfigFile(path.join(tempDir, 'repo', 'docs')), undefined);
+    } finally {
+      fs.writeFileSync(path.join(tempDir, 'repo', 'at-ref.config.json'), '{}');
+    }
+  });
+});
+
+describe('loadConfig', () => {
+  let tempDir: string;
+
+  const writeConfig = (config: unknown) => {
+    fs.writeFileSync(path.join(tempDir, '.atrefrc.json'), JSON.stringify(config));
+  };
+
+  before(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'at-ref-config-'));
+    fs.mkdirSync(path.join(tempDir, '.git'));
+  });
+
+  after(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('returns an empty config when there is no config file', () => {
+    assert.deepStrictEqual(loadConfig(tempDir), { config: {} });
+  });
+
+  it('reads settings and resolves paths against the config file directory', () => {
+    writeConfig({
+      ignore: ['^vendor/'],
+      tryExtensions: ['.md'],
+      aliases: { shared: '../prompts', docs: ['packages/a/docs', 'packages/b/docs'] },
+      headingMode: 'additive',
+      wrapper: 'comment',
+      outputDir: 'build',
+      rules: { 'machine-specific-path': 'error', 'max-depth': ['warn', { max: 3 }] },
+      sandbox: { enabled: true, allowedRoots: ['../shared'], followSymlinks: false },
+      workspaceRoot: { strategy: 'explicit', path: 'packages/app' },
+    });
+
+    const { config, configPath } = loadConfig(tempDir);
+
+    assert.strictEqual(configPath, path.join(tempDir, '.atrefrc.json'));
+    assert.deepStrictEqual(config, {
+      ignore: ['^vendor/'],
+      tryExtensions: ['.md'],
+      aliases: {
+        shared: path.resolve(tempDir, '../prompts'),
+        docs: [path.join(tempDir, 'packages/a/docs'), path.join(tempDir, 'packages/b/docs')],
+      },
+      headingMode: 'additive',
+      wrapper: 'comment',
+      outputDir: path.join(tempDir, 'build'),
+      rules: { 'machine-specific-path': 'error', 'max-depth': ['warn', { max: 3 }] },
+      sandbox: { enabled: true, allowedRoots: [path.resolve(tempDir, '../shared')], followSymlinks: false },
+      workspaceRoot: { strategy: 'explicit', path: path.join(tempDir, 'packages/app') },
+    });
+  });
+
+  it('rejects invalid JSON', () => {
+    fs.writeFileSync(path.join(tempDir, '.atrefrc.json'), '{ ignore: ');
+
+    assert.throws(() => loadConfig(tempDir), /Invalid config file/);
+  });
+
+  it('rejects invalid values', () => {
+    writeConfig({ headingMode: 'flat' });
+    assert.throws(() => loadConfig(tempDir), /"headingMode" must be one of/);
+
+    writeConfig({ rules: { 'no-such-rule': 'warn' } });
+    assert.throws(() => loadConfig(tempDir), /unknown rule "no-such-rule"/);
+
+    writeConfig({ rules: { 'self-reference': ['error', { max: 3 }] } });
+    assert.throws(() => loadConfig(tempDir), /rule "self-reference" has no option "max"/);
+
+    writeConfig({ rules: { 'disallowed-extension': ['warn', { extensions: '.md' }] } });
+    assert.throws(() => loadConfig(tempDir), /option "extensions" of rule "disallowed-extension" must be an array/);
+
+    writeConfig({ ignore: 'vendor' });
+    assert.throws(() => loadConfig(tempDir), /"ignore" must be an array of strings/);
+
+    writeConfig({ sandbox: { enabled: 'yes' } });
+    assert.throws(() => loadConfig(tempDir), /"sandbox.enabled" must be a boolean/);
+
+    writeConfig({ workspaceRoot: { strategy: 'nearest' } });
+    assert.throws(() => loadConfig(tempDir), /"workspaceRoot.strategy" must be one of/);
+
+    writeConfig({ workspaceRoot: { strategy: 'explicit' } });
+    assert.throws(() => loadConfig(tempDir), /"workspaceRoot.path" is required/);
+  });
+});
@@ -158,6 +158,81 @@ describe('dependency-graph', () => {
         fs.rmSync(tmpDir, { recursive: true, force: true });
       }
     });
+
+    it('skips escaped references and ignore regions', () => {
+      const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'dep-graph-'));
+
+      try {
+        const fileB = createTempFile('b.md', '# File B', tmpDir);
+        const fileA = createTempFile(
+          'a.md',
+          `# File A\n\\@${fileB}\n<!-- at-ref-ignore -->\n@${fileB}\n<!-- at-ref-ignore-end -->`,
+          tmpDir
+        );
+
+        const graph = buildDependencyGraph([fileA, fileB]);
+
+        assert.strictEqual(graph.nodes.get(fileA)!.dependencies.size, 0);
+        assert.strictEqual(graph.errors.length, 0);
+      } finally {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('buildDependencyGraph with glob references', () => {
+    it('adds an edge for every match', () => {
+      const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'dep-graph-'));
+
+      try {
+        const fileB = createTempFile('docs/b.md', '# File B', tmpDir);
+        const fileC = createTempFile('docs/c.md', '# File C', tmpDir);
+        const fileA = createTempFile('a.md', '# File A\n@docs/*.md', tmpDir);
+
+        const graph = buildDependencyGraph([fileA, fileB, fileC]);
+
+        assert.deepStrictEqual([...graph.nodes.get(fileA)!.dependencies], [fileB, fileC]);
+        assert.ok(graph.nodes.get(fileB)!.dependents.has(fileA));
+        assert.ok(graph.nodes.get(fileC)!.dependents.has(fileA));
+        assert.strictEqual(graph.errors.length, 0);
+      } finally {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+      }
+    });
+
+    it('does not add an edge from a file to itself', () => {
+      const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'dep-graph-'));
+
+      try {
+        const fileB = createTempFile('b.md', '# File B', tmpDir);
+        const fileA = createTempFile('a.md', '# File A\n@./*.md', tmpDir);
+
+        const graph = buildDependencyGraph([fileA, fileB]);
+
+        assert.deepStrictEqual([...graph.nodes.get(fileA)!.dependencies], [fileB]);
+      } finally {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('buildDependencyGraph with directory references', () => {
+    it('adds an edge for every file a directory imports in contents mode', () => {
+      const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'dep-graph-'));
+
+      try {
+        const fileB = createTempFile('docs/b.md', '# File B', tmpDir);
+        const fileA = createTempFile('a.md', '# File A\n@docs/', tmpDir);
+
+        const treeGraph = buildDependencyGraph([fileA, fileB]);
+        assert.strictEqual(treeGraph.nodes.get(fileA)!.dependencies.size, 0);
+
+        const contentsGraph = buildDependencyGraph([fileA, fileB], { directoryMode: 'contents' });
+        assert.deepStrictEqual([...contentsGraph.nodes.get(fileA)!.dependencies], [fileB]);
+      } finally {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+      }
+    });
   });
 
   describe('topologicalSort', () => {
@@ -0,0 +1,79 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import { listDirectory, formatDirectoryTree, findDirectoryIndex, expandDirectory } from '../directory';
+
+describe('directory listing', () => {
+  let tempDir: string;
+
+  before(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'at-ref-dir-'));
+    fs.mkdirSync(path.join(tempDir, 'src', 'lib', 'deep'), { recursive: true });
+    fs.mkdirSync(path.join(tempDir, 'src', 'node_modules', 'pkg'), { recursive: true });
+    fs.writeFileSync(path.join(tempDir, 'src', 'main.ts'), 'main');
+    fs.writeFileSync(path.join(tempDir, 'src', 'lib', 'util.ts'), 'util');
+    fs.writeFileSync(path.join(tempDir, 'src', 'lib', 'deep', 'inner.ts'), 'inner');
+    fs.writeFileSync(path.join(tempDir, 'src', '.env'), 'SECRET=1');
+    fs.writeFileSync(path.join(tempDir, 'src', 'node_modules', 'pkg', 'index.js'), 'pkg');
+    fs.writeFileSync(path.join(tempDir, 'src', 'index.ts'), 'index');
+  });
+
+  after(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('lists entries in sorted order, leaving out dotfiles and node_modules', () => {
+    const entries = listDirectory(path.join(tempDir, 'src'));
+    assert.deepStrictEqual(entries.map(e => e.relativePath), [
+      'index.ts',
+      'lib',
+      'lib/deep',
+      'lib/deep/inner.ts',
+      'lib/util.ts',
+      'main.ts',
+    ]);
+  });
+
+  it('stops at the depth limit', () => {
+    const entries = listDirectory(path.join(tempDir, 'src'), { directoryMaxDepth: 2 });
+    assert.ok(entries.some(e => e.relativePath === 'lib/deep'));
+    assert.ok(!entries.some(e => e.relativePath === 'lib/deep/inner.ts'));
+  });
+
+  it('leaves out entries matching ignore patterns', () => {
+    const entries = listDirectory(path.join(tempDir, 'src'), { directoryIgnorePatterns: [/^lib\//] });
+    assert.deepStrictEqual(entries.map(e => e.relativePath), ['index.ts', 'lib', 'main.ts']);
+  });
+
+  it('formats entries as a tree', () => {
+    const dirPath = path.join(tempDir, 'src');
+    const tree = formatDirectoryTree(dirPath, listDirectory(dirPath));
+    assert.strictEqual(
+      tree,
+      [
+        'src/',
+        '├── index.ts',
+        '├── lib/',
+        '│   ├── deep/',
+        '│   │   └── inner.ts',
+        '│   └── util.ts',
+        '└── main.ts',
+      ].join('\n')
+    );
+  });
+
+  it('finds index files, falling back to index + tryExtensions', () => {
+    const dirPath = path.join(tempDir, 'src');
+    assert.strictEqual(findDirectoryIndex(dirPath), undefined);
+    assert.strictEqual(findDirectoryIndex(dirPath, ['.ts']), path.join(dirPath, 'index.ts'));
+  });
+
+  it('expands to files according to the mode', () => {
+    const dirPath = path.join(tempDir, 'src');
+    assert.deepStrictEqual(expandDirectory(dirPath).files, []);
+    assert.strictEqual(expandDirectory(dirPath, { directoryMode: 'contents' }).files.length, 4);
+    assert.ok(expandDirectory(dirPath, { directoryMode: 'index' }).error?.includes('no index file'));
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import { execFileSync } from 'node:child_process';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import { createGitFileSystem, createMemoryFileSystem } from '../file-system';
+import { resolvePath } from '../resolver';
+import { validateFile } from '../validator';
+import { compileFile } from '../compiler';
+import { expandDirectory } from '../directory';
+
+describe('createMemoryFileSystem', () => {
+  const fileSystem = createMemoryFileSystem({
+    '/project/CLAUDE.md': '# Project\n\n@docs/guide.md',
+    '/project/docs/guide.md': '# Guide\n\nSee @docs/api.md#L1-2',
+    '/project/docs/api.md': 'line 1\nline 2',
+  });
+
+  it('reads files and lists directories implied by them', () => {
+    assert.strictEqual(fileSystem.readFile('/project/docs/api.md'), 'line 1\nline 2');
+    assert.deepStrictEqual(fileSystem.readdir('/project/docs').sort(), ['api.md', 'guide.md']);
+    assert.deepStrictEqual(fileSystem.stat('/project/docs'), { isFile: false, isDirectory: true, isSymbolicLink: false });
+    assert.strictEqual(fileSystem.exists('/project/docs/guide.md'), true);
+    assert.strictEqual(fileSystem.exists('/project/missing.md'), false);
+  });
+
+  it('throws ENOENT errors for missing paths', () => {
+    assert.throws(() => fileSystem.readFile('/project/missing.md'), { code: 'ENOENT' });
+    assert.throws(() => fileSystem.stat('/nowhere'), { code: 'ENOENT' });
+    assert.throws(() => fileSystem.realpath('/nowhere'), { code: 'ENOENT' });
+  });
+
+  it('resolves references, fragments and globs against the files', () => {
+    assert.strictEqual(resolvePath('docs/guide.md', { basePath: '/project', fileSystem }).exists, true);
+    assert.strictEqual(
+      resolvePath('docs/api.md', { basePath: '/project', fileSystem }, { type: 'lines', start: 1, end: 3 }).errorCode,
+      'fragment-out-of-range'
+    );
+    assert.deepStrictEqual(resolvePath('docs/*.md', { basePath: '/project', fileSystem }).matches, [
+      '/project/docs/api.md',
+      '/project/docs/guide.md',
+    ]);
+  });
+
+  it('expands directory references', () => {
+    const expansion = expandDirectory('/project/docs', { directoryMode: 'contents', fileSystem });
+
+    assert.deepStrictEqual(expansion.files, ['/project/docs/api.md', '/project/docs/guide.md']);
+  });
+
+  it('validates files recursively', () => {
+    const result = validateFile('/project/CLAUDE.md', { fileSystem });
+
+    assert.strictEqual(result.stats.total, 2);
+    assert.strictEqual(result.stats.invalid, 0);
+  });
+
+  it('compiles files', () => {
+    const result = compileFile('/project/CLAUDE.md', { fileSystem, writeOutput: false });
+
+    assert.strictEqual(result.failedCount, 0);
+    assert.ok(result.compiledContent.includes('line 1\nline 2'));
+  });
+});
+
+describe('createGitFileSystem', () => {
+  let tempDir: string;
+
+  const git = (...args: string[]) =>
+    execFileSync('git', ['-c', 'user.name=test', '-c', 'user.email=test@example.com', ...args], {
+      cwd: tempDir,
+      stdio: 'pipe',
+    });
+
+  before(() => {
+    tempDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'at-ref-git-')));
+    git('init', '-q');
+    fs.mkdirSync(path.join(tempDir, 'docs'));
+    fs.writeFileSync(path.join(tempDir, 'CLAUDE.md'), '@docs/guide.md');
+    fs.writeFileSync(path.join(tempDir, 'docs', 'guide.md'), 'First guide');
+    fs.symlinkSync('docs/guide.md', path.join(tempDir, 'guide-link.md'));
+    git('add', '-A');
+    git('commit', '-q', '-m', 'first');
+    git('tag', 'v1');
+
+    fs.writeFileSync(path.join(tempDir, 'CLAUDE.md'), '@docs/renamed.md');
+    git('mv', 'docs/guide.md', 'docs/renamed.md');
+    git('commit', '-q', '-am', 'second');
+  });
+
+  after(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('reads files as of the revision', () => {
+    const fileSystem = createGitFileSystem('v1', tempDir);
+
+    assert.strictEqual(fileSystem.readFile(path.join(tempDir, 'CLAUDE.md')), '@docs/guide.md');
+    assert.deepStrictEqual(fileSystem.readdir(path.join(tempDir, 'docs')), ['guide.md']);
+    assert.strictEqual(fileSystem.exists(path.join(tempDir, 'docs', 'renamed.md')), false);
+  });
+
+  it('follows symbolic links in the tree', () => {
+    const fileSystem = createGitFileSystem('v1', tempDir);
+    const linkPath = path.join(tempDir, 'guide-link.md');
+
+    assert.strictEqual(fileSystem.readFile(linkPath), 'First guide');
+    assert.strictEqual(fileSystem.stat(linkPath).isSymbolicLink, true);
+    assert.strictEqual(fileSystem.realpath(linkPath), path.join(tempDir, 'docs', 'guide.md'));
+  });
+
+  it('validates and compiles files as of the revision', () => {
+    const claudePath = path.join(tempDir, 'CLAUDE.md');
+
+    assert.strictEqual(validateFile(claudePath, { fileSystem: createGitFileSystem('v1', tempDir) }).stats.valid, 1);
+    assert.strictEqual(validateFile(claudePath, { fileSystem: createGitFileSystem('HEAD~1', tempDir) }).stats.valid, 1);
+    assert.strictEqual(validateFile(claudePath, { fileSystem: createGitFileSystem('HEAD', tempDir) }).stats.valid, 1);
+
+    const compiled = compileFile(claudePath, { fileSystem: createGitFileSystem('v1', tempDir), writeOutput: false });
+    assert.ok(compiled.compiledContent.includes('First guide'));
+  });
+
+  it('rejects unknown revisions', () => {
+    assert.throws(() => createGitFileSystem('no-such-branch', tempDir), /Unknown revision: no-such-branch/);
+    assert.throws(() => createGitFileSystem('--all', tempDir), /Invalid revision/);
+  });
+});
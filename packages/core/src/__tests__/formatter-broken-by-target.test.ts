@@ -201,4 +201,20 @@ describe('formatBrokenReferencesByTarget', () => {
     // There should be a blank line between the targets
     assert.ok(secondIndex > firstIndex + 3);
   });
+
+  it('shows suggested replacements', () => {
+    const broken: BrokenReferenceByTarget[] = [
+      {
+        targetPath: '/path/docs/backend/API_CONVENTION.md',
+        raw: '@docs/backend/API_CONVENTION.md',
+        error: 'File not found',
+        suggestions: ['docs/backend/API_CONVENTIONS.md', 'docs/My Notes.md'],
+        sources: [{ file: '/path/README.md', line: 3, column: 1 }],
+      },
+    ];
+
+    const result = formatBrokenReferencesByTarget(broken, { noColor: true, cwd: '/path' });
+
+    assert.ok(result.includes('Did you mean @docs/backend/API_CONVENTIONS.md or @"docs/My Notes.md"?'));
+  });
 });
@@ -12,7 +12,10 @@ describe('formatValidationSummary', () => {
           references: [],
           valid: [],
           invalid: [],
-          stats: { total: 5, valid: 5, invalid: 0 }
+          optionalMissing: [],
+          suppressed: [],
+          warnings: [],
+          stats: { total: 5, valid: 5, invalid: 0, optionalMissing: 0, suppressed: 0, warnings: 0 }
         } as ValidationResult
       },
       {
@@ -21,7 +24,10 @@ describe('formatValidationSummary', () => {
           references: [],
           valid: [],
           invalid: [],
-          stats: { total: 3, valid: 3, invalid: 0 }
+          optionalMissing: [],
+          suppressed: [],
+          warnings: [],
+          stats: { total: 3, valid: 3, invalid: 0, optionalMissing: 0, suppressed: 0, warnings: 0 }
         } as ValidationResult
       }
     ];
@@ -48,7 +54,10 @@ describe('formatValidationSummary', () => {
           references: [],
           valid: [],
           invalid: [],
-          stats: { total: 5, valid: 3, invalid: 2 }
+          optionalMissing: [],
+          suppressed: [],
+          warnings: [],
+          stats: { total: 5, valid: 3, invalid: 2, optionalMissing: 0, suppressed: 0, warnings: 0 }
         } as ValidationResult
       }
     ];
@@ -76,7 +85,10 @@ describe('formatValidationSummary', () => {
           references: [],
           valid: [],
           invalid: [],
-          stats: { total: 10, valid: 7, invalid: 3 }
+          optionalMissing: [],
+          suppressed: [],
+          warnings: [],
+          stats: { total: 10, valid: 7, invalid: 3, optionalMissing: 0, suppressed: 0, warnings: 0 }
         } as ValidationResult
       }
     ];
@@ -105,7 +117,10 @@ describe('formatValidationSummary', () => {
           references: [],
           valid: [],
           invalid: [],
-          stats: { total: 1, valid: 0, invalid: 1 }
+          optionalMissing: [],
+          suppressed: [],
+          warnings: [],
+          stats: { total: 1, valid: 0, invalid: 1, optionalMissing: 0, suppressed: 0, warnings: 0 }
         } as ValidationResult
       }
     ];
@@ -127,7 +142,10 @@ describe('formatValidationSummary', () => {
           references: [],
           valid: [],
           invalid: [],
-          stats: { total: 5, valid: 5, invalid: 0 }
+          optionalMissing: [],
+          suppressed: [],
+          warnings: [],
+          stats: { total: 5, valid: 5, invalid: 0, optionalMissing: 0, suppressed: 0, warnings: 0 }
         } as ValidationResult
       }
     ];
@@ -149,7 +167,10 @@ describe('formatValidationSummary', () => {
           references: [],
           valid: [],
           invalid: [],
-          stats: { total: 10, valid: 8, invalid: 2 }
+          optionalMissing: [],
+          suppressed: [],
+          warnings: [],
+          stats: { total: 10, valid: 8, invalid: 2, optionalMissing: 0, suppressed: 0, warnings: 0 }
         } as ValidationResult
       },
       {
@@ -158,7 +179,10 @@ describe('formatValidationSummary', () => {
           references: [],
           valid: [],
           invalid: [],
-          stats: { total: 15, valid: 12, invalid: 3 }
+          optionalMissing: [],
+          suppressed: [],
+          warnings: [],
+          stats: { total: 15, valid: 12, invalid: 3, optionalMissing: 0, suppressed: 0, warnings: 0 }
         } as ValidationResult
       },
       {
@@ -167,7 +191,10 @@ describe('formatValidationSummary', () => {
           references: [],
           valid: [],
           invalid: [],
-          stats: { total: 5, valid: 5, invalid: 0 }
+          optionalMissing: [],
+          suppressed: [],
+          warnings: [],
+          stats: { total: 5, valid: 5, invalid: 0, optionalMissing: 0, suppressed: 0, warnings: 0 }
         } as ValidationResult
       }
     ];
@@ -236,7 +263,10 @@ describe('formatValidationSummary', () => {
               }
             }
           ],
-          stats: { total: 10, valid: 7, invalid: 3 },
+          optionalMissing: [],
+          suppressed: [],
+          warnings: [],
+          stats: { total: 10, valid: 7, invalid: 3, optionalMissing: 0, suppressed: 0, warnings: 0 },
         } as ValidationResult,
       },
       {
@@ -274,7 +304,10 @@ describe('formatValidationSummary', () => {
               }
             }
           ],
-          stats: { total: 5, valid: 3, invalid: 2 },
+          optionalMissing: [],
+          suppressed: [],
+          warnings: [],
+          stats: { total: 5, valid: 3, invalid: 2, optionalMissing: 0, suppressed: 0, warnings: 0 },
         } as ValidationResult,
       },
     ];
@@ -307,7 +340,10 @@ describe('formatValidationSummary', () => {
           references: [],
           valid: [],
           invalid: [],
-          stats: { total: 5, valid: 5, invalid: 0 },
+          optionalMissing: [],
+          suppressed: [],
+          warnings: [],
+          stats: { total: 5, valid: 5, invalid: 0, optionalMissing: 0, suppressed: 0, warnings: 0 },
         } as ValidationResult,
       },
     ];
@@ -319,4 +355,52 @@ describe('formatValidationSummary', () => {
 
     assert.ok(!output.includes('Broken References:'));
   });
+
+  it('counts optional references to missing files separately', () => {
+    const results = [
+      {
+        file: '/path/test.md',
+        result: {
+          references: [],
+          valid: [],
+          invalid: [],
+          optionalMissing: [],
+          suppressed: [],
+          warnings: [],
+          stats: { total: 4, valid: 3, invalid: 0, optionalMissing: 1, suppressed: 0, warnings: 0 },
+        } as ValidationResult,
+      },
+    ];
+
+    const output = formatValidationSummary(results, {
+      noColor: true,
+      mode: 'recursive',
+    });
+
+    assert.ok(output.includes('3 valid, 0 invalid, 1 optional missing'));
+  });
+
+  it('counts suppressed references separately', () => {
+    const results = [
+      {
+        file: '/path/test.md',
+        result: {
+          references: [],
+          valid: [],
+          invalid: [],
+          optionalMissing: [],
+          suppressed: [],
+          warnings: [],
+          stats: { total: 4, valid: 2, invalid: 0, optionalMissing: 0, suppressed: 2, warnings: 0 },
+        } as ValidationResult,
+      },
+    ];
+
+    const output = formatValidationSummary(results, {
+      noColor: true,
+      mode: 'recursive',
+    });
+
+    assert.ok(output.includes('2 valid, 0 invalid, 2 suppressed'));
+  });
 });
@@ -7,6 +7,9 @@ import {
   findCodeBlockRanges,
   isInsideCodeBlock,
   normalizeHeadings,
+  slugifyHeading,
+  getHeadingSlugs,
+  extractHeadingSection,
 } from '../heading-adjuster';
 import type { AtReference } from '../types';
 
@@ -126,6 +129,33 @@ describe('extractHeadings', () => {
     assert.strictEqual(headings[1]?.text, 'Another Real Heading');
   });
 
+  it('ignores headings in tilde fences and HTML comments', () => {
+    const content = `# Real Heading
+~~~
+# Fake Heading
+~~~
+<!--
+## Commented Heading
+-->
+## Another Real Heading`;
+
+    const headings = extractHeadings(content);
+
+    assert.deepStrictEqual(headings.map(h => h.text), ['Real Heading', 'Another Real Heading']);
+  });
+
+  it('does not close a fence on a shorter fence', () => {
+    const content = `\`\`\`\`markdown
+\`\`\`
+# Fake Heading
+\`\`\`\`
+# Real Heading`;
+
+    const headings = extractHeadings(content);
+
+    assert.deepStrictEqual(headings.map(h => h.text), ['Real Heading']);
+  });
+
   it('ignores headings in inline code', () => {
     const content = `# Title
 Use \`# heading\` syntax for titles`;
@@ -587,3 +617,62 @@ describe('normalizeHeadings', () => {
     assert.ok(normalized.includes('### Nested Heading')); // NOT shifted (in file block)
   });
 });
+
+describe('slugifyHeading', () => {
+  it('lowercases and hyphenates words', () => {
+    assert.strictEqual(slugifyHeading('Error Handling'), 'error-handling');
+  });
+
+  it('removes punctuation but keeps hyphens and underscores', () => {
+    assert.strictEqual(slugifyHeading('API: v2 (beta) - snake_case!'), 'api-v2-beta---snake_case');
+  });
+
+  it('keeps non-ASCII letters', () => {
+    assert.strictEqual(slugifyHeading('Übersicht'), 'übersicht');
+  });
+});
+
+describe('getHeadingSlugs', () => {
+  it('suffixes repeated slugs', () => {
+    const slugs = getHeadingSlugs('# Usage\n## Usage\n## Usage');
+    assert.deepStrictEqual(slugs.map(s => s.slug), ['usage', 'usage-1', 'usage-2']);
+  });
+});
+
+describe('extractHeadingSection', () => {
+  const content = `# API
+
+Intro
+
+## Error Handling
+
+Use problem details.
+
+### Retries
+
+Back off.
+
+## Pagination
+
+Use cursors.`;
+
+  it('returns the heading with its subsections', () => {
+    const section = extractHeadingSection(content, 'error-handling');
+    assert.strictEqual(section, '## Error Handling\n\nUse problem details.\n\n### Retries\n\nBack off.');
+  });
+
+  it('runs to the end of the content for the last section', () => {
+    const section = extractHeadingSection(content, 'pagination');
+    assert.strictEqual(section, '## Pagination\n\nUse cursors.');
+  });
+
+  it('returns undefined for unknown slugs', () => {
+    assert.strictEqual(extractHeadingSection(content, 'missing'), undefined);
+  });
+
+  it('ignores headings inside code blocks', () => {
+    const withCode = '## Setup\n\n```\n## Not A Heading\n```\n\n## Next';
+    assert.strictEqual(extractHeadingSection(withCode, 'not-a-heading'), undefined);
+    assert.ok(extractHeadingSection(withCode, 'setup')?.includes('## Not A Heading'));
+  });
+});
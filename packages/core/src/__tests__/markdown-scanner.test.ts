@@ -0,0 +1,98 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { scanMarkdown } from '../markdown-scanner';
+
+function kinds(content: string): Array<[string, string]> {
+  return scanMarkdown(content).map(range => [range.kind, content.slice(range.start, range.end)]);
+}
+
+describe('scanMarkdown', () => {
+  it('returns no ranges for plain prose', () => {
+    assert.deepStrictEqual(scanMarkdown('Just text with @a.md'), []);
+  });
+
+  it('finds tilde fences', () => {
+    const content = 'Before\n~~~ts\n@a.md\n~~~\nAfter';
+    assert.deepStrictEqual(kinds(content), [['fenced-code', '~~~ts\n@a.md\n~~~']]);
+  });
+
+  it('requires a closing fence of the same kind and at least the same length', () => {
+    const content = '````\n```\n~~~~\n````\nAfter';
+    assert.deepStrictEqual(kinds(content), [['fenced-code', '````\n```\n~~~~\n````']]);
+  });
+
+  it('runs an unclosed fence to the end of the content', () => {
+    const content = 'Text\n```\n@a.md\n';
+    assert.deepStrictEqual(kinds(content), [['fenced-code', '```\n@a.md\n']]);
+  });
+
+  it('finds indented code after a blank line', () => {
+    const content = 'Intro\n\n    @a.md\n\n    more\nAfter';
+    assert.deepStrictEqual(kinds(content), [['indented-code', '    @a.md\n\n    more']]);
+  });
+
+  it('treats an indented line continuing a paragraph as prose', () => {
+    assert.deepStrictEqual(scanMarkdown('Intro line\n    continued @a.md'), []);
+  });
+
+  it('treats indented list item content as prose', () => {
+    assert.deepStrictEqual(scanMarkdown('- Item\n\n  More about @a.md'), []);
+    assert.deepStrictEqual(kinds('1. Item\n\n       code'), [['indented-code', '       code']]);
+  });
+
+  it('matches code spans by backtick run length', () => {
+    const content = 'Use ``a ` b`` and `c`';
+    assert.deepStrictEqual(kinds(content), [
+      ['code-span', '``a ` b``'],
+      ['code-span', '`c`'],
+    ]);
+  });
+
+  it('does not close a code span across a blank line', () => {
+    assert.deepStrictEqual(scanMarkdown('An ` unmatched\n\nparagraph `'), []);
+  });
+
+  it('ignores escaped backticks', () => {
+    assert.deepStrictEqual(scanMarkdown('Not \\`code\\`'), []);
+  });
+
+  it('finds HTML comments, including multi-line ones', () => {
+    const content = 'A <!-- @a.md\nstill comment --> B';
+    assert.deepStrictEqual(kinds(content), [['html-comment', '<!-- @a.md\nstill comment -->']]);
+  });
+
+  it('finds autolinks', () => {
+    const content = 'See <https://example.com/@a.md> or <me@example.com>';
+    assert.deepStrictEqual(kinds(content), [
+      ['autolink', '<https://example.com/@a.md>'],
+      ['autolink', '<me@example.com>'],
+    ]);
+  });
+
+  it('finds inline link destinations with titles', () => {
+    const content = 'A [link](docs/@a.md "Title") and ![img](<my pic.png>)';
+    assert.deepStrictEqual(kinds(content), [
+      ['link-destination', '(docs/@a.md "Title")'],
+      ['link-destination', '(<my pic.png>)'],
+    ]);
+  });
+
+  it('finds link reference definition destinations', () => {
+    const content = '[docs]: https://example.com/@a.md\n';
+    assert.deepStrictEqual(kinds(content), [['link-destination', 'https://example.com/@a.md']]);
+  });
+
+  it('does not treat brackets without a link as a link', () => {
+    assert.deepStrictEqual(scanMarkdown('Call fn(@a.md) and arr] (x)'), []);
+  });
+
+  it('does not scan inline constructs inside code blocks', () => {
+    const content = '```\n`a` <!-- b -->\n```';
+    assert.deepStrictEqual(kinds(content), [['fenced-code', content]]);
+  });
+
+  it('handles CRLF line endings', () => {
+    const content = 'Text\r\n~~~\r\n@a.md\r\n~~~\r\nAfter';
+    assert.deepStrictEqual(kinds(content), [['fenced-code', '~~~\r\n@a.md\r\n~~~']]);
+  });
+});
@@ -0,0 +1,173 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import { compileMemory, findMemoryFiles, getManagedPolicyPath } from '../memory';
+import { formatMemoryContext } from '../formatter';
+import { hasErrors } from '../validator';
+import { createMemoryFileSystem } from '../file-system';
+
+describe('getManagedPolicyPath', () => {
+  it('uses the policy path of each platform', () => {
+    assert.strictEqual(getManagedPolicyPath('darwin'), '/Library/Application Support/ClaudeCode/CLAUDE.md');
+    assert.strictEqual(getManagedPolicyPath('linux'), '/etc/claude-code/CLAUDE.md');
+    assert.strictEqual(getManagedPolicyPath('win32'), 'C:\\Program Files\\ClaudeCode\\CLAUDE.md');
+  });
+});
+
+describe('memory', () => {
+  let tempDir: string;
+  let homeDir: string;
+  let repoDir: string;
+  let appDir: string;
+  let managedPolicyPath: string;
+
+  before(() => {
+    tempDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'at-ref-test-memory-')));
+    homeDir = path.join(tempDir, 'home');
+    repoDir = path.join(tempDir, 'repo');
+    appDir = path.join(repoDir, 'packages', 'app');
+    managedPolicyPath = path.join(tempDir, 'etc', 'CLAUDE.md');
+
+    fs.mkdirSync(path.join(homeDir, '.claude'), { recursive: true });
+    fs.mkdirSync(path.join(repoDir, '.git'), { recursive: true });
+    fs.mkdirSync(path.join(repoDir, 'docs'));
+    fs.mkdirSync(path.join(appDir, '.claude'), { recursive: true });
+    fs.mkdirSync(path.join(appDir, 'src'));
+    fs.mkdirSync(path.join(appDir, 'docs'));
+
+    fs.writeFileSync(path.join(homeDir, '.claude', 'CLAUDE.md'), '# Me\nPrefer short answers.');
+    fs.writeFileSync(path.join(repoDir, 'CLAUDE.md'), '# Repo\n@docs/guide.md\n@docs/missing.md');
+    fs.writeFileSync(path.join(repoDir, 'docs', 'guide.md'), '# Guide\nUse pnpm for everything in this repository.');
+    fs.writeFileSync(path.join(appDir, '.claude', 'CLAUDE.md'), '# App');
+    fs.writeFileSync(path.join(appDir, 'CLAUDE.local.md'), '# Local\n@docs/guide.md');
+    fs.writeFileSync(path.join(appDir, 'docs', 'guide.md'), '# App guide\n@conventions.md');
+    fs.writeFileSync(path.join(appDir, 'docs', 'conventions.md'), 'Name files in kebab-case.');
+    fs.writeFileSync(path.join(appDir, 'src', 'CLAUDE.md'), '# Src');
+  });
+
+  after(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  /**
+   * Memory files found below the temp directory (a machine may have memory files above it)
+   */
+  function findTestMemoryFiles(dir: string) {
+    return findMemoryFiles(dir, { homeDir, managedPolicyPath }).filter(file => file.filePath.startsWith(tempDir));
+  }
+
+  it('finds the user memory, then the memory of each parent directory from the outermost down', () => {
+    const files = findTestMemoryFiles(appDir);
+
+    assert.deepStrictEqual(
+      files.map(file => [file.scope, path.relative(tempDir, file.filePath)]),
+      [
+        ['user', path.join('home', '.claude', 'CLAUDE.md')],
+        ['project', path.join('repo', 'CLAUDE.md')],
+        ['project', path.join('repo', 'packages', 'app', '.claude', 'CLAUDE.md')],
+        ['local', path.join('repo', 'packages', 'app', 'CLAUDE.local.md')],
+      ]
+    );
+  });
+
+  it('finds the workspace root of each memory file', () => {
+    const files = findTestMemoryFiles(appDir);
+
+    assert.strictEqual(files[0]?.workspaceRoot, path.join(homeDir, '.claude'));
+    assert.ok(files.slice(1).every(file => file.workspaceRoot === repoDir));
+    assert.strictEqual(
+      findMemoryFiles(appDir, { homeDir, managedPolicyPath, rootOptions: { strategy: 'explicit', root: appDir } })
+        .find(file => file.scope === 'local')?.workspaceRoot,
+      appDir
+    );
+  });
+
+  it('loads the managed policy first and each file once', () => {
+    fs.mkdirSync(path.dirname(managedPolicyPath));
+    fs.writeFileSync(managedPolicyPath, '# Policy');
+    try {
+      const files = findTestMemoryFiles(path.join(homeDir, '.claude'));
+
+      assert.deepStrictEqual(files.map(file => file.scope), ['managed', 'user']);
+    } finally {
+      fs.rmSync(path.dirname(managedPolicyPath), { recursive: true, force: true });
+    }
+  });
+
+  it('looks for memory files through the file system', () => {
+    const fileSystem = createMemoryFileSystem({
+      '/home/me/.claude/CLAUDE.md': '# Me',
+      '/repo/CLAUDE.local.md': '# Local',
+      '/repo/app/README.md': '# App',
+    });
+
+    const files = findMemoryFiles('/repo/app', { homeDir: '/home/me', managedPolicyPath: '/etc/CLAUDE.md', fileSystem });
+
+    assert.deepStrictEqual(files.map(file => file.filePath), ['/home/me/.claude/CLAUDE.md', '/repo/CLAUDE.local.md']);
+  });
+
+  it('validates and compiles the memory files as one context', () => {
+    const context = compileMemory(appDir, { homeDir, managedPolicyPath, maxTokens: 100000 });
+    const entries = context.entries.filter(entry => entry.filePath.startsWith(tempDir));
+
+    assert.strictEqual(entries.length, 4);
+    assert.deepStrictEqual(
+      entries.map(entry => entry.validation.invalid.map(ref => ref.path)),
+      [[], ['docs/missing.md'], [], []]
+    );
+
+    // In load order, with the imports inlined
+    const userIndex = context.compiledContent.indexOf('Prefer short answers.');
+    const repoIndex = context.compiledContent.indexOf('# Repo');
+    const localIndex = context.compiledContent.indexOf('# Local');
+    assert.ok(userIndex >= 0 && userIndex < repoIndex && repoIndex < localIndex);
+    assert.ok(context.compiledContent.includes(`Contents of ${path.join(repoDir, 'CLAUDE.md')} (project instructions`));
+    assert.strictEqual(context.compiledContent.split('Use pnpm for everything').length, 2);
+
+    // Where the tokens come from
+    const repoEntry = entries[1]!;
+    assert.ok(repoEntry.tokens.contributions.some(c => c.filePath === path.join(repoDir, 'docs', 'guide.md')));
+    assert.ok(context.totalTokens >= entries.reduce((sum, entry) => sum + entry.tokens.totalTokens, 0));
+    assert.strictEqual(context.overBudget, false);
+    assert.strictEqual(compileMemory(appDir, { homeDir, managedPolicyPath, maxTokens: 10 }).overBudget, true);
+  });
+
+  it('resolves imports relative to the file containing them, like Claude Code', () => {
+    const context = compileMemory(appDir, { homeDir, managedPolicyPath });
+    const localEntry = context.entries.find(entry => entry.scope === 'local')!;
+
+    assert.strictEqual(hasErrors(localEntry.validation), false);
+    assert.deepStrictEqual(
+      localEntry.validation.references.map(ref => path.relative(tempDir, ref.resolution.resolvedPath)),
+      [path.join('repo', 'packages', 'app', 'docs', 'guide.md'), path.join('repo', 'packages', 'app', 'docs', 'conventions.md')]
+    );
+    assert.ok(localEntry.compileResult.compiledContent.includes('# App guide'));
+    assert.ok(localEntry.compileResult.compiledContent.includes('Name files in kebab-case.'));
+    assert.ok(!localEntry.compileResult.compiledContent.includes('Use pnpm for everything'));
+  });
+
+  it('formats the memory files in load order with their size and imports', () => {
+    const context = compileMemory(appDir, { homeDir, managedPolicyPath, maxTokens: 10 });
+    context.entries = context.entries.filter(entry => entry.filePath.startsWith(tempDir));
+
+    const output = formatMemoryContext(context, { noColor: true, cwd: repoDir });
+
+    assert.ok(output.startsWith('Memory loaded in packages/app (4 memory files, in load order):'));
+    assert.match(output, /1\. user {5}\.\.\/home\/\.claude\/CLAUDE\.md {2}~\d+ tokens/);
+    assert.match(output, /2\. project {2}CLAUDE\.md {2}~\d+ tokens\n +\d+ {2}CLAUDE\.md\n +\d+ {2}docs\/guide\.md/);
+    assert.match(output, /4\. local {4}packages\/app\/CLAUDE\.local\.md/);
+    assert.match(output, /\+ ~\d+ tokens of "Contents of \.\.\." headers/);
+    assert.match(output, /Total: ~\d+ tokens \(max 10\) - over budget$/);
+  });
+
+  it('reports a directory without memory files', () => {
+    const output = formatMemoryContext(
+      { dir: tempDir, entries: [], compiledContent: '', totalTokens: 0, tokenizer: 'approximate', overBudget: false },
+      { noColor: true, cwd: tempDir }
+    );
+
+    assert.strictEqual(output, `No memory files are loaded in ${tempDir}`);
+  });
+});
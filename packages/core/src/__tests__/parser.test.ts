@@ -1,6 +1,6 @@
 import { describe, it } from 'node:test';
 import assert from 'node:assert';
-import { extractReferences } from '../parser';
+import { extractReferences, formatReferencePath, findIgnoredRanges, findAtEscapes, findDisabledRanges } from '../parser';
 
 describe('extractReferences', () => {
   it('extracts basic reference', () => {
@@ -164,3 +164,362 @@ describe('extractReferences', () => {
     assert.strictEqual(refs[0]?.path, 'src/file.ts');
   });
 });
+
+describe('extractReferences with line-range fragments', () => {
+  it('extracts a line range', () => {
+    const refs = extractReferences('See @src/parser.ts#L40-80');
+    assert.strictEqual(refs.length, 1);
+    assert.strictEqual(refs[0]?.path, 'src/parser.ts');
+    assert.strictEqual(refs[0]?.raw, '@src/parser.ts#L40-80');
+    assert.deepStrictEqual(refs[0]?.fragment, { type: 'lines', start: 40, end: 80 });
+  });
+
+  it('accepts GitHub-style L prefix on the end line', () => {
+    const refs = extractReferences('See @src/parser.ts#L40-L80');
+    assert.deepStrictEqual(refs[0]?.fragment, { type: 'lines', start: 40, end: 80 });
+  });
+
+  it('treats a single line as a one-line range', () => {
+    const refs = extractReferences('See @src/parser.ts#L12');
+    assert.deepStrictEqual(refs[0]?.fragment, { type: 'lines', start: 12, end: 12 });
+  });
+
+  it('includes the fragment in endIndex', () => {
+    const content = 'See @a.ts#L1-2 here';
+    const refs = extractReferences(content);
+    assert.strictEqual(content.slice(refs[0]!.startIndex, refs[0]!.endIndex), '@a.ts#L1-2');
+  });
+
+});
+
+describe('extractReferences with heading fragments', () => {
+  it('extracts a heading slug', () => {
+    const refs = extractReferences('See @docs/backend/API_CONVENTIONS.md#error-handling');
+    assert.strictEqual(refs.length, 1);
+    assert.strictEqual(refs[0]?.path, 'docs/backend/API_CONVENTIONS.md');
+    assert.strictEqual(refs[0]?.raw, '@docs/backend/API_CONVENTIONS.md#error-handling');
+    assert.deepStrictEqual(refs[0]?.fragment, { type: 'heading', slug: 'error-handling' });
+  });
+
+  it('lowercases heading slugs', () => {
+    const refs = extractReferences('See @README.md#Usage');
+    assert.deepStrictEqual(refs[0]?.fragment, { type: 'heading', slug: 'usage' });
+  });
+
+  it('treats L-prefixed words that are not ranges as headings', () => {
+    const refs = extractReferences('See @README.md#License');
+    assert.deepStrictEqual(refs[0]?.fragment, { type: 'heading', slug: 'license' });
+  });
+
+  it('ignores a bare # with no fragment', () => {
+    const refs = extractReferences('See @README.md# now');
+    assert.strictEqual(refs[0]?.raw, '@README.md');
+    assert.strictEqual(refs[0]?.fragment, undefined);
+  });
+});
+
+describe('extractReferences with quoted and escaped paths', () => {
+  it('extracts a quoted path with spaces and parentheses', () => {
+    const refs = extractReferences('See @"docs/Design Notes (v2).md" for details');
+    assert.strictEqual(refs.length, 1);
+    assert.strictEqual(refs[0]?.raw, '@"docs/Design Notes (v2).md"');
+    assert.strictEqual(refs[0]?.path, 'docs/Design Notes (v2).md');
+  });
+
+  it('unescapes quotes and backslashes inside a quoted path', () => {
+    const refs = extractReferences('See @"docs/say \\"hi\\".md"');
+    assert.strictEqual(refs[0]?.path, 'docs/say "hi".md');
+  });
+
+  it('extracts a fragment after a quoted path', () => {
+    const refs = extractReferences('See @"docs/My Notes.md"#L2-4');
+    assert.strictEqual(refs[0]?.path, 'docs/My Notes.md');
+    assert.deepStrictEqual(refs[0]?.fragment, { type: 'lines', start: 2, end: 4 });
+  });
+
+  it('keeps # inside a quoted path as part of the path', () => {
+    const refs = extractReferences('See @"notes/C# tips.md"');
+    assert.strictEqual(refs[0]?.path, 'notes/C# tips.md');
+    assert.strictEqual(refs[0]?.fragment, undefined);
+  });
+
+  it('extracts a path with backslash-escaped characters', () => {
+    const refs = extractReferences('See @docs/Design\\ Notes\\ \\(v2\\).md now');
+    assert.strictEqual(refs.length, 1);
+    assert.strictEqual(refs[0]?.raw, '@docs/Design\\ Notes\\ \\(v2\\).md');
+    assert.strictEqual(refs[0]?.path, 'docs/Design Notes (v2).md');
+  });
+
+  it('does not treat backslash before a letter as an escape', () => {
+    const refs = extractReferences('See @docs\\file.md');
+    assert.strictEqual(refs.length, 0);
+  });
+
+  it('ignores an unterminated quote', () => {
+    const refs = extractReferences('See @"docs/open.md and more');
+    assert.strictEqual(refs.length, 0);
+  });
+
+  it('ignores quoted references inside code spans', () => {
+    const refs = extractReferences('Use `@"docs/My Notes.md"` syntax');
+    assert.strictEqual(refs.length, 0);
+  });
+});
+
+describe('extractReferences with glob patterns', () => {
+  it('extracts glob patterns', () => {
+    const refs = extractReferences('Read @docs/backend/*.md, @docs/**/*.md and @src/file-?.ts');
+    assert.deepStrictEqual(refs.map(r => r.path), ['docs/backend/*.md', 'docs/**/*.md', 'src/file-?.ts']);
+  });
+
+  it('allows a trailing wildcard after a slash', () => {
+    const refs = extractReferences('All of @docs/* and @notes/**');
+    assert.deepStrictEqual(refs.map(r => r.path), ['docs/*', 'notes/**']);
+  });
+
+  it('does not take trailing emphasis or question marks as wildcards', () => {
+    const refs = extractReferences('Did you read @docs/a.md? It is *about @docs/b.md*');
+    assert.deepStrictEqual(refs.map(r => r.path), ['docs/a.md', 'docs/b.md']);
+  });
+});
+
+describe('formatReferencePath', () => {
+  it('leaves plain paths unquoted', () => {
+    assert.strictEqual(formatReferencePath('src/index.ts'), 'src/index.ts');
+    assert.strictEqual(formatReferencePath('ノート/設計.md'), 'ノート/設計.md');
+  });
+
+  it('leaves aliased plain paths unquoted', () => {
+    assert.strictEqual(formatReferencePath('shared:prompts/review.md'), 'shared:prompts/review.md');
+    assert.strictEqual(formatReferencePath('npm:@types/node/index.d.ts'), 'npm:@types/node/index.d.ts');
+  });
+
+  it('quotes paths with spaces or special characters', () => {
+    assert.strictEqual(formatReferencePath('docs/Design Notes (v2).md'), '"docs/Design Notes (v2).md"');
+  });
+
+  it('escapes quotes and backslashes', () => {
+    assert.strictEqual(formatReferencePath('a "b".md'), '"a \\"b\\".md"');
+  });
+
+  it('round-trips through extractReferences', () => {
+    const original = 'docs/Design "Notes" (v2).md';
+    const refs = extractReferences(`See @${formatReferencePath(original)}`);
+    assert.strictEqual(refs[0]?.path, original);
+  });
+});
+
+describe('extractReferences with Unicode paths', () => {
+  it('extracts paths with German letters', () => {
+    const refs = extractReferences('Siehe @docs/Übersicht.md und @docs/größe.md');
+    assert.strictEqual(refs.length, 2);
+    assert.strictEqual(refs[0]?.path, 'docs/Übersicht.md');
+    assert.strictEqual(refs[1]?.path, 'docs/größe.md');
+  });
+
+  it('extracts paths in Japanese', () => {
+    const refs = extractReferences('参照 @ノート/設計.md を見て');
+    assert.strictEqual(refs.length, 1);
+    assert.strictEqual(refs[0]?.path, 'ノート/設計.md');
+  });
+
+  it('extracts paths with combining marks', () => {
+    const decomposed = 'docs/U\u0308bersicht.md';
+    const refs = extractReferences(`See @${decomposed}`);
+    assert.strictEqual(refs[0]?.path, decomposed);
+  });
+
+  it('accepts Unicode file extensions', () => {
+    const refs = extractReferences('See @メモ.テキスト');
+    assert.strictEqual(refs.length, 1);
+  });
+
+  it('extracts Unicode heading fragments', () => {
+    const refs = extractReferences('See @docs/Übersicht.md#einführung');
+    assert.deepStrictEqual(refs[0]?.fragment, { type: 'heading', slug: 'einführung' });
+  });
+
+  it('still ignores Unicode email addresses', () => {
+    const refs = extractReferences('Kontakt: jürgen@beispiel.de');
+    assert.strictEqual(refs.length, 0);
+  });
+
+  it('still ignores Unicode references inside code spans', () => {
+    const refs = extractReferences('Nutze `@docs/Übersicht.md` nicht');
+    assert.strictEqual(refs.length, 0);
+  });
+
+  it('reports columns in UTF-16 code units', () => {
+    const refs = extractReferences('日本 @ノート/設計.md');
+    assert.strictEqual(refs[0]?.column, 4);
+  });
+});
+
+describe('extractReferences with escapes and ignore regions', () => {
+  it('ignores an escaped @', () => {
+    const refs = extractReferences('Install \\@scope/package and see @real/file.md');
+    assert.strictEqual(refs.length, 1);
+    assert.strictEqual(refs[0]?.path, 'real/file.md');
+  });
+
+  it('ignores references inside an at-ref-ignore region', () => {
+    const content = 'See @a/one.md\n<!-- at-ref-ignore -->\nUse @b/two.md syntax\n<!-- at-ref-ignore-end -->\nThen @c/three.md';
+    const refs = extractReferences(content);
+    assert.deepStrictEqual(refs.map(r => r.path), ['a/one.md', 'c/three.md']);
+  });
+
+  it('ignores the rest of the content when a region is not closed', () => {
+    const refs = extractReferences('@a/one.md <!-- at-ref-ignore --> @b/two.md\n@c/three.md');
+    assert.deepStrictEqual(refs.map(r => r.path), ['a/one.md']);
+  });
+
+  it('does not treat markers inside code as regions', () => {
+    const refs = extractReferences('Write `<!-- at-ref-ignore -->` to skip, e.g. @a/one.md');
+    assert.strictEqual(refs.length, 1);
+  });
+});
+
+describe('extractReferences with disable directives', () => {
+  const suppressedPaths = (content: string) =>
+    extractReferences(content).filter(r => r.suppressed).map(r => r.path);
+
+  it('suppresses references on the line after at-ref-disable-next-line', () => {
+    const content = '<!-- at-ref-disable-next-line -->\n@a/one.md and @b/two.md\n@c/three.md';
+    assert.deepStrictEqual(suppressedPaths(content), ['a/one.md', 'b/two.md']);
+    assert.strictEqual(extractReferences(content).length, 3);
+  });
+
+  it('suppresses references between at-ref-disable and at-ref-enable', () => {
+    const content = '@a/one.md\n<!-- at-ref-disable -->\n@b/two.md\n<!-- at-ref-enable -->\n@c/three.md';
+    assert.deepStrictEqual(suppressedPaths(content), ['b/two.md']);
+  });
+
+  it('suppresses the rest of the content when a region is not closed', () => {
+    assert.deepStrictEqual(suppressedPaths('@a/one.md\n<!-- at-ref-disable -->\n@b/two.md\n@c/three.md'), [
+      'b/two.md',
+      'c/three.md',
+    ]);
+  });
+
+  it('suppresses the whole file with at-ref-disable-file', () => {
+    assert.deepStrictEqual(suppressedPaths('@a/one.md\n@b/two.md\n<!-- at-ref-disable-file -->'), [
+      'a/one.md',
+      'b/two.md',
+    ]);
+  });
+
+  it('does not treat directives inside code as directives', () => {
+    assert.deepStrictEqual(findDisabledRanges('`<!-- at-ref-disable-file -->`\n@a/one.md'), []);
+  });
+});
+
+describe('extractReferences with CommonMark exclusion zones', () => {
+  it('skips references in tilde fences', () => {
+    const refs = extractReferences('~~~\n@a/one.md\n~~~\nSee @b/two.md');
+    assert.deepStrictEqual(refs.map(r => r.path), ['b/two.md']);
+  });
+
+  it('skips references in indented code blocks', () => {
+    const refs = extractReferences('Example:\n\n    @a/one.md\n\nSee @b/two.md');
+    assert.deepStrictEqual(refs.map(r => r.path), ['b/two.md']);
+  });
+
+  it('keeps references in indented paragraph continuations', () => {
+    const refs = extractReferences('See the guide\n    @a/one.md');
+    assert.deepStrictEqual(refs.map(r => r.path), ['a/one.md']);
+  });
+
+  it('skips references in double-backtick code spans', () => {
+    const refs = extractReferences('Use ``@a/one.md `x` `` then @b/two.md');
+    assert.deepStrictEqual(refs.map(r => r.path), ['b/two.md']);
+  });
+
+  it('skips references in HTML comments', () => {
+    const refs = extractReferences('<!-- TODO: @a/one.md -->\nSee @b/two.md');
+    assert.deepStrictEqual(refs.map(r => r.path), ['b/two.md']);
+  });
+
+  it('skips references in autolinks and link destinations', () => {
+    const content = '<https://x.dev/@a/one.md> [docs](@b/two.md) [c]: @c/three.md\n\n[ref]: @d/four.md\nSee @e/five.md';
+    const refs = extractReferences(content);
+    assert.deepStrictEqual(refs.map(r => r.path), ['c/three.md', 'e/five.md']);
+  });
+});
+
+describe('extractReferences with optional references', () => {
+  it('marks @?path references as optional', () => {
+    const refs = extractReferences('Load @?CLAUDE.local.md and @docs/api.md');
+
+    assert.strictEqual(refs.length, 2);
+    assert.strictEqual(refs[0]?.path, 'CLAUDE.local.md');
+    assert.strictEqual(refs[0]?.raw, '@?CLAUDE.local.md');
+    assert.strictEqual(refs[0]?.optional, true);
+    assert.strictEqual(refs[1]?.optional, undefined);
+  });
+
+  it('supports quoted paths and fragments', () => {
+    const refs = extractReferences('@?"notes/My Notes.md"#setup');
+
+    assert.strictEqual(refs[0]?.path, 'notes/My Notes.md');
+    assert.strictEqual(refs[0]?.optional, true);
+    assert.deepStrictEqual(refs[0]?.fragment, { type: 'heading', slug: 'setup' });
+  });
+});
+
+describe('extractReferences with home and environment paths', () => {
+  it('extracts references starting with ~/', () => {
+    const refs = extractReferences('See @~/.claude/my-instructions.md for details');
+
+    assert.strictEqual(refs[0]?.path, '~/.claude/my-instructions.md');
+  });
+
+  it('extracts references with ${VAR} placeholders', () => {
+    const refs = extractReferences('Load @${DOCS_DIR}/api.md and @docs/${LANG_CODE}/intro.md');
+
+    assert.deepStrictEqual(refs.map(r => r.path), ['${DOCS_DIR}/api.md', 'docs/${LANG_CODE}/intro.md']);
+  });
+});
+
+describe('extractReferences with aliases', () => {
+  it('extracts aliased references', () => {
+    const refs = extractReferences('Follow @shared:prompts/review.md#checklist and @docs:api.md');
+
+    assert.deepStrictEqual(refs.map(r => r.path), ['shared:prompts/review.md', 'docs:api.md']);
+    assert.deepStrictEqual(refs[0]?.fragment, { type: 'heading', slug: 'checklist' });
+  });
+
+  it('extracts package references with scoped names', () => {
+    const refs = extractReferences('Read @npm:zod/README.md and @npm:@types/node/index.d.ts');
+
+    assert.deepStrictEqual(refs.map(r => r.path), ['npm:zod/README.md', 'npm:@types/node/index.d.ts']);
+  });
+
+  it('does not take a trailing colon as an alias', () => {
+    const refs = extractReferences('Notes for @docs/api.md: see above');
+
+    assert.strictEqual(refs[0]?.path, 'docs/api.md');
+  });
+});
+
+describe('findIgnoredRanges', () => {
+  it('returns ranges covering the markers', () => {
+    const content = 'x <!--at-ref-ignore--> y <!-- at-ref-ignore-end --> z';
+    const ranges = findIgnoredRanges(content);
+    assert.strictEqual(ranges.length, 1);
+    assert.strictEqual(content.slice(ranges[0]!.start, ranges[0]!.end), '<!--at-ref-ignore--> y <!-- at-ref-ignore-end -->');
+  });
+
+  it('returns no ranges without markers', () => {
+    assert.deepStrictEqual(findIgnoredRanges('plain @a/b.md'), []);
+  });
+});
+
+describe('findAtEscapes', () => {
+  it('finds backslashes before @', () => {
+    assert.deepStrictEqual(findAtEscapes('a \\@b/c and \\@d/e'), [2, 12]);
+  });
+
+  it('skips escapes inside code', () => {
+    assert.deepStrictEqual(findAtEscapes('`\\@b/c` and\n```\n\\@d\n```'), []);
+  });
+});
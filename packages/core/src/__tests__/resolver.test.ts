@@ -3,7 +3,7 @@ import assert from 'node:assert';
 import * as fs from 'node:fs';
 import * as path from 'node:path';
 import * as os from 'node:os';
-import { resolvePath, pathExists } from '../resolver';
+import { resolvePath, pathExists, expandReferencePath, parseAliasedPath, checkSandbox, findPackageRoot } from '../resolver';
 
 describe('resolvePath', () => {
   let tempDir: string;
@@ -85,6 +85,76 @@ describe('resolvePath', () => {
   });
 });
 
+describe('resolvePath with line-range fragments', () => {
+  let tempDir: string;
+
+  before(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'at-ref-test-'));
+    fs.writeFileSync(path.join(tempDir, 'five.ts'), '1\n2\n3\n4\n5\n');
+    fs.mkdirSync(path.join(tempDir, 'subdir'));
+  });
+
+  after(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('accepts a range inside the file', () => {
+    const result = resolvePath('five.ts', { basePath: tempDir }, { type: 'lines', start: 2, end: 5 });
+    assert.strictEqual(result.exists, true);
+    assert.strictEqual(result.error, undefined);
+  });
+
+  it('reports a range past the end of the file', () => {
+    const result = resolvePath('five.ts', { basePath: tempDir }, { type: 'lines', start: 4, end: 9 });
+    assert.strictEqual(result.exists, false);
+    assert.strictEqual(result.errorCode, 'fragment-out-of-range');
+    assert.ok(result.error?.includes('#L4-9'));
+    assert.ok(result.error?.includes('5 lines'));
+  });
+
+  it('reports a reversed range', () => {
+    const result = resolvePath('five.ts', { basePath: tempDir }, { type: 'lines', start: 3, end: 2 });
+    assert.strictEqual(result.exists, false);
+    assert.strictEqual(result.errorCode, 'fragment-out-of-range');
+  });
+
+  it('reports a range on a directory', () => {
+    const result = resolvePath('subdir', { basePath: tempDir }, { type: 'lines', start: 1, end: 1 });
+    assert.strictEqual(result.exists, false);
+    assert.strictEqual(result.errorCode, 'fragment-out-of-range');
+  });
+
+  it('reports missing files as not-found before checking the range', () => {
+    const result = resolvePath('missing.ts', { basePath: tempDir }, { type: 'lines', start: 1, end: 1 });
+    assert.strictEqual(result.errorCode, 'not-found');
+  });
+});
+
+describe('resolvePath with heading fragments', () => {
+  let tempDir: string;
+
+  before(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'at-ref-test-'));
+    fs.writeFileSync(path.join(tempDir, 'doc.md'), '# Doc\n\n## Error Handling\n\nText');
+  });
+
+  after(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('accepts a heading that exists', () => {
+    const result = resolvePath('doc.md', { basePath: tempDir }, { type: 'heading', slug: 'error-handling' });
+    assert.strictEqual(result.exists, true);
+  });
+
+  it('reports a heading that does not exist', () => {
+    const result = resolvePath('doc.md', { basePath: tempDir }, { type: 'heading', slug: 'retries' });
+    assert.strictEqual(result.exists, false);
+    assert.strictEqual(result.errorCode, 'heading-not-found');
+    assert.ok(result.error?.includes('#retries'));
+  });
+});
+
 describe('pathExists', () => {
   let tempDir: string;
 
@@ -105,3 +175,398 @@ describe('pathExists', () => {
     assert.strictEqual(pathExists('missing.ts', tempDir), false);
   });
 });
+
+describe('resolvePath with glob patterns', () => {
+  let tempDir: string;
+
+  before(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'at-ref-test-'));
+    fs.mkdirSync(path.join(tempDir, 'docs', 'backend', 'db'), { recursive: true });
+    fs.writeFileSync(path.join(tempDir, 'docs', 'backend', 'b.md'), '# B');
+    fs.writeFileSync(path.join(tempDir, 'docs', 'backend', 'a.md'), '# A');
+    fs.writeFileSync(path.join(tempDir, 'docs', 'backend', 'notes.txt'), 'notes');
+    fs.writeFileSync(path.join(tempDir, 'docs', 'backend', '.hidden.md'), '# Hidden');
+    fs.writeFileSync(path.join(tempDir, 'docs', 'backend', 'db', 'schema.md'), '# Schema');
+  });
+
+  after(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('expands * to the sorted matching files in one directory', () => {
+    const result = resolvePath('docs/backend/*.md', { basePath: tempDir });
+    assert.strictEqual(result.exists, true);
+    assert.strictEqual(result.isDirectory, false);
+    assert.strictEqual(result.resolvedPath, path.join(tempDir, 'docs', 'backend', '*.md'));
+    assert.deepStrictEqual(result.matches, [
+      path.join(tempDir, 'docs', 'backend', 'a.md'),
+      path.join(tempDir, 'docs', 'backend', 'b.md'),
+    ]);
+  });
+
+  it('expands ** across directories', () => {
+    const result = resolvePath('./docs/**/*.md', { basePath: tempDir });
+    assert.deepStrictEqual(result.matches, [
+      path.join(tempDir, 'docs', 'backend', 'a.md'),
+      path.join(tempDir, 'docs', 'backend', 'b.md'),
+      path.join(tempDir, 'docs', 'backend', 'db', 'schema.md'),
+    ]);
+  });
+
+  it('matches every file under a trailing **', () => {
+    const result = resolvePath('docs/backend/db/**', { basePath: tempDir });
+    assert.deepStrictEqual(result.matches, [path.join(tempDir, 'docs', 'backend', 'db', 'schema.md')]);
+  });
+
+  it('expands ? to a single character', () => {
+    const result = resolvePath('docs/backend/?.md', { basePath: tempDir });
+    assert.strictEqual(result.matches?.length, 2);
+  });
+
+  it('reports a glob that matches nothing', () => {
+    const result = resolvePath('docs/frontend/*.md', { basePath: tempDir });
+    assert.strictEqual(result.exists, false);
+    assert.strictEqual(result.errorCode, 'no-matches');
+    assert.deepStrictEqual(result.matches, []);
+  });
+
+  it('checks a fragment against every match', () => {
+    const result = resolvePath('docs/backend/*.md', { basePath: tempDir }, { type: 'heading', slug: 'a' });
+    assert.strictEqual(result.exists, false);
+    assert.strictEqual(result.errorCode, 'heading-not-found');
+    assert.ok(result.error?.includes('b.md'));
+  });
+});
+
+describe('resolvePath with ~ and ${VAR} expansion', () => {
+  let tempDir: string;
+  let homeDir: string;
+
+  before(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'at-ref-test-expand-'));
+    homeDir = path.join(tempDir, 'home');
+    fs.mkdirSync(path.join(homeDir, '.claude'), { recursive: true });
+    fs.writeFileSync(path.join(homeDir, '.claude', 'notes.md'), '# Notes');
+    fs.mkdirSync(path.join(tempDir, 'shared'));
+    fs.writeFileSync(path.join(tempDir, 'shared', 'api.md'), '# API');
+  });
+
+  after(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('expands a leading ~ to the home directory', () => {
+    const result = resolvePath('~/.claude/notes.md', { basePath: tempDir, homeDir });
+
+    assert.strictEqual(result.exists, true);
+    assert.strictEqual(result.resolvedPath, path.join(homeDir, '.claude', 'notes.md'));
+  });
+
+  it('substitutes ${VAR} from the given environment', () => {
+    const result = resolvePath('${SHARED_DOCS}/api.md', {
+      basePath: homeDir,
+      env: { SHARED_DOCS: path.join(tempDir, 'shared') },
+    });
+
+    assert.strictEqual(result.exists, true);
+    assert.strictEqual(result.resolvedPath, path.join(tempDir, 'shared', 'api.md'));
+  });
+
+  it('reports variables that are not set', () => {
+    const result = resolvePath('${MISSING_DIR}/api.md', { basePath: tempDir, env: {} });
+
+    assert.strictEqual(result.exists, false);
+    assert.strictEqual(result.errorCode, 'undefined-variable');
+    assert.ok(result.error?.includes('MISSING_DIR'));
+  });
+
+  it('leaves ~ inside a path alone', () => {
+    const expanded = expandReferencePath('docs/~/notes.md', { homeDir: '/home/me' });
+
+    assert.deepStrictEqual(expanded, { path: 'docs/~/notes.md' });
+  });
+
+  it('does not expand ~ in variable values', () => {
+    const expanded = expandReferencePath('${DIR}/a.md', { homeDir: '/home/me', env: { DIR: '~/x' } });
+
+    assert.deepStrictEqual(expanded, { path: '~/x/a.md' });
+  });
+});
+
+describe('resolvePath with aliases', () => {
+  let tempDir: string;
+
+  before(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'at-ref-test-alias-'));
+    fs.mkdirSync(path.join(tempDir, 'prompts'));
+    fs.writeFileSync(path.join(tempDir, 'prompts', 'review.md'), '# Review\n\n## Checklist');
+    fs.mkdirSync(path.join(tempDir, 'packages', 'a', 'docs'), { recursive: true });
+    fs.mkdirSync(path.join(tempDir, 'packages', 'b', 'docs'), { recursive: true });
+    fs.writeFileSync(path.join(tempDir, 'packages', 'b', 'docs', 'api.md'), '# API');
+  });
+
+  after(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('resolves a path below the alias root', () => {
+    const result = resolvePath('shared:review.md', {
+      basePath: path.join(tempDir, 'packages'),
+      aliases: { shared: path.join(tempDir, 'prompts') },
+    });
+
+    assert.strictEqual(result.exists, true);
+    assert.strictEqual(result.resolvedPath, path.join(tempDir, 'prompts', 'review.md'));
+  });
+
+  it('uses the first root that has the target', () => {
+    const docsRoots = ['a', 'b'].map(name => path.join(tempDir, 'packages', name, 'docs'));
+    const result = resolvePath('docs:api.md', { aliases: { docs: docsRoots } });
+
+    assert.strictEqual(result.resolvedPath, path.join(tempDir, 'packages', 'b', 'docs', 'api.md'));
+  });
+
+  it('reports the first root when no root has the target', () => {
+    const docsRoots = ['a', 'b'].map(name => path.join(tempDir, 'packages', name, 'docs'));
+    const result = resolvePath('docs:missing.md', { aliases: { docs: docsRoots } });
+
+    assert.strictEqual(result.errorCode, 'not-found');
+    assert.strictEqual(result.resolvedPath, path.join(docsRoots[0]!, 'missing.md'));
+  });
+
+  it('checks fragments against the aliased file', () => {
+    const aliases = { shared: path.join(tempDir, 'prompts') };
+
+    assert.strictEqual(resolvePath('shared:review.md', { aliases }, { type: 'heading', slug: 'checklist' }).exists, true);
+    assert.strictEqual(
+      resolvePath('shared:review.md', { aliases }, { type: 'heading', slug: 'missing' }).errorCode,
+      'heading-not-found'
+    );
+  });
+
+  it('reports unknown aliases', () => {
+    const result = resolvePath('other:review.md', { basePath: tempDir });
+
+    assert.strictEqual(result.exists, false);
+    assert.strictEqual(result.errorCode, 'unknown-alias');
+  });
+
+  it('does not treat URL schemes or Windows drives as aliases', () => {
+    assert.strictEqual(parseAliasedPath('https://example.com/a.md'), undefined);
+    assert.strictEqual(parseAliasedPath('C:/Users/me/notes.md'), undefined);
+    assert.strictEqual(parseAliasedPath('shared:/prompts/review.md'), undefined);
+    assert.deepStrictEqual(parseAliasedPath('shared:prompts/review.md'), { alias: 'shared', path: 'prompts/review.md' });
+  });
+});
+
+describe('resolvePath with package references', () => {
+  let tempDir: string;
+  let zodRoot: string;
+
+  before(() => {
+    tempDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'at-ref-test-npm-')));
+
+    // pnpm layout: node_modules/zod links into node_modules/.pnpm
+    zodRoot = path.join(tempDir, 'node_modules', '.pnpm', 'zod@3.23.8', 'node_modules', 'zod');
+    fs.mkdirSync(zodRoot, { recursive: true });
+    fs.writeFileSync(path.join(zodRoot, 'README.md'), '# Zod\n\n## Basic usage');
+    fs.symlinkSync(zodRoot, path.join(tempDir, 'node_modules', 'zod'), 'dir');
+
+    fs.mkdirSync(path.join(tempDir, 'node_modules', '@types', 'node'), { recursive: true });
+    fs.writeFileSync(path.join(tempDir, 'node_modules', '@types', 'node', 'index.d.ts'), 'export {};');
+
+    fs.mkdirSync(path.join(tempDir, 'packages', 'app'), { recursive: true });
+  });
+
+  after(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('resolves a file inside a symlinked package', () => {
+    const result = resolvePath('npm:zod/README.md', { basePath: tempDir });
+
+    assert.strictEqual(result.exists, true);
+    assert.strictEqual(result.resolvedPath, path.join(zodRoot, 'README.md'));
+  });
+
+  it('resolves scoped packages and package roots', () => {
+    assert.strictEqual(resolvePath('npm:@types/node/index.d.ts', { basePath: tempDir }).exists, true);
+
+    const root = resolvePath('npm:zod/', { basePath: tempDir });
+    assert.strictEqual(root.isDirectory, true);
+    assert.strictEqual(root.resolvedPath, zodRoot);
+  });
+
+  it('looks up packages from the referencing file', () => {
+    const result = resolvePath('npm:zod/README.md', {
+      basePath: os.tmpdir(),
+      referencingFile: path.join(tempDir, 'packages', 'app', 'CLAUDE.md'),
+    });
+
+    assert.strictEqual(result.exists, true);
+    assert.strictEqual(findPackageRoot('zod', path.join(tempDir, 'packages', 'app')), zodRoot);
+  });
+
+  it('checks fragments against the package file', () => {
+    const fragment = { type: 'heading' as const, slug: 'basic-usage' };
+
+    assert.strictEqual(resolvePath('npm:zod/README.md', { basePath: tempDir }, fragment).exists, true);
+  });
+
+  it('reports packages that are not installed', () => {
+    const result = resolvePath('npm:left-pad/README.md', { basePath: tempDir });
+
+    assert.strictEqual(result.exists, false);
+    assert.strictEqual(result.errorCode, 'package-not-found');
+    assert.match(result.error ?? '', /Package "left-pad" is not installed/);
+    assert.strictEqual(resolvePath('npm:.bin/README.md', { basePath: tempDir }).errorCode, 'package-not-found');
+  });
+
+  it('reports missing files inside an installed package', () => {
+    assert.strictEqual(resolvePath('npm:zod/missing.md', { basePath: tempDir }).errorCode, 'not-found');
+  });
+
+  it('suggests the casing of package files with the package prefix', () => {
+    const result = resolvePath('npm:zod/readme.md', { basePath: tempDir });
+
+    assert.strictEqual(result.errorCode, 'case-mismatch');
+    assert.strictEqual(result.correctedPath, 'npm:zod/README.md');
+  });
+});
+
+describe('resolvePath with a sandbox', () => {
+  let tempDir: string;
+  let projectDir: string;
+
+  before(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'at-ref-test-sandbox-'));
+    projectDir = path.join(tempDir, 'project');
+    fs.mkdirSync(path.join(projectDir, 'docs'), { recursive: true });
+    fs.writeFileSync(path.join(projectDir, 'docs', 'guide.md'), '# Guide');
+    fs.mkdirSync(path.join(tempDir, 'outside'));
+    fs.writeFileSync(path.join(tempDir, 'outside', 'secret.md'), 'secret');
+    fs.writeFileSync(path.join(tempDir, 'outside', 'notes.md'), 'notes');
+    fs.symlinkSync(path.join(tempDir, 'outside', 'secret.md'), path.join(projectDir, 'docs', 'linked.md'));
+    fs.symlinkSync(path.join(projectDir, 'docs', 'guide.md'), path.join(projectDir, 'guide-link.md'));
+  });
+
+  after(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('resolves targets inside the allowed roots', () => {
+    const result = resolvePath('docs/guide.md', { basePath: projectDir, sandbox: { allowedRoots: [projectDir] } });
+
+    assert.strictEqual(result.exists, true);
+  });
+
+  it('refuses paths that escape the allowed roots', () => {
+    const result = resolvePath('../outside/secret.md', { basePath: projectDir, sandbox: { allowedRoots: [projectDir] } });
+
+    assert.strictEqual(result.exists, false);
+    assert.strictEqual(result.errorCode, 'outside-sandbox');
+    assert.strictEqual(result.resolvedPath, path.join(tempDir, 'outside', 'secret.md'));
+  });
+
+  it('refuses missing targets outside the allowed roots', () => {
+    const result = resolvePath('/etc/no-such-file', { basePath: projectDir, sandbox: { allowedRoots: [projectDir] } });
+
+    assert.strictEqual(result.errorCode, 'outside-sandbox');
+  });
+
+  it('refuses symbolic links to targets outside the allowed roots', () => {
+    const result = resolvePath('docs/linked.md', { basePath: projectDir, sandbox: { allowedRoots: [projectDir] } });
+
+    assert.strictEqual(result.errorCode, 'outside-sandbox');
+    assert.match(result.error ?? '', /symbolic link/);
+  });
+
+  it('refuses a glob if any match is outside the allowed roots', () => {
+    const result = resolvePath('docs/*.md', { basePath: projectDir, sandbox: { allowedRoots: [projectDir] } });
+
+    assert.strictEqual(result.errorCode, 'outside-sandbox');
+  });
+
+  it('allows additional roots', () => {
+    const result = resolvePath('../outside/notes.md', {
+      basePath: projectDir,
+      sandbox: { allowedRoots: [projectDir, path.join(tempDir, 'outside')] },
+    });
+
+    assert.strictEqual(result.exists, true);
+  });
+
+  it('applies to aliased references', () => {
+    const result = resolvePath('out:notes.md', {
+      basePath: projectDir,
+      aliases: { out: path.join(tempDir, 'outside') },
+      sandbox: { allowedRoots: [projectDir] },
+    });
+
+    assert.strictEqual(result.errorCode, 'outside-sandbox');
+  });
+
+  it('refuses symbolic links inside the allowed roots when links are not followed', () => {
+    const sandbox = { allowedRoots: [projectDir], followSymlinks: false };
+
+    assert.strictEqual(checkSandbox(path.join(projectDir, 'guide-link.md'), { allowedRoots: [projectDir] }), undefined);
+    assert.match(checkSandbox(path.join(projectDir, 'guide-link.md'), sandbox) ?? '', /symbolic link/);
+    assert.strictEqual(checkSandbox(path.join(projectDir, 'docs', 'guide.md'), sandbox), undefined);
+  });
+});
+
+describe('resolvePath with case mismatches', () => {
+  let tempDir: string;
+
+  before(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'at-ref-test-case-'));
+    fs.mkdirSync(path.join(tempDir, 'docs'));
+    fs.writeFileSync(path.join(tempDir, 'docs', 'architecture.md'), '# Architecture');
+    fs.writeFileSync(path.join(tempDir, 'README.md'), '# Readme');
+  });
+
+  after(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('reports the casing on disk', () => {
+    const result = resolvePath('docs/Architecture.md', { basePath: tempDir });
+
+    assert.strictEqual(result.exists, false);
+    assert.strictEqual(result.errorCode, 'case-mismatch');
+    assert.strictEqual(result.correctedPath, 'docs/architecture.md');
+    assert.match(result.error ?? '', /docs\/Architecture\.md is spelled docs\/architecture\.md on disk/);
+  });
+
+  it('corrects directory segments and keeps the written prefix', () => {
+    assert.strictEqual(resolvePath('./Docs/architecture.md', { basePath: tempDir }).correctedPath, './docs/architecture.md');
+    assert.strictEqual(
+      resolvePath('../docs/ARCHITECTURE.md', { basePath: path.join(tempDir, 'docs') }).correctedPath,
+      '../docs/architecture.md'
+    );
+  });
+
+  it('keeps ~ and variables as written', () => {
+    const result = resolvePath('~/docs/Architecture.md', { homeDir: tempDir });
+
+    assert.strictEqual(result.correctedPath, '~/docs/architecture.md');
+  });
+
+  it('corrects paths completed by tryExtensions', () => {
+    const result = resolvePath('docs/Architecture', { basePath: tempDir, tryExtensions: ['.md'] });
+
+    assert.strictEqual(result.errorCode, 'case-mismatch');
+    assert.strictEqual(result.correctedPath, 'docs/architecture');
+  });
+
+  it('adds the alias to the corrected path', () => {
+    const result = resolvePath('docs:Architecture.md', { aliases: { docs: path.join(tempDir, 'docs') } });
+
+    assert.strictEqual(result.correctedPath, 'docs:architecture.md');
+  });
+
+  it('does not report paths that match the casing on disk', () => {
+    assert.strictEqual(resolvePath('README.md', { basePath: tempDir }).exists, true);
+    assert.strictEqual(resolvePath('docs/missing.md', { basePath: tempDir }).errorCode, 'not-found');
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import { RULES, checkRules, getRuleSetting } from '../rules';
+import { validateFile, hasErrors } from '../validator';
+import type { ResolvedReference } from '../types';
+
+/**
+ * A reference with a resolution, as the validator passes them to checkRules
+ */
+function resolvedReference(refPath: string, resolution: Partial<ResolvedReference['resolution']>): ResolvedReference {
+  return {
+    raw: `@${refPath}`,
+    path: refPath,
+    startIndex: 0,
+    endIndex: refPath.length + 1,
+    line: 1,
+    column: 1,
+    resolution: { resolvedPath: refPath, exists: true, isDirectory: false, ...resolution },
+  };
+}
+
+describe('getRuleSetting', () => {
+  const maxDepth = RULES.find(rule => rule.id === 'max-depth')!;
+
+  it('falls back to the default severity and options', () => {
+    assert.deepStrictEqual(getRuleSetting(maxDepth), { severity: 'off', options: { extensions: ['.md'], max: 5 } });
+  });
+
+  it('reads a severity or a severity and options', () => {
+    assert.strictEqual(getRuleSetting(maxDepth, { 'max-depth': 'error' }).severity, 'error');
+    assert.deepStrictEqual(getRuleSetting(maxDepth, { 'max-depth': ['warn', { max: 2 }] }), {
+      severity: 'warn',
+      options: { extensions: ['.md'], max: 2 },
+    });
+  });
+});
+
+describe('checkRules', () => {
+  it('reports directories and absolute paths when enabled', () => {
+    const refs = [
+      resolvedReference('src/', { resolvedPath: '/repo/src', isDirectory: true }),
+      resolvedReference('/etc/hosts', { resolvedPath: '/etc/hosts' }),
+    ];
+
+    assert.strictEqual(checkRules(refs, {}).length, 0);
+    const warnings = checkRules(refs, { rules: { 'directory-reference': 'warn', 'absolute-path': 'error' } });
+    assert.deepStrictEqual(
+      warnings.map(w => [w.ruleId, w.severity, w.reference.path]),
+      [
+        ['directory-reference', 'warn', 'src/'],
+        ['absolute-path', 'error', '/etc/hosts'],
+      ]
+    );
+  });
+
+  it('reports a file that references itself, but not a glob matching it', () => {
+    const refs = [
+      resolvedReference('CLAUDE.md', { resolvedPath: '/repo/CLAUDE.md' }),
+      resolvedReference('*.md', { resolvedPath: '/repo/*.md', matches: ['/repo/other.md'] }),
+    ];
+
+    const warnings = checkRules(refs, { filePath: '/repo/CLAUDE.md' });
+    assert.deepStrictEqual(warnings.map(w => w.ruleId), ['self-reference']);
+  });
+
+  it('reports extensions outside the allowed list', () => {
+    const refs = [
+      resolvedReference('docs/guide.md', { resolvedPath: '/repo/docs/guide.md' }),
+      resolvedReference('src/index.ts', { resolvedPath: '/repo/src/index.ts' }),
+      resolvedReference('docs/*', { resolvedPath: '/repo/docs/*', matches: ['/repo/docs/guide.md', '/repo/docs/Makefile'] }),
+    ];
+
+    const rules = { 'disallowed-extension': ['error', { extensions: ['.md', '.txt'] }] } as const;
+    const warnings = checkRules(refs, { rules: { 'binary-target': 'off', ...rules } });
+    assert.deepStrictEqual(
+      warnings.map(w => w.message),
+      [
+        'Reference to a file with .ts (allowed: .md, .txt): src/index.ts',
+        'Reference to a file with no extension (allowed: .md, .txt): docs/*',
+      ]
+    );
+  });
+
+  it('reports references nested deeper than the max depth', () => {
+    const refs = [resolvedReference('docs/guide.md', { resolvedPath: '/repo/docs/guide.md' })];
+    const rules = { 'max-depth': ['warn', { max: 2 }] } as const;
+
+    assert.strictEqual(checkRules(refs, { rules, depth: 2 }).length, 0);
+    assert.strictEqual(checkRules(refs, { rules, depth: 3 })[0]?.message, 'Reference is nested 3 levels deep (max 2): docs/guide.md');
+  });
+
+  it('does not check references covered by a disable directive', () => {
+    const ref = { ...resolvedReference('/etc/hosts', {}), suppressed: true };
+
+    assert.strictEqual(checkRules([ref], { rules: { 'absolute-path': 'error' } }).length, 0);
+  });
+});
+
+describe('validateFile with rules', () => {
+  let tempDir: string;
+
+  before(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'at-ref-test-rules-'));
+    fs.writeFileSync(path.join(tempDir, 'main.md'), '@logo.png\n@one.md');
+    fs.writeFileSync(path.join(tempDir, 'logo.png'), Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0x00]));
+    fs.writeFileSync(path.join(tempDir, 'one.md'), '@two.md');
+    fs.writeFileSync(path.join(tempDir, 'two.md'), '@three.md');
+    fs.writeFileSync(path.join(tempDir, 'three.md'), '# Three');
+  });
+
+  after(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('warns about binary targets by default', () => {
+    const result = validateFile(path.join(tempDir, 'main.md'));
+
+    assert.deepStrictEqual(result.warnings.map(w => w.ruleId), ['binary-target']);
+    assert.strictEqual(hasErrors(result), false);
+  });
+
+  it('checks the depth of nested references and fails on rules set to error', () => {
+    const result = validateFile(path.join(tempDir, 'main.md'), {
+      rules: { 'binary-target': 'off', 'max-depth': ['error', { max: 2 }] },
+    });
+
+    assert.deepStrictEqual(result.warnings.map(w => [w.ruleId, w.reference.path]), [['max-depth', 'three.md']]);
+    assert.strictEqual(result.warnings[0]?.filePath, path.join(tempDir, 'two.md'));
+    assert.strictEqual(hasErrors(result), true);
+  });
+});
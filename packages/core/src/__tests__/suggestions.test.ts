@@ -0,0 +1,88 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { createMemoryFileSystem } from '../file-system';
+import { listWorkspaceFiles, suggestReferencePaths } from '../suggestions';
+
+describe('listWorkspaceFiles', () => {
+  it('lists files, leaving out dotfiles, node_modules and dist', () => {
+    const fileSystem = createMemoryFileSystem({
+      '/project/README.md': '',
+      '/project/docs/guide.md': '',
+      '/project/.github/workflows/ci.yml': '',
+      '/project/node_modules/pkg/README.md': '',
+      '/project/dist/README.md': '',
+    });
+
+    assert.deepStrictEqual(listWorkspaceFiles('/project', { fileSystem }), [
+      '/project/README.md',
+      '/project/docs/guide.md',
+    ]);
+  });
+
+  it('leaves out entries matching extra ignore patterns', () => {
+    const fileSystem = createMemoryFileSystem({ '/project/a.md': '', '/project/tmp/b.md': '' });
+
+    assert.deepStrictEqual(listWorkspaceFiles('/project', { fileSystem, ignorePatterns: [/^tmp/] }), ['/project/a.md']);
+  });
+});
+
+describe('suggestReferencePaths', () => {
+  const files = [
+    '/project/README.md',
+    '/project/docs/backend/API_CONVENTIONS.md',
+    '/project/docs/server/setup.md',
+    '/project/docs/guides/frontend/routing.md',
+    '/project/docs/guides/routing.md',
+    '/project/src/index.ts',
+  ];
+
+  it('suggests files a small edit away', () => {
+    assert.deepStrictEqual(
+      suggestReferencePaths('docs/backend/API_CONVENTION.md', files, { basePath: '/project' }),
+      ['docs/backend/API_CONVENTIONS.md']
+    );
+  });
+
+  it('ignores case when comparing', () => {
+    assert.deepStrictEqual(suggestReferencePaths('readme.md', files, { basePath: '/project' }), ['README.md']);
+  });
+
+  it('suggests files with the same name in another directory', () => {
+    assert.deepStrictEqual(suggestReferencePaths('docs/backend/setup.md', files, { basePath: '/project' }), [
+      'docs/server/setup.md',
+    ]);
+  });
+
+  it('ranks the closest location of a moved file first', () => {
+    assert.deepStrictEqual(suggestReferencePaths('docs/routing.md', files, { basePath: '/project' }), [
+      'docs/guides/routing.md',
+      'docs/guides/frontend/routing.md',
+    ]);
+  });
+
+  it('keeps the way the reference was written', () => {
+    assert.deepStrictEqual(suggestReferencePaths('./src/indx.ts', files, { basePath: '/project' }), ['./src/index.ts']);
+    assert.deepStrictEqual(suggestReferencePaths('/project/src/indx.ts', files), ['/project/src/index.ts']);
+    assert.deepStrictEqual(suggestReferencePaths('src/indx', files, { basePath: '/project' }), ['src/index']);
+    assert.deepStrictEqual(suggestReferencePaths('../README.md', files, { basePath: '/project/docs' }), [
+      '../README.md',
+    ]);
+  });
+
+  it('limits the number of suggestions', () => {
+    assert.strictEqual(suggestReferencePaths('routing.md', files, { basePath: '/project', limit: 1 }).length, 1);
+  });
+
+  it('does not suggest another short file name in the same directory', () => {
+    const shortNames = ['/project/docs/b.md', '/project/docs/ab.md', '/project/docs/guide.md'];
+
+    assert.deepStrictEqual(suggestReferencePaths('docs/a.md', shortNames, { basePath: '/project' }), []);
+    assert.deepStrictEqual(suggestReferencePaths('docs/gide.md', shortNames, { basePath: '/project' }), ['docs/guide.md']);
+  });
+
+  it('makes no suggestions for unrelated paths, aliases and variables', () => {
+    assert.deepStrictEqual(suggestReferencePaths('changelog.txt', files, { basePath: '/project' }), []);
+    assert.deepStrictEqual(suggestReferencePaths('docs:README.md', files, { basePath: '/project' }), []);
+    assert.deepStrictEqual(suggestReferencePaths('${DOCS}/README.md', files, { basePath: '/project' }), []);
+  });
+});
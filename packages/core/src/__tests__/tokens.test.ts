@@ -0,0 +1,77 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import { approximateTokenizer, estimateTokens, getTokenReport, type Tokenizer } from '../tokens';
+import { compileFile } from '../compiler';
+import { formatTokenReport } from '../formatter';
+
+describe('approximateTokenizer', () => {
+  it('counts about four characters per token in words and a token per punctuation character', () => {
+    assert.strictEqual(estimateTokens(''), 0);
+    assert.strictEqual(estimateTokens('the cat'), 2);
+    assert.strictEqual(estimateTokens('documentation'), 4);
+    assert.strictEqual(estimateTokens('# Title!'), 4);
+  });
+
+  it('counts a token per CJK character', () => {
+    assert.strictEqual(approximateTokenizer.count('設計文書'), 4);
+  });
+});
+
+describe('getTokenReport', () => {
+  let tempDir: string;
+
+  // One token per word, so the expected counts are easy to read
+  const wordTokenizer: Tokenizer = {
+    name: 'words',
+    count: (text) => text.split(/\s+/).filter(Boolean).length,
+  };
+
+  before(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'at-ref-test-tokens-'));
+    fs.writeFileSync(path.join(tempDir, 'CLAUDE.md'), 'Read these\n\n@guide.md\n\n@small.md');
+    fs.writeFileSync(path.join(tempDir, 'guide.md'), 'one two three four five six seven eight\n\n@api.md');
+    fs.writeFileSync(path.join(tempDir, 'api.md'), 'alpha beta gamma delta');
+    fs.writeFileSync(path.join(tempDir, 'small.md'), 'tiny');
+  });
+
+  after(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const compile = () => compileFile(path.join(tempDir, 'CLAUDE.md'), { writeOutput: false, wrapper: 'none' });
+
+  it('breaks the total down per inlined file, largest first', () => {
+    const report = getTokenReport(compile(), { tokenizer: wordTokenizer });
+
+    assert.strictEqual(report.totalTokens, 15);
+    assert.strictEqual(report.tokenizer, 'words');
+    assert.deepStrictEqual(
+      report.contributions.map(c => [path.basename(c.filePath), c.tokens]),
+      [
+        ['guide.md', 8],
+        ['api.md', 4],
+        ['CLAUDE.md', 2],
+        ['small.md', 1],
+      ]
+    );
+  });
+
+  it('marks entrypoints over the budget', () => {
+    assert.strictEqual(getTokenReport(compile(), { tokenizer: wordTokenizer, maxTokens: 15 }).overBudget, false);
+    assert.strictEqual(getTokenReport(compile(), { tokenizer: wordTokenizer, maxTokens: 14 }).overBudget, true);
+    assert.strictEqual(getTokenReport(compile()).overBudget, false);
+  });
+
+  it('formats the largest contributors of an entrypoint over budget', () => {
+    const report = getTokenReport(compile(), { tokenizer: wordTokenizer, maxTokens: 10 });
+    const output = formatTokenReport(report, { noColor: true, cwd: tempDir, limit: 2 });
+
+    assert.strictEqual(
+      output,
+      ['CLAUDE.md: ~15 tokens (max 10) - over budget', '  Largest contributors:', '    8  guide.md', '    4  api.md'].join('\n')
+    );
+  });
+});
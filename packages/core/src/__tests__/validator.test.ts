@@ -3,7 +3,8 @@ import assert from 'node:assert';
 import * as fs from 'node:fs';
 import * as path from 'node:path';
 import * as os from 'node:os';
-import { validateReferences, validateReferencesRecursive, validateFile, isValidReference } from '../validator';
+import { validateReferences, validateReferencesRecursive, validateFile, isValidReference, hasErrors } from '../validator';
+import { listWorkspaceFiles } from '../suggestions';
 
 describe('validateReferences', () => {
   let tempDir: string;
@@ -40,6 +41,44 @@ describe('validateReferences', () => {
     assert.strictEqual(result.references[0]?.path, 'exists.ts');
   });
 
+  it('reports line ranges outside the target file as invalid', () => {
+    const content = 'See @exists.ts#L1 and @exists.ts#L2-3';
+    const result = validateReferences(content, { basePath: tempDir });
+
+    assert.strictEqual(result.stats.valid, 1);
+    assert.strictEqual(result.stats.invalid, 1);
+    assert.strictEqual(result.invalid[0]?.resolution.errorCode, 'fragment-out-of-range');
+  });
+
+  it('reports anchors that match no heading as invalid', () => {
+    fs.writeFileSync(path.join(tempDir, 'guide.md'), '# Guide\n\n## Setup\n');
+    const content = 'See @guide.md#setup and @guide.md#teardown';
+    const result = validateReferences(content, { basePath: tempDir });
+
+    assert.strictEqual(result.stats.valid, 1);
+    assert.strictEqual(result.stats.invalid, 1);
+    assert.strictEqual(result.invalid[0]?.resolution.errorCode, 'heading-not-found');
+  });
+
+  it('validates references to files with Unicode names', () => {
+    fs.mkdirSync(path.join(tempDir, 'ノート'), { recursive: true });
+    fs.writeFileSync(path.join(tempDir, 'ノート', '設計.md'), '# 設計');
+    fs.writeFileSync(path.join(tempDir, 'Übersicht.md'), '# Übersicht');
+
+    const result = validateReferences('See @ノート/設計.md and @Übersicht.md', { basePath: tempDir });
+
+    assert.strictEqual(result.stats.total, 2);
+    assert.strictEqual(result.stats.valid, 2);
+  });
+
+  it('skips escaped references and ignore regions', () => {
+    const content = 'See \\@scope/missing.ts\n<!-- at-ref-ignore -->\n@missing.ts\n<!-- at-ref-ignore-end -->\n@exists.ts';
+    const result = validateReferences(content, { basePath: tempDir });
+
+    assert.strictEqual(result.stats.total, 1);
+    assert.strictEqual(result.stats.invalid, 0);
+  });
+
   it('returns all valid when all files exist', () => {
     const content = 'See @exists.ts and @another.ts';
     const result = validateReferences(content, { basePath: tempDir });
@@ -189,6 +228,20 @@ describe('validateReferencesRecursive', () => {
     assert.strictEqual(result.stats.total, 0);
   });
 
+  it('only follows references inside a selected line range', () => {
+    fs.writeFileSync(path.join(tempDir, 'ranged.md'), 'Line 1 @c.md\nLine 2 @missing3.md\n');
+    const rootPath = path.join(tempDir, 'ranged-root.md');
+    fs.writeFileSync(rootPath, 'See @ranged.md#L1');
+
+    const result = validateReferencesRecursive(fs.readFileSync(rootPath, 'utf-8'), {
+      currentFilePath: rootPath,
+      basePath: tempDir,
+    });
+
+    assert.strictEqual(result.stats.total, 2); // ranged.md#L1, c.md
+    assert.strictEqual(result.stats.invalid, 0);
+  });
+
   it('finds deeply nested references', () => {
     // Create chain: root.md -> level1.md -> level2.md -> level3.md
     const rootPath = path.join(tempDir, 'root.md');
@@ -243,3 +296,343 @@ describe('validateFile with shallow and recursive modes', () => {
     assert.strictEqual(result.stats.valid, 1);
   });
 });
+
+describe('validateFile with glob references', () => {
+  let tempDir: string;
+
+  before(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'at-ref-test-glob-'));
+
+    fs.mkdirSync(path.join(tempDir, 'docs'));
+    fs.writeFileSync(path.join(tempDir, 'main.md'), 'Import @docs/*.md and @missing/*.md');
+    fs.writeFileSync(path.join(tempDir, 'docs', 'a.md'), 'Import @../nested.md');
+    fs.writeFileSync(path.join(tempDir, 'docs', 'b.md'), 'No refs');
+    fs.writeFileSync(path.join(tempDir, 'nested.md'), 'No refs');
+  });
+
+  after(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('flags globs that match nothing', () => {
+    const result = validateFile(path.join(tempDir, 'main.md'), { shallow: true });
+
+    assert.strictEqual(result.stats.valid, 1);
+    assert.strictEqual(result.stats.invalid, 1);
+    assert.strictEqual(result.invalid[0]?.path, 'missing/*.md');
+    assert.strictEqual(result.invalid[0]?.resolution.errorCode, 'no-matches');
+  });
+
+  it('validates references in every match recursively', () => {
+    const result = validateFile(path.join(tempDir, 'main.md'));
+
+    assert.deepStrictEqual(result.references.map(r => r.path), ['docs/*.md', '../nested.md', 'missing/*.md']);
+  });
+});
+
+describe('validateFile with directory references', () => {
+  let tempDir: string;
+
+  before(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'at-ref-test-dir-'));
+
+    fs.mkdirSync(path.join(tempDir, 'docs'));
+    fs.mkdirSync(path.join(tempDir, 'empty'));
+    fs.writeFileSync(path.join(tempDir, 'main.md'), 'See @docs/ and @empty/');
+    fs.writeFileSync(path.join(tempDir, 'docs', 'index.md'), 'Import @../missing.md');
+  });
+
+  after(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('treats directories as valid in tree mode', () => {
+    const result = validateFile(path.join(tempDir, 'main.md'));
+
+    assert.strictEqual(result.stats.total, 2);
+    assert.strictEqual(result.stats.valid, 2);
+  });
+
+  it('flags directories without an index file in index mode', () => {
+    const result = validateFile(path.join(tempDir, 'main.md'), { directoryMode: 'index', shallow: true });
+
+    assert.strictEqual(result.stats.invalid, 1);
+    assert.strictEqual(result.invalid[0]?.path, 'empty/');
+    assert.strictEqual(result.invalid[0]?.resolution.errorCode, 'no-index');
+  });
+
+  it('validates references in the files a directory imports', () => {
+    const result = validateFile(path.join(tempDir, 'main.md'), { directoryMode: 'contents' });
+
+    assert.deepStrictEqual(result.references.map(r => r.path), ['docs/', '../missing.md', 'empty/']);
+    assert.strictEqual(result.invalid[0]?.path, '../missing.md');
+  });
+});
+
+describe('validateFile with optional references', () => {
+  let tempDir: string;
+
+  before(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'at-ref-test-optional-'));
+
+    fs.writeFileSync(path.join(tempDir, 'main.md'), '@?local.md\n@?shared.md#missing-section\n@shared.md');
+    fs.writeFileSync(path.join(tempDir, 'shared.md'), '# Shared');
+  });
+
+  after(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('reports missing optional targets separately from invalid references', () => {
+    const result = validateFile(path.join(tempDir, 'main.md'));
+
+    assert.strictEqual(result.stats.total, 3);
+    assert.strictEqual(result.stats.optionalMissing, 1);
+    assert.strictEqual(result.optionalMissing[0]?.path, 'local.md');
+    assert.ok(result.invalid.every(r => r.path !== 'local.md'));
+  });
+
+  it('still flags other errors on optional references', () => {
+    const result = validateFile(path.join(tempDir, 'main.md'));
+
+    assert.strictEqual(result.stats.invalid, 1);
+    assert.strictEqual(result.invalid[0]?.resolution.errorCode, 'heading-not-found');
+  });
+});
+
+describe('validateFile with disable directives', () => {
+  let tempDir: string;
+
+  before(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'at-ref-test-disable-'));
+    fs.writeFileSync(
+      path.join(tempDir, 'template.md'),
+      [
+        '<!-- at-ref-disable-next-line -->',
+        '@generated/api.md',
+        '@missing.md',
+        '<!-- at-ref-disable -->',
+        '@generated/schema.md',
+        '@notes.md',
+        '<!-- at-ref-enable -->',
+      ].join('\n')
+    );
+    fs.writeFileSync(path.join(tempDir, 'notes.md'), '<!-- at-ref-disable-file -->\n@generated/changelog.md');
+  });
+
+  after(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('counts suppressed references separately from invalid ones', () => {
+    const result = validateFile(path.join(tempDir, 'template.md'));
+
+    assert.strictEqual(result.stats.total, 5);
+    assert.strictEqual(result.stats.valid, 1);
+    assert.strictEqual(result.stats.invalid, 1);
+    assert.strictEqual(result.invalid[0]?.path, 'missing.md');
+    assert.strictEqual(result.stats.suppressed, 3);
+    assert.deepStrictEqual(result.suppressed.map(r => r.path), [
+      'generated/api.md',
+      'generated/schema.md',
+      'generated/changelog.md',
+    ]);
+  });
+
+  it('does not fail on suppressed references alone', () => {
+    const result = validateFile(path.join(tempDir, 'notes.md'));
+
+    assert.strictEqual(result.stats.suppressed, 1);
+    assert.strictEqual(hasErrors(result), false);
+  });
+});
+
+describe('validateFile with a sandbox', () => {
+  let tempDir: string;
+
+  before(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'at-ref-test-sandbox-'));
+    fs.mkdirSync(path.join(tempDir, 'project'));
+    fs.writeFileSync(path.join(tempDir, 'project', 'main.md'), '@../secret.md\n@notes.md');
+    fs.writeFileSync(path.join(tempDir, 'project', 'notes.md'), 'Notes');
+    fs.writeFileSync(path.join(tempDir, 'secret.md'), 'Secret');
+  });
+
+  after(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('reports references outside the allowed roots as invalid', () => {
+    const result = validateFile(path.join(tempDir, 'project', 'main.md'), {
+      sandbox: { allowedRoots: [path.join(tempDir, 'project')] },
+    });
+
+    assert.strictEqual(result.stats.valid, 1);
+    assert.strictEqual(result.stats.invalid, 1);
+    assert.strictEqual(result.invalid[0]?.resolution.errorCode, 'outside-sandbox');
+  });
+});
+
+describe('validateFile with case mismatches', () => {
+  let tempDir: string;
+
+  before(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'at-ref-test-case-'));
+    fs.writeFileSync(path.join(tempDir, 'main.md'), '@Notes.md');
+    fs.writeFileSync(path.join(tempDir, 'notes.md'), 'Notes');
+  });
+
+  after(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('reports references whose casing differs from the file on disk', () => {
+    const result = validateFile(path.join(tempDir, 'main.md'));
+
+    assert.strictEqual(result.stats.invalid, 1);
+    assert.strictEqual(result.invalid[0]?.resolution.errorCode, 'case-mismatch');
+    assert.strictEqual(result.invalid[0]?.resolution.correctedPath, 'notes.md');
+  });
+});
+
+describe('validateFile with suggestions', () => {
+  let tempDir: string;
+
+  before(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'at-ref-test-suggest-'));
+    fs.mkdirSync(path.join(tempDir, 'docs', 'backend'), { recursive: true });
+    fs.writeFileSync(path.join(tempDir, 'main.md'), '@docs/backend/API_CONVENTION.md\n@docs/nothing-like-it.md');
+    fs.writeFileSync(path.join(tempDir, 'docs', 'backend', 'API_CONVENTIONS.md'), 'Conventions');
+  });
+
+  after(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('suggests existing files for references that are not found', () => {
+    const result = validateFile(path.join(tempDir, 'main.md'), {
+      suggestionFiles: listWorkspaceFiles(tempDir),
+    });
+
+    assert.strictEqual(result.stats.invalid, 2);
+    assert.deepStrictEqual(result.invalid[0]?.resolution.suggestions, ['docs/backend/API_CONVENTIONS.md']);
+    assert.strictEqual(result.invalid[1]?.resolution.suggestions, undefined);
+  });
+
+  it('lists the suggestion files only once a reference is not found', () => {
+    fs.writeFileSync(path.join(tempDir, 'valid.md'), '@docs/backend/API_CONVENTIONS.md');
+    let listed = 0;
+    const suggestionFiles = () => {
+      listed++;
+      return listWorkspaceFiles(tempDir);
+    };
+
+    validateFile(path.join(tempDir, 'valid.md'), { suggestionFiles });
+    assert.strictEqual(listed, 0);
+
+    const result = validateFile(path.join(tempDir, 'main.md'), { suggestionFiles });
+    assert.ok(listed > 0);
+    assert.deepStrictEqual(result.invalid[0]?.resolution.suggestions, ['docs/backend/API_CONVENTIONS.md']);
+  });
+
+  it('makes no suggestions without suggestion files', () => {
+    const result = validateFile(path.join(tempDir, 'main.md'));
+
+    assert.strictEqual(result.invalid[0]?.resolution.suggestions, undefined);
+  });
+});
+
+describe('validateFile with package references', () => {
+  let tempDir: string;
+
+  before(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'at-ref-test-npm-'));
+    fs.mkdirSync(path.join(tempDir, 'app', 'node_modules', 'zod'), { recursive: true });
+    fs.writeFileSync(path.join(tempDir, 'app', 'node_modules', 'zod', 'README.md'), '# Zod');
+    fs.writeFileSync(
+      path.join(tempDir, 'app', 'CLAUDE.md'),
+      '@npm:zod/README.md\n@npm:left-pad/README.md\n@?npm:optional-pkg/README.md'
+    );
+  });
+
+  after(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('finds packages from the referencing file and fails for packages that are not installed', () => {
+    const result = validateFile(path.join(tempDir, 'app', 'CLAUDE.md'), { basePath: tempDir });
+
+    assert.strictEqual(result.stats.valid, 1);
+    assert.strictEqual(result.stats.invalid, 1);
+    assert.strictEqual(result.stats.optionalMissing, 1);
+    assert.strictEqual(result.invalid[0]?.resolution.errorCode, 'package-not-found');
+  });
+});
+
+describe('validateFile machine-specific path warnings', () => {
+  let tempDir: string;
+  let homeDir: string;
+
+  before(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'at-ref-test-home-'));
+    homeDir = path.join(tempDir, 'home');
+
+    fs.mkdirSync(path.join(tempDir, 'repo', '.git'), { recursive: true });
+    fs.mkdirSync(path.join(tempDir, 'loose'));
+    fs.mkdirSync(path.join(homeDir, '.claude'), { recursive: true });
+    fs.writeFileSync(path.join(homeDir, '.claude', 'notes.md'), '# Notes');
+
+    const content = '@~/.claude/notes.md\n@/Users/alice/notes.md\n@?~/.claude/local.md\n@docs.md';
+    fs.writeFileSync(path.join(tempDir, 'repo', 'CLAUDE.md'), content);
+    fs.writeFileSync(path.join(tempDir, 'repo', 'docs.md'), '# Docs');
+    fs.writeFileSync(path.join(tempDir, 'loose', 'CLAUDE.md'), '@~/.claude/notes.md');
+  });
+
+  after(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('warns about home directory paths in files inside a git repository', () => {
+    const result = validateFile(path.join(tempDir, 'repo', 'CLAUDE.md'), { homeDir });
+
+    assert.deepStrictEqual(
+      result.warnings.map(w => w.reference.path),
+      ['~/.claude/notes.md', '/Users/alice/notes.md']
+    );
+    assert.ok(result.warnings.every(w => w.ruleId === 'machine-specific-path'));
+    assert.strictEqual(result.warnings[0]?.filePath, path.join(tempDir, 'repo', 'CLAUDE.md'));
+    assert.strictEqual(result.stats.warnings, 2);
+    assert.strictEqual(result.references[0]?.resolution.exists, true);
+  });
+
+  it('does not warn outside a git repository', () => {
+    const result = validateFile(path.join(tempDir, 'loose', 'CLAUDE.md'), { homeDir });
+
+    assert.strictEqual(result.warnings.length, 0);
+    assert.strictEqual(result.stats.valid, 1);
+  });
+
+  it('can be turned off', () => {
+    const result = validateFile(path.join(tempDir, 'repo', 'CLAUDE.md'), {
+      homeDir,
+      rules: { 'machine-specific-path': 'off' },
+    });
+
+    assert.strictEqual(result.warnings.length, 0);
+  });
+
+  it('fails validation when the rule is set to error', () => {
+    const warn = validateFile(path.join(tempDir, 'repo', 'CLAUDE.md'), { homeDir, shallow: true, ignorePatterns: [/^\/Users/] });
+    const error = validateFile(path.join(tempDir, 'repo', 'CLAUDE.md'), {
+      homeDir,
+      shallow: true,
+      ignorePatterns: [/^\/Users/],
+      rules: { 'machine-specific-path': 'error' },
+    });
+
+    assert.strictEqual(warn.warnings[0]?.severity, 'warn');
+    assert.strictEqual(hasErrors(warn), false);
+    assert.strictEqual(error.warnings[0]?.severity, 'error');
+    assert.strictEqual(hasErrors(error), true);
+  });
+});
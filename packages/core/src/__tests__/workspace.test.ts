@@ -0,0 +1,72 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import { findWorkspaceRoot, getWorkspaceRootStrategy } from '../workspace';
+import { createMemoryFileSystem } from '../file-system';
+
+describe('findWorkspaceRoot', () => {
+  let tempDir: string;
+  let docsDir: string;
+
+  before(() => {
+    tempDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'at-ref-workspace-')));
+    docsDir = path.join(tempDir, 'packages', 'app', 'docs');
+    fs.mkdirSync(path.join(tempDir, '.git'));
+    fs.mkdirSync(docsDir, { recursive: true });
+    fs.writeFileSync(path.join(tempDir, 'package.json'), '{}');
+    fs.writeFileSync(path.join(tempDir, 'packages', 'app', 'package.json'), '{}');
+    fs.writeFileSync(path.join(tempDir, 'packages', 'CLAUDE.md'), '# Packages');
+  });
+
+  after(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('finds the git root by default', () => {
+    assert.strictEqual(findWorkspaceRoot(docsDir), tempDir);
+  });
+
+  it('finds the nearest package.json', () => {
+    assert.strictEqual(findWorkspaceRoot(docsDir, { strategy: 'package-json' }), path.join(tempDir, 'packages', 'app'));
+  });
+
+  it('finds the nearest CLAUDE.md', () => {
+    assert.strictEqual(findWorkspaceRoot(docsDir, { strategy: 'claude-md' }), path.join(tempDir, 'packages'));
+  });
+
+  it('uses the explicit root', () => {
+    const root = path.join(tempDir, 'packages');
+
+    assert.strictEqual(findWorkspaceRoot(docsDir, { strategy: 'explicit', root }), root);
+    assert.strictEqual(findWorkspaceRoot(docsDir, { root }), root);
+    assert.throws(() => findWorkspaceRoot(docsDir, { strategy: 'explicit' }), /needs a root path/);
+  });
+
+  it('falls back when no directory has the marker', () => {
+    const fileSystem = createMemoryFileSystem({ '/project/docs/guide.md': '# Guide' });
+
+    assert.strictEqual(findWorkspaceRoot('/project/docs', { fileSystem }), '/project/docs');
+    assert.strictEqual(findWorkspaceRoot('/project/docs', { fileSystem, fallback: '/project' }), '/project');
+  });
+
+  it('looks for markers through the file system', () => {
+    const fileSystem = createMemoryFileSystem({
+      '/repo/package.json': '{}',
+      '/repo/docs/CLAUDE.md': '# Docs',
+      '/repo/docs/api/endpoints.md': '# Endpoints',
+    });
+
+    assert.strictEqual(findWorkspaceRoot('/repo/docs/api', { fileSystem, strategy: 'package-json' }), '/repo');
+    assert.strictEqual(findWorkspaceRoot('/repo/docs/api', { fileSystem, strategy: 'claude-md' }), '/repo/docs');
+  });
+});
+
+describe('getWorkspaceRootStrategy', () => {
+  it('defaults to git, or explicit when a root is given', () => {
+    assert.strictEqual(getWorkspaceRootStrategy(), 'git');
+    assert.strictEqual(getWorkspaceRootStrategy({ root: '/repo' }), 'explicit');
+    assert.strictEqual(getWorkspaceRootStrategy({ strategy: 'claude-md', root: '/repo' }), 'claude-md');
+  });
+});
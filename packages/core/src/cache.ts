@@ -0,0 +1,73 @@
+import * as path from 'node:path';
+import type { ReferenceFragment, ResolutionCache, ResolveOptions, ResolvedPath } from './types';
+import { nodeFileSystem } from './file-system';
+import { formatFragment } from './fragment';
+
+/**
+ * Create an empty cache of resolutions and file contents, to share across validateFile, compileFile,
+ * compileFolder and buildDependencyGraph calls through the cache option
+ *
+ * @example
+ * const cache = createResolutionCache();
+ * validateFile('CLAUDE.md', { cache });
+ * cache.invalidate('docs/guide.md'); // after docs/guide.md was edited
+ * cache.invalidate(); // after files were created, deleted or renamed
+ */
+export function createResolutionCache(): ResolutionCache {
+  const resolutions = new Map<string, ResolvedPath>();
+  const contents = new Map<string, string>();
+
+  return {
+    resolutions,
+    contents,
+    invalidate(filePath?: string): void {
+      if (filePath === undefined) {
+        resolutions.clear();
+        contents.clear();
+        return;
+      }
+
+      // An edit only changes the file's content and whether fragments into it still match
+      const absolutePath = path.resolve(filePath);
+      contents.delete(absolutePath);
+      for (const [key, resolution] of resolutions) {
+        if (resolution.resolvedPath === absolutePath || resolution.matches?.includes(absolutePath)) {
+          resolutions.delete(key);
+        }
+      }
+    },
+  };
+}
+
+/**
+ * Key of a resolution in the cache: everything the result depends on apart from the file system
+ * and the environment, which stay the same for the lifetime of a cache
+ */
+export function getResolutionKey(refPath: string, options: ResolveOptions, fragment?: ReferenceFragment): string {
+  return JSON.stringify([
+    options.basePath ?? process.cwd(),
+    refPath,
+    fragment && formatFragment(fragment),
+    options.tryExtensions,
+    options.homeDir,
+    options.aliases,
+    options.sandbox,
+    // Packages are looked up from the referencing file
+    refPath.startsWith('npm:') && options.referencingFile && path.dirname(options.referencingFile),
+  ]);
+}
+
+/**
+ * Read a file through the file system, reusing the content in the cache option if there is one
+ */
+export function readFileWithCache(filePath: string, options: Pick<ResolveOptions, 'cache' | 'fileSystem'>): string {
+  const { cache, fileSystem = nodeFileSystem } = options;
+  const cached = cache?.contents.get(filePath);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  const content = fileSystem.readFile(filePath);
+  cache?.contents.set(filePath, content);
+  return content;
+}
@@ -0,0 +1,83 @@
+import * as path from 'node:path';
+import type { ResolveOptions, ResolvedReference } from './types';
+import { PACKAGE_SCHEME, isGlobPattern, parseAliasedPath, resolvePath } from './resolver';
+
+/**
+ * How many hops of imports Claude Code follows from a memory file (its imports are hop 1)
+ */
+export const CLAUDE_MAX_IMPORT_DEPTH = 5;
+
+/**
+ * Regex to match ${VAR} placeholders
+ */
+const ENV_VARIABLE_PATTERN = /\$\{[A-Za-z_][A-Za-z0-9_]*\}/;
+
+/**
+ * Get why Claude Code's memory loader would not load a reference that resolves on disk.
+ * Claude Code imports a file path as written (relative, absolute or ~/), up to CLAUDE_MAX_IMPORT_DEPTH hops,
+ * and ignores references inside code like at-ref does; the syntax at-ref adds on top is not understood.
+ *
+ * Claude Code resolves a relative path from the importing file's directory, where at-ref uses the
+ * workspace root, so with options.referencingFile set the path is also resolved from there.
+ *
+ * @param ref - The resolved reference
+ * @param depth - How many hops the reference is from the memory file (1 for its own references)
+ * @param options - Resolution options, with the file containing the reference as referencingFile
+ * @returns The reason, or undefined if Claude Code loads the reference (or it does not resolve)
+ */
+export function getClaudeCompatIssue(
+  ref: ResolvedReference,
+  depth: number,
+  options: ResolveOptions = {}
+): string | undefined {
+  const { resolution } = ref;
+  if (!resolution.exists) {
+    return undefined;
+  }
+
+  if (depth > CLAUDE_MAX_IMPORT_DEPTH) {
+    return `Claude Code stops following imports after ${CLAUDE_MAX_IMPORT_DEPTH} hops (this reference is ${depth} hops deep)`;
+  }
+  if (ref.optional) {
+    return 'Claude Code does not support optional references (@?path)';
+  }
+  if (/^@\??"/.test(ref.raw) || ref.raw.includes('\\')) {
+    return 'Claude Code does not support quoted or escaped paths';
+  }
+
+  const aliased = parseAliasedPath(ref.path);
+  if (aliased?.alias === PACKAGE_SCHEME) {
+    return `Claude Code does not resolve ${PACKAGE_SCHEME}: package references`;
+  }
+  if (aliased) {
+    return `Claude Code does not resolve path aliases (${aliased.alias}:)`;
+  }
+  if (ENV_VARIABLE_PATTERN.test(ref.path)) {
+    return 'Claude Code does not expand ${VAR} placeholders';
+  }
+  if (isGlobPattern(ref.path)) {
+    return 'Claude Code does not expand globs';
+  }
+  if (ref.fragment) {
+    return 'Claude Code reads a #fragment as part of the file name';
+  }
+  if (resolution.isDirectory) {
+    return 'Claude Code does not import directories';
+  }
+
+  // tryExtensions and index files resolve paths that name no file on disk
+  const fileName = path.basename(resolution.resolvedPath);
+  if (path.basename(ref.path) !== fileName) {
+    return `Claude Code does not add extensions or index files (the file is ${fileName})`;
+  }
+
+  const { referencingFile } = options;
+  if (referencingFile !== undefined && !path.isAbsolute(ref.path) && ref.path !== '~' && !ref.path.startsWith('~/')) {
+    const fileRelative = resolvePath(ref.path, { ...options, basePath: path.dirname(referencingFile), tryExtensions: [] });
+    if (!fileRelative.exists || fileRelative.resolvedPath !== resolution.resolvedPath) {
+      return 'Claude Code resolves this relative to the importing file';
+    }
+  }
+
+  return undefined;
+}
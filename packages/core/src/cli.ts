@@ -2,37 +2,39 @@
 
 import * as fs from 'node:fs';
 import * as path from 'node:path';
-import { validateFile } from './validator';
+import { hasErrors, validateFile } from './validator';
 import {
   formatValidationResult,
   formatSummary,
   formatValidationSummary,
   formatBrokenReferencesByTarget,
   extractBrokenReferencesByTarget,
+  formatWarnings,
+  formatTokenReport,
+  formatMemoryContext,
 } from './formatter';
 import { compileFile, compileFolder, getBuiltOutputPath } from './compiler';
-import type { ValidationResult, BrokenReferenceByTarget } from './types';
+import type {
+  AtRefConfig,
+  AtRefFileStat,
+  AtRefFileSystem,
+  BrokenReferenceByTarget,
+  DirectoryMode,
+  DirectoryOptions,
+  ResolveOptions,
+  ValidationResult,
+  WorkspaceRootOptions,
+  WorkspaceRootStrategy,
+} from './types';
 import type { CompileResult, FolderCompileResult } from './compiler';
 import { buildReferenceTree, formatTree } from './tree-formatter';
-
-/**
- * Find workspace root by looking for .git directory
- */
-function findWorkspaceRoot(startPath: string, explicitRoot?: string): string {
-  if (explicitRoot) {
-    return path.resolve(explicitRoot);
-  }
-
-  let current = startPath;
-  while (current !== path.dirname(current)) {
-    const gitPath = path.join(current, '.git');
-    if (fs.existsSync(gitPath)) {
-      return current;
-    }
-    current = path.dirname(current);
-  }
-  return startPath; // fallback to document dir
-}
+import { loadConfig } from './config';
+import { getAliasRoots, resolvePath } from './resolver';
+import { createGitFileSystem, nodeFileSystem } from './file-system';
+import { listWorkspaceFiles } from './suggestions';
+import { WORKSPACE_ROOT_STRATEGIES, findWorkspaceRoot, getWorkspaceRootStrategy } from './workspace';
+import { getTokenReport, type TokenReport } from './tokens';
+import { compileMemory } from './memory';
 
 interface CliOptions {
   files: string[];
@@ -40,8 +42,17 @@ interface CliOptions {
   quiet: boolean;
   ignore: string[];
   workspaceRootPath?: string;
+  rootStrategy?: WorkspaceRootStrategy;
   shallow: boolean;
   summary: boolean;
+  directoryMode?: DirectoryMode;
+  directoryDepth?: number;
+  aliases: Record<string, string[]>;
+  sandbox?: boolean;
+  allowRoots: string[];
+  rev?: string;
+  maxTokens?: number;
+  claudeCompat: boolean;
   verbose: boolean;
   help: boolean;
 }
@@ -52,8 +63,17 @@ interface CompileCliOptions {
   outputDir?: string;
   noColor: boolean;
   workspaceRootPath?: string;
+  rootStrategy?: WorkspaceRootStrategy;
   optimizeDuplicates: boolean;
   additiveHeadings: boolean;
+  directoryMode?: DirectoryMode;
+  directoryDepth?: number;
+  aliases: Record<string, string[]>;
+  sandbox?: boolean;
+  allowRoots: string[];
+  rev?: string;
+  maxTokens?: number;
+  claudeCompat: boolean;
   verbose: boolean;
   help: boolean;
 }
@@ -63,6 +83,30 @@ interface CheckCliOptions {
   noColor: boolean;
   ignore: string[];
   workspaceRootPath?: string;
+  rootStrategy?: WorkspaceRootStrategy;
+  directoryMode?: DirectoryMode;
+  directoryDepth?: number;
+  aliases: Record<string, string[]>;
+  sandbox?: boolean;
+  allowRoots: string[];
+  rev?: string;
+  verbose: boolean;
+  help: boolean;
+}
+
+interface MemoryCliOptions {
+  dir: string;
+  output?: string;
+  noColor: boolean;
+  ignore: string[];
+  workspaceRootPath?: string;
+  rootStrategy?: WorkspaceRootStrategy;
+  directoryMode?: DirectoryMode;
+  directoryDepth?: number;
+  aliases: Record<string, string[]>;
+  sandbox?: boolean;
+  allowRoots: string[];
+  maxTokens?: number;
   verbose: boolean;
   help: boolean;
 }
@@ -74,11 +118,13 @@ Usage:
   at-ref <files...> [options]
   at-ref check [path] [options]
   at-ref compile <files...> [options]
+  at-ref memory [dir] [options]
 
 Commands:
   (default)      Validate @ references in files
   check          Scan all .md files and list broken links by file
   compile        Compile files by expanding @ references
+  memory         Validate and compile the CLAUDE.md files Claude Code loads in a directory
 
 Validation Options:
   --verbose, -v           Show all references (valid + broken)
@@ -87,14 +133,35 @@ Validation Options:
   --no-color              Disable colored output
   --quiet                 Only show errors (incompatible with --summary)
   --ignore <p>            Ignore pattern (can be used multiple times)
+  --directory-mode <m>    Directory references: tree, contents or index (default: tree)
+  --directory-depth <n>   Levels listed below a referenced directory (default: 3)
+  --alias <name=path>     Root for @name:path references (repeat a name for fallbacks)
+  --sandbox               Refuse references outside the workspace root and alias roots
+  --allow-root <path>     Additional root allowed by --sandbox (can be used multiple times)
+  --no-sandbox            Turn off a sandbox enabled in the config file
+  --rev <commit>          Read files as of a git revision instead of the working tree
+  --max-tokens <n>        Fail files whose compiled size is over n tokens (estimated)
+  --claude-compat         Follow references the way Claude Code loads memory files and fail
+                          those it would not load (over 5 hops deep, globs, fragments, ...)
   --workspace-root-path   Explicit workspace root path
+  --root-strategy <s>     How the workspace root is found: git, package-json, claude-md
+                          or explicit (default: git, or explicit with --workspace-root-path)
   --help                  Show this help message
 
 Check Options:
   --verbose, -v           Show all references (valid + broken) per file
   --no-color              Disable colored output
   --ignore <p>            Ignore pattern (can be used multiple times)
+  --directory-mode <m>    Directory references: tree, contents or index (default: tree)
+  --directory-depth <n>   Levels listed below a referenced directory (default: 3)
+  --alias <name=path>     Root for @name:path references (repeat a name for fallbacks)
+  --sandbox               Refuse references outside the workspace root and alias roots
+  --allow-root <path>     Additional root allowed by --sandbox (can be used multiple times)
+  --no-sandbox            Turn off a sandbox enabled in the config file
+  --rev <commit>          Read files as of a git revision instead of the working tree
   --workspace-root-path   Explicit workspace root path
+  --root-strategy <s>     How the workspace root is found: git, package-json, claude-md
+                          or explicit (default: git, or explicit with --workspace-root-path)
   --help                  Show this help message
 
 Compile Options:
@@ -103,10 +170,47 @@ Compile Options:
   --dist <path>           Alias for --output-dir
   --optimize-duplicates   Only import each file once, use references for duplicates
   --additive-headings     Use legacy additive heading shift (default: normalize)
+  --directory-mode <m>    Directory references: tree (listing), contents (listing and
+                          every file) or index (index.md/README.md) (default: tree)
+  --directory-depth <n>   Levels listed below a referenced directory (default: 3)
+  --alias <name=path>     Root for @name:path references (repeat a name for fallbacks)
+  --sandbox               Refuse references outside the workspace root and alias roots
+  --allow-root <path>     Additional root allowed by --sandbox (can be used multiple times)
+  --no-sandbox            Turn off a sandbox enabled in the config file
+  --no-color              Disable colored output
+  --rev <commit>          Read files as of a git revision instead of the working tree
+  --max-tokens <n>        Fail files whose compiled size is over n tokens (estimated)
+  --claude-compat         Leave references Claude Code would not load as written
+                          and report them as failed, with the reason
+  --workspace-root-path   Explicit workspace root path
+  --root-strategy <s>     How the workspace root is found: git, package-json, claude-md
+                          or explicit (default: git, or explicit with --workspace-root-path)
+  --help                  Show this help message
+
+Memory Options:
+  --output <path>         Write the combined memory to a file
+  --verbose, -v           List every file each memory file imports (default: top 5)
   --no-color              Disable colored output
+  --ignore <p>            Ignore pattern (can be used multiple times)
+  --directory-mode <m>    Directory references: tree, contents or index (default: tree)
+  --directory-depth <n>   Levels listed below a referenced directory (default: 3)
+  --alias <name=path>     Root for @name:path references (repeat a name for fallbacks)
+  --sandbox               Refuse references outside the workspace root and alias roots
+  --allow-root <path>     Additional root allowed by --sandbox (can be used multiple times)
+  --no-sandbox            Turn off a sandbox enabled in the config file
+  --max-tokens <n>        Fail if the combined memory is over n tokens (estimated)
   --workspace-root-path   Explicit workspace root path
+  --root-strategy <s>     How the workspace root is found: git, package-json, claude-md
+                          or explicit (default: git, or explicit with --workspace-root-path)
   --help                  Show this help message
 
+Configuration:
+  Settings are read from the nearest .atrefrc.json or at-ref.config.json (up to the
+  repository root): ignore, tryExtensions, aliases, headingMode, wrapper, outputDir,
+  directoryMode, directoryMaxDepth, rules, sandbox and workspaceRoot. Command-line flags
+  take precedence. With --rev, the config file is still read from the working tree.
+  Reports name the workspace root that bare references (@docs/x.md) resolved against.
+
 Examples:
   at-ref CLAUDE.md                             # Shows detailed view
   at-ref docs/                                 # Shows per-file breakdown (default)
@@ -124,8 +228,178 @@ Examples:
   at-ref compile CLAUDE.md --output CLAUDE.compiled.md
   at-ref compile docs/
   at-ref compile docs/ --output-dir build/ --optimize-duplicates
+  at-ref compile CLAUDE.md --directory-mode contents --directory-depth 2
+  at-ref CLAUDE.md --alias shared=../prompts
+  at-ref compile CLAUDE.md --sandbox --allow-root ../shared
+  at-ref CLAUDE.md --rev origin/main              # Validate CLAUDE.md as of origin/main
+  at-ref check packages/ --root-strategy package-json   # Resolve against each package
+  at-ref CLAUDE.md --max-tokens 20000          # Fail if CLAUDE.md compiles to over 20k tokens
+  at-ref CLAUDE.md --claude-compat             # Fail references Claude Code would not load
+  at-ref memory packages/vscode                # What Claude Code loads when started there
 `;
 
+const DIRECTORY_MODES: DirectoryMode[] = ['tree', 'contents', 'index'];
+
+function parseDirectoryMode(value: string | undefined): DirectoryMode {
+  if (!DIRECTORY_MODES.includes(value as DirectoryMode)) {
+    console.error(`Error: --directory-mode must be one of: ${DIRECTORY_MODES.join(', ')}`);
+    process.exit(1);
+  }
+  return value as DirectoryMode;
+}
+
+function parseRootStrategy(value: string | undefined): WorkspaceRootStrategy {
+  if (!WORKSPACE_ROOT_STRATEGIES.includes(value as WorkspaceRootStrategy)) {
+    console.error(`Error: --root-strategy must be one of: ${WORKSPACE_ROOT_STRATEGIES.join(', ')}`);
+    process.exit(1);
+  }
+  return value as WorkspaceRootStrategy;
+}
+
+function parseDirectoryDepth(value: string | undefined): number {
+  const depth = Number(value);
+  if (!Number.isInteger(depth) || depth < 1) {
+    console.error('Error: --directory-depth must be a positive integer');
+    process.exit(1);
+  }
+  return depth;
+}
+
+function parseMaxTokens(value: string | undefined): number {
+  const maxTokens = Number(value);
+  if (!Number.isInteger(maxTokens) || maxTokens < 1) {
+    console.error('Error: --max-tokens must be a positive integer');
+    process.exit(1);
+  }
+  return maxTokens;
+}
+
+function parseAlias(value: string | undefined, aliases: Record<string, string[]>): void {
+  const match = value ? /^([\p{L}\p{N}_-]+)=(.+)$/u.exec(value) : null;
+  if (!match) {
+    console.error('Error: --alias must be name=path (letters, digits, _ and - in the name)');
+    process.exit(1);
+  }
+  const name = match[1]!;
+  (aliases[name] ??= []).push(match[2]!);
+}
+
+/**
+ * Load the project config file (.atrefrc.json or at-ref.config.json) found from the working directory
+ */
+function loadProjectConfig(): AtRefConfig {
+  try {
+    return loadConfig(process.cwd()).config;
+  } catch (err) {
+    console.error(`Error: ${err instanceof Error ? err.message : err}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * The file system to read files from: a git revision (--rev) or the working tree
+ */
+function getFileSystem(options: { rev?: string }): AtRefFileSystem {
+  if (!options.rev) {
+    return nodeFileSystem;
+  }
+
+  try {
+    return createGitFileSystem(options.rev);
+  } catch (err) {
+    console.error(`Error: ${err instanceof Error ? err.message : err}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * How the workspace root is found: the --root-strategy and --workspace-root-path flags,
+ * falling back to the config file's workspaceRoot (an explicit strategy without a root is an error)
+ */
+function getWorkspaceRootOptions(
+  config: AtRefConfig,
+  options: { rootStrategy?: WorkspaceRootStrategy; workspaceRootPath?: string },
+  fileSystem: AtRefFileSystem
+): WorkspaceRootOptions {
+  const root = options.workspaceRootPath ?? config.workspaceRoot?.path;
+  const strategy =
+    options.rootStrategy ?? (options.workspaceRootPath !== undefined ? 'explicit' : config.workspaceRoot?.strategy);
+
+  if (strategy === 'explicit' && root === undefined) {
+    console.error('Error: --root-strategy explicit needs --workspace-root-path (or workspaceRoot.path in the config file)');
+    process.exit(1);
+  }
+
+  return { strategy, root, fileSystem };
+}
+
+/**
+ * Report line naming the workspace root(s) that references resolved against and how they were found
+ */
+function formatWorkspaceRoots(roots: Set<string>, rootOptions: WorkspaceRootOptions, noColor: boolean): string {
+  const label = roots.size === 1 ? 'Workspace root' : 'Workspace roots';
+  const text = `${label}: ${[...roots].join(', ')} (${getWorkspaceRootStrategy(rootOptions)})`;
+  return noColor ? text : `${colors.dim}${text}${colors.reset}`;
+}
+
+/**
+ * Files in each workspace root, listed once per run to suggest replacements for broken references
+ * (only once a reference is not found)
+ */
+const suggestionFilesByRoot = new Map<string, string[]>();
+
+function getSuggestionFiles(workspaceRoot: string, fileSystem: AtRefFileSystem): string[] {
+  let files = suggestionFilesByRoot.get(workspaceRoot);
+  if (!files) {
+    files = listWorkspaceFiles(workspaceRoot, { fileSystem });
+    suggestionFilesByRoot.set(workspaceRoot, files);
+  }
+  return files;
+}
+
+/**
+ * Resolution and directory options from the config file, with CLI flags layered on top.
+ * With the sandbox enabled, references may only resolve inside the workspace root,
+ * the alias roots and any additional allowed roots. Directory references leave out the
+ * entries the ignore patterns match.
+ */
+function getSharedOptions(
+  config: AtRefConfig,
+  options: {
+    directoryMode?: DirectoryMode;
+    directoryDepth?: number;
+    ignore?: string[];
+    aliases: Record<string, string[]>;
+    sandbox?: boolean;
+    allowRoots: string[];
+  },
+  workspaceRoot: string,
+  fileSystem: AtRefFileSystem
+): ResolveOptions & DirectoryOptions {
+  const aliases = { ...config.aliases, ...options.aliases };
+  const sandboxEnabled = options.sandbox ?? config.sandbox?.enabled ?? false;
+
+  return {
+    tryExtensions: config.tryExtensions,
+    directoryMode: options.directoryMode ?? config.directoryMode,
+    directoryMaxDepth: options.directoryDepth ?? config.directoryMaxDepth,
+    directoryIgnorePatterns: [...(config.ignore ?? []), ...(options.ignore ?? [])].map((p) => new RegExp(p)),
+    aliases,
+    fileSystem,
+    sandbox: sandboxEnabled
+      ? {
+          allowedRoots: [
+            workspaceRoot,
+            ...Object.keys(aliases).flatMap(name => getAliasRoots(name, { aliases }) ?? []),
+            ...(config.sandbox?.allowedRoots ?? []),
+            ...options.allowRoots,
+          ],
+          followSymlinks: config.sandbox?.followSymlinks,
+        }
+      : undefined,
+  };
+}
+
 function parseArgs(args: string[]): CliOptions {
   const options: CliOptions = {
     files: [],
@@ -134,7 +408,10 @@ function parseArgs(args: string[]): CliOptions {
     ignore: [],
     shallow: false,
     summary: false,
+    claudeCompat: false,
     verbose: false,
+    aliases: {},
+    allowRoots: [],
     help: false,
   };
 
@@ -152,6 +429,8 @@ function parseArgs(args: string[]): CliOptions {
       options.quiet = true;
     } else if (arg === '--shallow') {
       options.shallow = true;
+    } else if (arg === '--claude-compat') {
+      options.claudeCompat = true;
     } else if (arg === '--summary' || arg === '-s') {
       options.summary = true;
     } else if (arg === '--ignore') {
@@ -160,12 +439,43 @@ function parseArgs(args: string[]): CliOptions {
       if (pattern) {
         options.ignore.push(pattern);
       }
+    } else if (arg === '--directory-mode') {
+      i++;
+      options.directoryMode = parseDirectoryMode(args[i]);
+    } else if (arg === '--directory-depth') {
+      i++;
+      options.directoryDepth = parseDirectoryDepth(args[i]);
+    } else if (arg === '--alias') {
+      i++;
+      parseAlias(args[i], options.aliases);
+    } else if (arg === '--sandbox') {
+      options.sandbox = true;
+    } else if (arg === '--no-sandbox') {
+      options.sandbox = false;
+    } else if (arg === '--allow-root') {
+      i++;
+      const rootPath = args[i];
+      if (rootPath) {
+        options.allowRoots.push(path.resolve(rootPath));
+      }
+    } else if (arg === '--rev') {
+      i++;
+      const rev = args[i];
+      if (rev) {
+        options.rev = rev;
+      }
     } else if (arg === '--workspace-root-path') {
       i++;
       const rootPath = args[i];
       if (rootPath) {
         options.workspaceRootPath = rootPath;
       }
+    } else if (arg === '--root-strategy') {
+      i++;
+      options.rootStrategy = parseRootStrategy(args[i]);
+    } else if (arg === '--max-tokens') {
+      i++;
+      options.maxTokens = parseMaxTokens(args[i]);
     } else if (arg && !arg.startsWith('-')) {
       options.files.push(arg);
     }
@@ -179,11 +489,15 @@ function parseArgs(args: string[]): CliOptions {
 // Node 22+ has globSync but types may not include it
 const globSync = (fs as unknown as { globSync?: (pattern: string) => string[] }).globSync;
 
-function expandGlobs(patterns: string[]): string[] {
+function expandGlobs(patterns: string[], fileSystem: AtRefFileSystem): string[] {
   const files: string[] = [];
 
   for (const pattern of patterns) {
-    if (pattern.includes('*')) {
+    if (pattern.includes('*') && fileSystem !== nodeFileSystem) {
+      // Match against the files of the git revision
+      const matches = resolvePath(pattern, { basePath: process.cwd(), fileSystem }).matches ?? [];
+      files.push(...matches.map(match => path.relative(process.cwd(), match)));
+    } else if (pattern.includes('*')) {
       // Use fs.globSync if available (Node 22+), otherwise simple expansion
       try {
         if (globSync) {
@@ -196,11 +510,11 @@ function expandGlobs(patterns: string[]): string[] {
         // Fallback: treat as literal path
         files.push(pattern);
       }
-    } else if (fs.existsSync(pattern)) {
-      const stat = fs.statSync(pattern);
-      if (stat.isDirectory()) {
+    } else if (fileSystem.exists(path.resolve(pattern))) {
+      const stat = fileSystem.stat(path.resolve(pattern));
+      if (stat.isDirectory) {
         // Recursively find .md files in directory
-        const mdFiles = findMarkdownFiles(pattern);
+        const mdFiles = findMarkdownFiles(pattern, fileSystem);
         files.push(...mdFiles);
       } else {
         files.push(pattern);
@@ -213,20 +527,26 @@ function expandGlobs(patterns: string[]): string[] {
   return [...new Set(files)]; // Dedupe
 }
 
-function findMarkdownFiles(dir: string): string[] {
+function findMarkdownFiles(dir: string, fileSystem: AtRefFileSystem): string[] {
   const files: string[] = [];
 
   function walk(currentDir: string) {
-    const entries = fs.readdirSync(currentDir, { withFileTypes: true });
+    const entries = fileSystem.readdir(path.resolve(currentDir));
 
     for (const entry of entries) {
-      const fullPath = path.join(currentDir, entry.name);
+      const fullPath = path.join(currentDir, entry);
+      let stat: AtRefFileStat;
+      try {
+        stat = fileSystem.stat(path.resolve(fullPath));
+      } catch {
+        continue; // Broken symbolic link
+      }
 
-      if (entry.isDirectory()) {
-        if (!['node_modules', '.git', 'dist'].includes(entry.name)) {
+      if (stat.isDirectory && !stat.isSymbolicLink) {
+        if (!['node_modules', '.git', 'dist'].includes(entry)) {
           walk(fullPath);
         }
-      } else if (entry.name.endsWith('.md')) {
+      } else if (!stat.isDirectory && entry.endsWith('.md')) {
         files.push(fullPath);
       }
     }
@@ -242,7 +562,10 @@ function parseCompileArgs(args: string[]): CompileCliOptions {
     noColor: false,
     optimizeDuplicates: false,
     additiveHeadings: false,
+    claudeCompat: false,
     verbose: false,
+    aliases: {},
+    allowRoots: [],
     help: false,
   };
 
@@ -260,6 +583,8 @@ function parseCompileArgs(args: string[]): CompileCliOptions {
       options.optimizeDuplicates = true;
     } else if (arg === '--additive-headings') {
       options.additiveHeadings = true;
+    } else if (arg === '--claude-compat') {
+      options.claudeCompat = true;
     } else if (arg === '--output' || arg === '-o') {
       i++;
       const outputPath = args[i];
@@ -272,12 +597,43 @@ function parseCompileArgs(args: string[]): CompileCliOptions {
       if (outputDir) {
         options.outputDir = outputDir;
       }
+    } else if (arg === '--directory-mode') {
+      i++;
+      options.directoryMode = parseDirectoryMode(args[i]);
+    } else if (arg === '--directory-depth') {
+      i++;
+      options.directoryDepth = parseDirectoryDepth(args[i]);
+    } else if (arg === '--alias') {
+      i++;
+      parseAlias(args[i], options.aliases);
+    } else if (arg === '--sandbox') {
+      options.sandbox = true;
+    } else if (arg === '--no-sandbox') {
+      options.sandbox = false;
+    } else if (arg === '--allow-root') {
+      i++;
+      const rootPath = args[i];
+      if (rootPath) {
+        options.allowRoots.push(path.resolve(rootPath));
+      }
+    } else if (arg === '--rev') {
+      i++;
+      const rev = args[i];
+      if (rev) {
+        options.rev = rev;
+      }
     } else if (arg === '--workspace-root-path') {
       i++;
       const rootPath = args[i];
       if (rootPath) {
         options.workspaceRootPath = rootPath;
       }
+    } else if (arg === '--root-strategy') {
+      i++;
+      options.rootStrategy = parseRootStrategy(args[i]);
+    } else if (arg === '--max-tokens') {
+      i++;
+      options.maxTokens = parseMaxTokens(args[i]);
     } else if (arg && !arg.startsWith('-')) {
       options.files.push(arg);
     }
@@ -298,6 +654,31 @@ const colors = {
   dim: '\x1b[2m',
 };
 
+/**
+ * Print the token counts of compiled entrypoints against the --max-tokens budget: each entrypoint
+ * when there is one (or in verbose mode), otherwise those over budget and a count of the rest
+ *
+ * @returns Whether any entrypoint is over budget
+ */
+function printTokenReports(reports: TokenReport[], options: { noColor: boolean; verbose: boolean }): boolean {
+  const overBudget = reports.filter(report => report.overBudget);
+  const shown = reports.length === 1 || options.verbose ? reports : overBudget;
+  const c = options.noColor ? { cyan: '', green: '', reset: '' } : colors;
+
+  console.log('');
+  console.log(`${c.cyan}Token budget${c.reset} (${reports[0]?.tokenizer ?? 'approximate'} count)`);
+  for (const report of shown) {
+    const output = formatTokenReport(report, { noColor: options.noColor, cwd: process.cwd() });
+    console.log(output.replace(/^/gm, '  '));
+  }
+  if (shown.length < reports.length) {
+    const withinBudget = reports.length - overBudget.length;
+    console.log(`  ${c.green}${withinBudget} file(s) within ${reports[0]!.maxTokens!.toLocaleString('en-US')} tokens${c.reset}`);
+  }
+
+  return overBudget.length > 0;
+}
+
 function formatCompileResult(result: CompileResult, noColor: boolean, verbose: boolean = false): string {
   const c = noColor
     ? { reset: '', green: '', red: '', yellow: '', cyan: '', dim: '' }
@@ -328,6 +709,10 @@ function formatCompileResult(result: CompileResult, noColor: boolean, verbose: b
   if (result.importStats.duplicateFiles.length > 0) {
     summary.push(`${c.yellow}${result.importStats.duplicateFiles.length} duplicates${c.reset}`);
   }
+  const skippedCount = result.references.filter(r => r.skipped).length;
+  if (skippedCount > 0) {
+    summary.push(`${c.dim}${skippedCount} optional skipped${c.reset}`);
+  }
 
   lines.push(`${c.cyan}Summary:${c.reset} ${summary.join(', ')}`);
 
@@ -376,7 +761,7 @@ function extractBrokenReferencesFromCompileResults(
 
   for (const result of results) {
     for (const ref of result.references) {
-      if (!ref.found) {
+      if (!ref.found && !ref.skipped) {
         const targetPath = ref.resolvedPath;
 
         if (!brokenByTarget.has(targetPath)) {
@@ -460,21 +845,26 @@ function formatFolderResult(result: FolderCompileResult, noColor: boolean): stri
   return lines.join('\n');
 }
 
-async function runSingleFileCompile(file: string, options: CompileCliOptions) {
-  if (!fs.existsSync(file)) {
+async function runSingleFileCompile(file: string, options: CompileCliOptions, fileSystem: AtRefFileSystem) {
+  if (!fileSystem.exists(path.resolve(file))) {
     console.error(`Error: File not found: ${file}`);
     process.exit(1);
   }
 
   try {
     const fileDir = path.dirname(path.resolve(file));
-    const workspaceRoot = findWorkspaceRoot(fileDir, options.workspaceRootPath);
+    const config = loadProjectConfig();
+    const rootOptions = getWorkspaceRootOptions(config, options, fileSystem);
+    const workspaceRoot = findWorkspaceRoot(fileDir, rootOptions);
     const outputPath = options.output || getBuiltOutputPath(file);
     const result = compileFile(file, {
+      ...getSharedOptions(config, options, workspaceRoot, fileSystem),
       outputPath,
       basePath: workspaceRoot,
       optimizeDuplicates: options.optimizeDuplicates,
-      headingMode: options.additiveHeadings ? 'additive' : 'normalize',
+      headingMode: options.additiveHeadings ? 'additive' : config.headingMode,
+      wrapper: config.wrapper,
+      claudeCompat: options.claudeCompat,
     });
 
     // Show broken references grouped by target (if any)
@@ -494,32 +884,42 @@ async function runSingleFileCompile(file: string, options: CompileCliOptions) {
 
     // Show compile result (tree in verbose mode, summary always)
     console.log(formatCompileResult(result, options.noColor, options.verbose));
+    console.log(formatWorkspaceRoots(new Set([workspaceRoot]), rootOptions, options.noColor));
+
+    const overBudget = options.maxTokens !== undefined &&
+      printTokenReports([getTokenReport(result, { maxTokens: options.maxTokens })], options);
 
-    process.exit(result.failedCount > 0 ? 1 : 0);
+    process.exit(result.failedCount > 0 || overBudget ? 1 : 0);
   } catch (err) {
     console.error(`Error compiling ${file}:`, err);
     process.exit(1);
   }
 }
 
-async function runFolderCompile(inputPaths: string[], options: CompileCliOptions) {
+async function runFolderCompile(inputPaths: string[], options: CompileCliOptions, fileSystem: AtRefFileSystem) {
   // Determine input directory
   let inputDir: string;
-  if (inputPaths.length === 1 && fs.existsSync(inputPaths[0]!) && fs.statSync(inputPaths[0]!).isDirectory()) {
+  const firstPath = path.resolve(inputPaths[0] ?? '.');
+  if (inputPaths.length === 1 && fileSystem.exists(firstPath) && fileSystem.stat(firstPath).isDirectory) {
     inputDir = inputPaths[0]!;
   } else {
     inputDir = findCommonAncestor(inputPaths);
   }
 
-  const workspaceRoot = findWorkspaceRoot(path.resolve(inputDir), options.workspaceRootPath);
-  const outputDir = options.outputDir || path.join(inputDir, 'dist');
+  const config = loadProjectConfig();
+  const rootOptions = getWorkspaceRootOptions(config, options, fileSystem);
+  const workspaceRoot = findWorkspaceRoot(path.resolve(inputDir), rootOptions);
+  const outputDir = options.outputDir || config.outputDir || path.join(inputDir, 'dist');
 
   try {
     const result = compileFolder(inputDir, {
+      ...getSharedOptions(config, options, workspaceRoot, fileSystem),
       outputDir,
       basePath: workspaceRoot,
       optimizeDuplicates: options.optimizeDuplicates,
-      headingMode: options.additiveHeadings ? 'additive' : 'normalize',
+      headingMode: options.additiveHeadings ? 'additive' : config.headingMode,
+      wrapper: config.wrapper,
+      claudeCompat: options.claudeCompat,
     });
 
     // In verbose mode, show per-file details
@@ -541,8 +941,14 @@ async function runFolderCompile(inputPaths: string[], options: CompileCliOptions
     }
 
     console.log(formatFolderResult(result, options.noColor));
+    console.log(formatWorkspaceRoots(new Set([workspaceRoot]), rootOptions, options.noColor));
 
-    process.exit(result.totalFailures > 0 ? 1 : 0);
+    const overBudget = options.maxTokens !== undefined && printTokenReports(
+      result.results.map(fileResult => getTokenReport(fileResult, { maxTokens: options.maxTokens })),
+      options
+    );
+
+    process.exit(result.totalFailures > 0 || overBudget ? 1 : 0);
   } catch (err) {
     console.error(`Error compiling folder ${inputDir}:`, err);
     process.exit(1);
@@ -563,7 +969,8 @@ async function runCompile(args: string[]) {
     process.exit(1);
   }
 
-  const files = expandGlobs(options.files);
+  const fileSystem = getFileSystem(options);
+  const files = expandGlobs(options.files, fileSystem);
 
   if (files.length === 0) {
     console.error('Error: No matching files found');
@@ -571,9 +978,10 @@ async function runCompile(args: string[]) {
   }
 
   // Detect folder mode
+  const isDirectory = (file: string) => fileSystem.exists(path.resolve(file)) && fileSystem.stat(path.resolve(file)).isDirectory;
   const isFolderMode =
     files.length > 1 ||
-    (files.length === 1 && fs.statSync(files[0]!).isDirectory()) ||
+    (files.length === 1 && isDirectory(files[0]!)) ||
     options.outputDir !== undefined;
 
   // Validate flag combinations
@@ -584,9 +992,9 @@ async function runCompile(args: string[]) {
 
   // Branch to appropriate handler
   if (isFolderMode) {
-    await runFolderCompile(files, options);
+    await runFolderCompile(files, options, fileSystem);
   } else {
-    await runSingleFileCompile(files[0]!, options);
+    await runSingleFileCompile(files[0]!, options, fileSystem);
   }
 }
 
@@ -596,6 +1004,8 @@ function parseCheckArgs(args: string[]): CheckCliOptions {
     noColor: false,
     ignore: [],
     verbose: false,
+    aliases: {},
+    allowRoots: [],
     help: false,
   };
 
@@ -615,12 +1025,40 @@ function parseCheckArgs(args: string[]): CheckCliOptions {
       if (pattern) {
         options.ignore.push(pattern);
       }
+    } else if (arg === '--directory-mode') {
+      i++;
+      options.directoryMode = parseDirectoryMode(args[i]);
+    } else if (arg === '--directory-depth') {
+      i++;
+      options.directoryDepth = parseDirectoryDepth(args[i]);
+    } else if (arg === '--alias') {
+      i++;
+      parseAlias(args[i], options.aliases);
+    } else if (arg === '--sandbox') {
+      options.sandbox = true;
+    } else if (arg === '--no-sandbox') {
+      options.sandbox = false;
+    } else if (arg === '--allow-root') {
+      i++;
+      const rootPath = args[i];
+      if (rootPath) {
+        options.allowRoots.push(path.resolve(rootPath));
+      }
+    } else if (arg === '--rev') {
+      i++;
+      const rev = args[i];
+      if (rev) {
+        options.rev = rev;
+      }
     } else if (arg === '--workspace-root-path') {
       i++;
       const rootPath = args[i];
       if (rootPath) {
         options.workspaceRootPath = rootPath;
       }
+    } else if (arg === '--root-strategy') {
+      i++;
+      options.rootStrategy = parseRootStrategy(args[i]);
     } else if (arg && !arg.startsWith('-')) {
       options.path = arg;
     }
@@ -631,12 +1069,159 @@ function parseCheckArgs(args: string[]): CheckCliOptions {
   return options;
 }
 
+function parseMemoryArgs(args: string[]): MemoryCliOptions {
+  const options: MemoryCliOptions = {
+    dir: '.',
+    noColor: false,
+    ignore: [],
+    aliases: {},
+    allowRoots: [],
+    verbose: false,
+    help: false,
+  };
+
+  let i = 0;
+  while (i < args.length) {
+    const arg = args[i];
+
+    if (arg === '--help' || arg === '-h') {
+      options.help = true;
+    } else if (arg === '--verbose' || arg === '-v') {
+      options.verbose = true;
+    } else if (arg === '--no-color') {
+      options.noColor = true;
+    } else if (arg === '--output' || arg === '-o') {
+      i++;
+      const outputPath = args[i];
+      if (outputPath) {
+        options.output = outputPath;
+      }
+    } else if (arg === '--ignore') {
+      i++;
+      const pattern = args[i];
+      if (pattern) {
+        options.ignore.push(pattern);
+      }
+    } else if (arg === '--directory-mode') {
+      i++;
+      options.directoryMode = parseDirectoryMode(args[i]);
+    } else if (arg === '--directory-depth') {
+      i++;
+      options.directoryDepth = parseDirectoryDepth(args[i]);
+    } else if (arg === '--alias') {
+      i++;
+      parseAlias(args[i], options.aliases);
+    } else if (arg === '--sandbox') {
+      options.sandbox = true;
+    } else if (arg === '--no-sandbox') {
+      options.sandbox = false;
+    } else if (arg === '--allow-root') {
+      i++;
+      const rootPath = args[i];
+      if (rootPath) {
+        options.allowRoots.push(path.resolve(rootPath));
+      }
+    } else if (arg === '--max-tokens') {
+      i++;
+      options.maxTokens = parseMaxTokens(args[i]);
+    } else if (arg === '--workspace-root-path') {
+      i++;
+      const rootPath = args[i];
+      if (rootPath) {
+        options.workspaceRootPath = rootPath;
+      }
+    } else if (arg === '--root-strategy') {
+      i++;
+      options.rootStrategy = parseRootStrategy(args[i]);
+    } else if (arg && !arg.startsWith('-')) {
+      options.dir = arg;
+    }
+
+    i++;
+  }
+
+  return options;
+}
+
+/**
+ * Validate and compile the memory files Claude Code loads in a directory as one context,
+ * reporting problems, each file's size and the total against --max-tokens
+ */
+async function runMemory(args: string[]) {
+  const options = parseMemoryArgs(args);
+
+  if (options.help) {
+    console.log(HELP_TEXT);
+    process.exit(0);
+  }
+
+  const dir = path.resolve(options.dir);
+  if (!fs.existsSync(dir) || !fs.statSync(dir).isDirectory()) {
+    console.error(`Error: Directory not found: ${options.dir}`);
+    process.exit(1);
+  }
+
+  const config = loadProjectConfig();
+  const rootOptions = getWorkspaceRootOptions(config, options, nodeFileSystem);
+  const workspaceRoot = findWorkspaceRoot(dir, rootOptions);
+
+  try {
+    const context = compileMemory(dir, {
+      ...getSharedOptions(config, options, workspaceRoot, nodeFileSystem),
+      ignorePatterns: [...(config.ignore ?? []), ...options.ignore].map((p) => new RegExp(p)),
+      rules: config.rules,
+      headingMode: config.headingMode,
+      wrapper: config.wrapper,
+      rootOptions,
+      maxTokens: options.maxTokens,
+    });
+
+    // Broken references and references Claude Code would not load, like validate reports them
+    const results = context.entries.map(entry => ({ file: entry.filePath, result: entry.validation }));
+    const brokenOutput = formatBrokenReferencesByTarget(extractBrokenReferencesByTarget(results), {
+      noColor: options.noColor,
+      cwd: process.cwd(),
+    });
+    if (brokenOutput) {
+      console.log(brokenOutput);
+    }
+    const warningsOutput = formatWarnings(results, { noColor: options.noColor, cwd: process.cwd() });
+    if (warningsOutput) {
+      console.log(`${warningsOutput.trimStart()}\n`);
+    }
+
+    console.log(formatMemoryContext(context, {
+      noColor: options.noColor,
+      cwd: process.cwd(),
+      limit: options.verbose ? Infinity : 5,
+    }));
+
+    if (context.entries.length > 0) {
+      const roots = new Set(context.entries.map(entry => entry.workspaceRoot));
+      console.log(formatWorkspaceRoots(roots, rootOptions, options.noColor));
+    }
+
+    if (options.output) {
+      fs.writeFileSync(options.output, context.compiledContent, 'utf-8');
+      const c = options.noColor ? { green: '', reset: '' } : colors;
+      console.log(`${c.green}✓${c.reset} Output written to ${options.output}`);
+    }
+
+    const failed = context.entries.some(entry => hasErrors(entry.validation));
+    process.exit(failed || context.overBudget ? 1 : 0);
+  } catch (err) {
+    console.error(`Error compiling the memory of ${options.dir}:`, err);
+    process.exit(1);
+  }
+}
+
 interface BrokenLink {
   file: string;
   reference: string;
   line: number;
   column: number;
   error: string;
+  suggestions?: string[];
 }
 
 async function runCheck(args: string[]) {
@@ -648,17 +1233,18 @@ async function runCheck(args: string[]) {
   }
 
   const targetPath = options.path;
+  const fileSystem = getFileSystem(options);
 
-  if (!fs.existsSync(targetPath)) {
+  if (!fileSystem.exists(path.resolve(targetPath))) {
     console.error(`Error: Path not found: ${targetPath}`);
     process.exit(1);
   }
 
   // Find all markdown files
   let files: string[];
-  const stat = fs.statSync(targetPath);
-  if (stat.isDirectory()) {
-    files = findMarkdownFiles(targetPath);
+  const stat = fileSystem.stat(path.resolve(targetPath));
+  if (stat.isDirectory) {
+    files = findMarkdownFiles(targetPath, fileSystem);
   } else if (targetPath.endsWith('.md')) {
     files = [targetPath];
   } else {
@@ -675,8 +1261,12 @@ async function runCheck(args: string[]) {
     ? { reset: '', green: '', red: '', yellow: '', cyan: '', dim: '', bold: '' }
     : { ...colors, bold: '\x1b[1m' };
 
-  const ignorePatterns = options.ignore.map((p) => new RegExp(p));
+  const config = loadProjectConfig();
+  const ignorePatterns = [...(config.ignore ?? []), ...options.ignore].map((p) => new RegExp(p));
+  const rootOptions = getWorkspaceRootOptions(config, options, fileSystem);
+  const workspaceRoots = new Set<string>();
   const brokenByFile: Map<string, BrokenLink[]> = new Map();
+  const warningResults: Array<{ file: string; result: ValidationResult }> = [];
   let totalFiles = 0;
   let filesWithBroken = 0;
   let totalBroken = 0;
@@ -685,11 +1275,22 @@ async function runCheck(args: string[]) {
   for (const file of files) {
     try {
       const fileDir = path.dirname(path.resolve(file));
-      const workspaceRoot = findWorkspaceRoot(fileDir, options.workspaceRootPath);
-      const result = validateFile(file, { ignorePatterns, basePath: workspaceRoot });
+      const workspaceRoot = findWorkspaceRoot(fileDir, rootOptions);
+      workspaceRoots.add(workspaceRoot);
+      const result = validateFile(file, {
+        ...getSharedOptions(config, options, workspaceRoot, fileSystem),
+        ignorePatterns,
+        basePath: workspaceRoot,
+        rules: config.rules,
+        suggestionFiles: () => getSuggestionFiles(workspaceRoot, fileSystem),
+      });
       totalFiles++;
       totalValid += result.valid.length;
 
+      if (result.warnings.length > 0) {
+        warningResults.push({ file, result });
+      }
+
       if (result.invalid.length > 0) {
         filesWithBroken++;
         totalBroken += result.invalid.length;
@@ -700,6 +1301,7 @@ async function runCheck(args: string[]) {
           line: ref.line,
           column: ref.column,
           error: ref.resolution.error || 'File not found',
+          suggestions: ref.resolution.suggestions,
         }));
 
         brokenByFile.set(file, broken);
@@ -716,6 +1318,7 @@ async function runCheck(args: string[]) {
       targetPath: string;
       raw: string;
       error: string;
+      suggestions?: string[];
       sources: Array<{ file: string; line: number; column: number }>;
     }
   >();
@@ -729,6 +1332,7 @@ async function runCheck(args: string[]) {
           targetPath,
           raw: link.reference,
           error: link.error,
+          ...(link.suggestions && { suggestions: link.suggestions }),
           sources: [],
         });
       }
@@ -744,12 +1348,20 @@ async function runCheck(args: string[]) {
   // Output results
   console.log(`${c.bold}@Reference Check Report${c.reset}`);
   console.log(`${c.dim}${'─'.repeat(50)}${c.reset}`);
-  console.log(`Scanned ${c.cyan}${totalFiles}${c.reset} markdown file(s)\n`);
+  console.log(`Scanned ${c.cyan}${totalFiles}${c.reset} markdown file(s)`);
+  console.log(`${formatWorkspaceRoots(workspaceRoots, rootOptions, options.noColor)}\n`);
+
+  // Warnings (rules set to 'error' fail the check)
+  const warningsOutput = formatWarnings(warningResults, { noColor: options.noColor, cwd: process.cwd() });
+  if (warningsOutput) {
+    console.log(`${warningsOutput.trimStart()}\n`);
+  }
+  const hasRuleErrors = warningResults.some(({ result }) => hasErrors(result));
 
   if (brokenByFile.size === 0) {
     console.log(`${c.green}✓ All references are valid!${c.reset}`);
     console.log(`  ${totalValid} reference(s) checked`);
-    process.exit(0);
+    process.exit(hasRuleErrors ? 1 : 0);
   }
 
   // VERBOSE MODE: Show per-file breakdown
@@ -808,6 +1420,12 @@ async function main() {
     return;
   }
 
+  // Check for memory command
+  if (args[0] === 'memory') {
+    await runMemory(args.slice(1));
+    return;
+  }
+
   const options = parseArgs(args);
 
   if (options.help) {
@@ -821,7 +1439,8 @@ async function main() {
     process.exit(1);
   }
 
-  const files = expandGlobs(options.files);
+  const fileSystem = getFileSystem(options);
+  const files = expandGlobs(options.files, fileSystem);
 
   if (files.length === 0) {
     console.error('Error: No matching files found');
@@ -839,14 +1458,18 @@ async function main() {
     process.exit(1);
   }
 
-  const ignorePatterns = options.ignore.map((p) => new RegExp(p));
+  const config = loadProjectConfig();
+  const ignorePatterns = [...(config.ignore ?? []), ...options.ignore].map((p) => new RegExp(p));
+  const rootOptions = getWorkspaceRootOptions(config, options, fileSystem);
+  const workspaceRoots = new Set<string>();
   const results: Array<{ file: string; result: ValidationResult }> = [];
+  const tokenReports: TokenReport[] = [];
   let hasInvalid = false;
   const startTime = Date.now();
 
   // Validate all files
   for (const file of files) {
-    if (!fs.existsSync(file)) {
+    if (!fileSystem.exists(path.resolve(file))) {
       console.error(`Error: File not found: ${file}`);
       hasInvalid = true;
       continue;
@@ -854,18 +1477,36 @@ async function main() {
 
     try {
       const fileDir = path.dirname(path.resolve(file));
-      const workspaceRoot = findWorkspaceRoot(fileDir, options.workspaceRootPath);
+      const workspaceRoot = findWorkspaceRoot(fileDir, rootOptions);
+      workspaceRoots.add(workspaceRoot);
       const result = validateFile(file, {
+        ...getSharedOptions(config, options, workspaceRoot, fileSystem),
         ignorePatterns,
         basePath: workspaceRoot,
-        shallow: options.shallow
+        shallow: options.shallow,
+        rules: config.rules,
+        claudeCompat: options.claudeCompat,
+        suggestionFiles: () => getSuggestionFiles(workspaceRoot, fileSystem),
       });
       results.push({ file, result });
 
-      if (result.invalid.length > 0) {
+      if (hasErrors(result)) {
         hasInvalid = true;
       }
 
+      // Measure the file as it compiles, without writing the output
+      if (options.maxTokens !== undefined) {
+        const compiled = compileFile(file, {
+          ...getSharedOptions(config, options, workspaceRoot, fileSystem),
+          basePath: workspaceRoot,
+          headingMode: config.headingMode,
+          wrapper: config.wrapper,
+          writeOutput: false,
+          claudeCompat: options.claudeCompat,
+        });
+        tokenReports.push(getTokenReport(compiled, { maxTokens: options.maxTokens }));
+      }
+
       // Show per-file output ONLY in verbose mode (not in summary or default mode)
       if (options.verbose && !options.summary) {
         if (!options.quiet || result.invalid.length > 0) {
@@ -897,6 +1538,9 @@ async function main() {
       duration,
       cwd: process.cwd(),
     }));
+    if (workspaceRoots.size > 0) {
+      console.log(formatWorkspaceRoots(workspaceRoots, rootOptions, options.noColor));
+    }
   } else {
     // Default and verbose modes: show broken refs + summary
     const cwd = process.cwd();
@@ -914,15 +1558,29 @@ async function main() {
       }
     }
 
+    // Show warnings (in verbose mode they are listed per file)
+    if (!options.verbose) {
+      const warningsOutput = formatWarnings(results, { noColor: options.noColor, cwd });
+      if (warningsOutput) {
+        console.log(warningsOutput.trimStart());
+      }
+    }
+
     // Show summary stats
     console.log(formatSummary(results, { noColor: options.noColor }));
+    if (workspaceRoots.size > 0) {
+      console.log(formatWorkspaceRoots(workspaceRoots, rootOptions, options.noColor));
+    }
 
     // Add mode hint with helpful tips
     if (hasInvalid) {
       console.log('');
       const mode = options.shallow ? 'shallow' : 'recursive';
       const c = options.noColor ? { yellow: '', dim: '', reset: '' } : { yellow: '\x1b[33m', dim: '\x1b[2m', reset: '\x1b[0m' };
-      console.log(`${c.yellow}⚠️  Broken references found (${mode} mode)${c.reset}`);
+      const problem = results.some(({ result }) => result.invalid.length > 0)
+        ? 'Broken references found'
+        : 'Rules set to error failed';
+      console.log(`${c.yellow}⚠️  ${problem} (${mode} mode)${c.reset}`);
 
       if (!options.shallow && results.length > 1) {
         console.log('');
@@ -932,7 +1590,9 @@ async function main() {
     }
   }
 
-  process.exit(hasInvalid ? 1 : 0);
+  const overBudget = tokenReports.length > 0 && printTokenReports(tokenReports, options);
+
+  process.exit(hasInvalid || overBudget ? 1 : 0);
 }
 
 main().catch((err) => {
@@ -1,21 +1,28 @@
 import * as fs from 'node:fs';
 import * as path from 'node:path';
-import { extractReferences, stripFrontMatter } from './parser';
-import { resolvePath } from './resolver';
-import type { AtReference, ResolveOptions } from './types';
+import { extractReferences, findAtEscapes, stripFrontMatter } from './parser';
+import { checkSandbox, isMissingTarget, resolvePath } from './resolver';
+import { formatFragment, selectFragment } from './fragment';
+import type { AtRefFileSystem, AtReference, DirectoryOptions, ResolveOptions, ResolvedPath, WrapperStyle } from './types';
 import { buildDependencyGraph, topologicalSort, type DependencyGraph } from './dependency-graph';
 import { adjustHeadings, analyzeHeadingContext, normalizeHeadings } from './heading-adjuster';
+import { expandDirectory, type DirectoryExpansion } from './directory';
+import { nodeFileSystem } from './file-system';
+import { createResolutionCache, readFileWithCache } from './cache';
+import { getClaudeCompatIssue } from './claude-compat';
 
 /**
  * Options for compiling @ references
  */
-export interface CompileOptions extends ResolveOptions {
+export interface CompileOptions extends ResolveOptions, DirectoryOptions {
   /** Output file path (default: input file with .built suffix) */
   outputPath?: string;
   /** Whether to write the output file (default: true) */
   writeOutput?: boolean;
   /** Custom wrapper for file content (default: XML tags) */
   contentWrapper?: (content: string, filePath: string, ref: AtReference) => string;
+  /** Built-in wrapper for file content, used when contentWrapper is not set (default: 'xml') */
+  wrapper?: WrapperStyle;
   /** Only import each file once, use references for duplicates */
   optimizeDuplicates?: boolean;
   /**
@@ -25,6 +32,14 @@ export interface CompileOptions extends ResolveOptions {
    * - 'additive': Legacy mode that adds context level to all headings cumulatively.
    */
   headingMode?: 'normalize' | 'additive';
+  /**
+   * Compile the way Claude Code loads memory files: references it would not load (see getClaudeCompatIssue),
+   * including those more than CLAUDE_MAX_IMPORT_DEPTH hops deep, are left as written and reported as not loaded
+   * (default: false)
+   */
+  claudeCompat?: boolean;
+  /** Resolve relative references from the directory of the file containing them instead of basePath (default: false) */
+  relativeToFile?: boolean;
 }
 
 /**
@@ -77,6 +92,10 @@ export interface CompiledReference {
   error?: string;
   /** Whether this reference was skipped due to circular dependency */
   circular?: boolean;
+  /** Whether this optional reference (@?path) was dropped because its target is missing (not a failure) */
+  skipped?: boolean;
+  /** Whether claudeCompat left this reference as written because Claude Code would not load it (error has the reason) */
+  notLoaded?: boolean;
   /** Number of times this file has been imported */
   importCount?: number;
   /** Parent file path that imported this reference */
@@ -161,18 +180,62 @@ function getLanguageFromPath(filePath: string): string {
   return langMap[ext] || '';
 }
 
+/**
+ * Build the attributes of a <file> tag, including the selected lines or section if any
+ */
+function fileTagAttributes(filePath: string, ref: AtReference): string {
+  const { fragment } = ref;
+  if (fragment?.type === 'lines') {
+    return `path="${filePath}" lines="${fragment.start}-${fragment.end}"`;
+  }
+  if (fragment?.type === 'heading') {
+    return `path="${filePath}" section="${fragment.slug}"`;
+  }
+  return `path="${filePath}"`;
+}
+
 /**
  * Default content wrapper - wraps in XML tags
  */
-function defaultContentWrapper(content: string, filePath: string, _ref: AtReference): string {
-  return `<file path="${filePath}">\n\n${content}\n\n</file>`;
+function defaultContentWrapper(content: string, filePath: string, ref: AtReference): string {
+  return `<file ${fileTagAttributes(filePath, ref)}>\n\n${content}\n\n</file>`;
 }
 
+/**
+ * Comment wrapper - marks the start and end of the file with HTML comments
+ */
+function commentContentWrapper(content: string, filePath: string, ref: AtReference): string {
+  return `<!-- begin file ${fileTagAttributes(filePath, ref)} -->\n\n${content}\n\n<!-- end file -->`;
+}
+
+/**
+ * Content wrappers for each WrapperStyle
+ */
+const CONTENT_WRAPPERS: Record<WrapperStyle, NonNullable<CompileOptions['contentWrapper']>> = {
+  xml: defaultContentWrapper,
+  comment: commentContentWrapper,
+  none: content => content,
+};
+
 /**
  * Reference wrapper - lightweight self-closing reference to already-imported file
  */
-function referenceWrapper(filePath: string): string {
-  return `<file path="${filePath}" />`;
+function referenceWrapper(filePath: string, ref: AtReference): string {
+  return `<file ${fileTagAttributes(filePath, ref)} />`;
+}
+
+/**
+ * Directory wrapper - the tree listing of a referenced directory, fenced so it is not read as markdown
+ */
+function directoryWrapper(tree: string, dirPath: string): string {
+  return `<directory path="${dirPath}">\n\n\`\`\`\n${tree}\n\`\`\`\n\n</directory>`;
+}
+
+/**
+ * Key used to track imports - a fragment is a different import than the whole file
+ */
+function getImportKey(resolvedPath: string, ref: AtReference): string {
+  return ref.fragment ? `${resolvedPath}#${formatFragment(ref.fragment)}` : resolvedPath;
 }
 
 /**
@@ -222,11 +285,25 @@ function compileContentRecursive(
 ): { compiledContent: string; references: CompiledReference[] } {
   const {
     basePath = path.dirname(currentFilePath),
-    contentWrapper = defaultContentWrapper,
+    wrapper = 'xml',
+    contentWrapper = CONTENT_WRAPPERS[wrapper],
     tryExtensions = [],
     optimizeDuplicates = false,
     headingMode = 'normalize',
+    directoryMode = 'tree',
+    claudeCompat = false,
+    relativeToFile = false,
+    homeDir,
+    env,
+    aliases,
+    sandbox,
+    fileSystem = nodeFileSystem,
+    cache,
   } = options;
+  const fileBasePath = relativeToFile ? path.dirname(currentFilePath) : basePath;
+
+  // Claude Code resolves relative paths from this file (see getClaudeCompatIssue)
+  const compatOptions = { referencingFile: currentFilePath, homeDir, env, sandbox, fileSystem, cache };
 
   // Always strip front matter
   const processedContent = stripFrontMatter(content);
@@ -240,74 +317,113 @@ function compileContentRecursive(
   // Use processedContent for compilation
   let compiledContent = processedContent;
 
+  // Backslashes escaping an @ (\@scope/package) are removed from the output.
+  // They are removed while walking backwards through the references below,
+  // so their offsets stay valid. Escapes inside a reference belong to its path.
+  const atEscapes = findAtEscapes(processedContent)
+    .filter(offset => !references.some(ref => offset >= ref.startIndex && offset < ref.endIndex))
+    .sort((a, b) => b - a);
+  let nextEscape = 0;
+  const removeEscapesFrom = (offset: number) => {
+    while (nextEscape < atEscapes.length && atEscapes[nextEscape]! >= offset) {
+      const escapeOffset = atEscapes[nextEscape]!;
+      compiledContent = compiledContent.slice(0, escapeOffset) + compiledContent.slice(escapeOffset + 1);
+      nextEscape++;
+    }
+  };
+
+  // Directory references are expanded once, by the pre-scan or the compile loop, whichever comes first
+  const expansions = new Map<number, DirectoryExpansion>();
+  const expandDirectoryReference = (ref: AtReference, resolved: ResolvedPath): DirectoryExpansion => {
+    let expansion = expansions.get(ref.startIndex);
+    if (!expansion) {
+      expansion = expandDirectory(resolved.resolvedPath, { ...options, tryExtensions });
+      expansions.set(ref.startIndex, expansion);
+    }
+    return expansion;
+  };
+
   // Pre-scan references in forward order to mark which specific refs should be full imports
   // (first occurrence of each file gets full content, rest get references)
   // IMPORTANT: Check importedFiles to respect files already imported in parent scope
-  const firstOccurrenceIndices = new Set<number>();
+  const firstOccurrences = new Set<string>();
   if (optimizeDuplicates) {
     const seenPaths = new Set<string>();
     for (let i = 0; i < references.length; i++) {
       const ref = references[i];
       if (!ref) continue;
-      const resolved = resolvePath(ref.path, { basePath, tryExtensions });
-      if (resolved.exists && !resolved.isDirectory) {
-        // Only mark as first if NOT already imported in parent AND not seen in this file
-        if (!importedFiles.has(resolved.resolvedPath) && !seenPaths.has(resolved.resolvedPath)) {
-          firstOccurrenceIndices.add(ref.startIndex); // Track by position
-          seenPaths.add(resolved.resolvedPath);
+      const resolved = resolvePath(ref.path, { basePath: fileBasePath, referencingFile: currentFilePath, tryExtensions, homeDir, env, aliases, sandbox, fileSystem, cache }, ref.fragment);
+      const loaded = !claudeCompat || !getClaudeCompatIssue({ ...ref, resolution: resolved }, Math.max(pathStack.length, 1), compatOptions);
+      if (resolved.exists && loaded) {
+        const files = resolved.isDirectory
+          ? expandDirectoryReference(ref, resolved).files
+          : resolved.matches;
+        for (const target of files?.filter(file => file !== currentFilePath) ?? [resolved.resolvedPath]) {
+          // Only mark as first if NOT already imported in parent AND not seen in this file
+          const importKey = getImportKey(target, ref);
+          if (!importedFiles.has(importKey) && !seenPaths.has(importKey)) {
+            firstOccurrences.add(`${ref.startIndex}:${importKey}`); // Track by position
+            seenPaths.add(importKey);
+          }
         }
       }
     }
   }
 
-  // Sort references by startIndex in reverse order to replace from end to start
-  // This ensures indices remain valid as we modify the string
-  const sortedRefs = [...references].sort((a, b) => b.startIndex - a.startIndex);
-
-  for (const ref of sortedRefs) {
-    const resolved = resolvePath(ref.path, { basePath, tryExtensions });
+  /**
+   * Compile the import of one file for a reference (a glob reference imports each match)
+   *
+   * @returns The text to put in place of the reference, if the file was imported
+   */
+  const compileTarget = (
+    ref: AtReference,
+    resolved: ResolvedPath,
+    target: string
+  ): string | undefined => {
+    const importKey = getImportKey(target, ref);
 
     const compiledRef: CompiledReference = {
       reference: ref,
-      resolvedPath: resolved.resolvedPath,
+      resolvedPath: target,
       found: resolved.exists && !resolved.isDirectory,
     };
 
     // Check for circular dependency (only if file is in current path stack)
-    if (pathStack.includes(resolved.resolvedPath)) {
+    if (pathStack.includes(target)) {
       compiledRef.found = false;
       compiledRef.circular = true;
-      compiledRef.error = `Circular dependency detected: ${resolved.resolvedPath}`;
+      compiledRef.error = `Circular dependency detected: ${target}`;
       compiledRefs.push(compiledRef);
-      continue;
+      return undefined;
     }
 
+    let replacement: string | undefined;
+
     if (resolved.exists && !resolved.isDirectory) {
       try {
         // Track import count
-        const currentCount = importCounts.get(resolved.resolvedPath) || 0;
-        importCounts.set(resolved.resolvedPath, currentCount + 1);
+        const currentCount = importCounts.get(importKey) || 0;
+        importCounts.set(importKey, currentCount + 1);
 
         compiledRef.importCount = currentCount + 1;
         compiledRef.importedFrom = currentFilePath;
 
         // Check if this specific reference is marked as first occurrence
-        const isFirstOccurrence = firstOccurrenceIndices.has(ref.startIndex);
+        const isFirstOccurrence = firstOccurrences.has(`${ref.startIndex}:${importKey}`);
 
         if (optimizeDuplicates && !isFirstOccurrence) {
           // Use lightweight reference instead of full content (not first occurrence)
-          const refTag = referenceWrapper(resolved.resolvedPath);
-          compiledContent =
-            compiledContent.slice(0, ref.startIndex) +
-            refTag +
-            compiledContent.slice(ref.endIndex);
+          replacement = referenceWrapper(target, ref);
 
           compiledRef.content = ''; // Mark as optimized
         } else {
           // First import - include full content
-          importedFiles.add(resolved.resolvedPath);
+          importedFiles.add(importKey);
 
-          let fileContent = fs.readFileSync(resolved.resolvedPath, 'utf-8');
+          let fileContent = readFileWithCache(target, options);
+          if (ref.fragment) {
+            fileContent = selectFragment(fileContent, ref.fragment);
+          }
 
           // Calculate heading context for this import based on mode
           const localContext = contextMap.get(ref.startIndex);
@@ -320,13 +436,13 @@ function compileContentRecursive(
             : localContextLevel;
 
           // Add to path stack for circular detection
-          const newPathStack = [...pathStack, resolved.resolvedPath];
+          const newPathStack = [...pathStack, target];
 
           // Recursively compile the referenced file's content
           // Preserve basePath to maintain workspace-root-relative resolution
           const nestedResult = compileContentRecursive(
             fileContent,
-            resolved.resolvedPath,
+            target,
             options,
             newPathStack,
             importCounts,
@@ -342,26 +458,123 @@ function compileContentRecursive(
           // Add nested references to our list
           compiledRefs.push(...nestedResult.references);
 
-          const wrapped = contentWrapper(fileContent, resolved.resolvedPath, ref);
-          compiledContent =
-            compiledContent.slice(0, ref.startIndex) +
-            wrapped +
-            compiledContent.slice(ref.endIndex);
+          replacement = contentWrapper(fileContent, target, ref);
         }
       } catch (err) {
         compiledRef.found = false;
         compiledRef.error = err instanceof Error ? err.message : 'Unknown error reading file';
       }
-    } else if (resolved.isDirectory) {
-      compiledRef.found = false;
-      compiledRef.error = 'Path is a directory, not a file';
     } else {
       compiledRef.error = resolved.error || 'File not found';
     }
 
     compiledRefs.push(compiledRef);
+    return replacement;
+  };
+
+  // Sort references by startIndex in reverse order to replace from end to start
+  // This ensures indices remain valid as we modify the string
+  const sortedRefs = [...references].sort((a, b) => b.startIndex - a.startIndex);
+
+  for (const ref of sortedRefs) {
+    removeEscapesFrom(ref.endIndex);
+
+    const resolved = resolvePath(ref.path, { basePath: fileBasePath, referencingFile: currentFilePath, tryExtensions, homeDir, env, aliases, sandbox, fileSystem, cache }, ref.fragment);
+
+    // An optional reference (@?path) to a missing file is dropped, with its line if it stands alone
+    if (ref.optional && isMissingTarget(resolved)) {
+      compiledRefs.push({
+        reference: ref,
+        resolvedPath: resolved.resolvedPath,
+        found: false,
+        skipped: true,
+        error: resolved.error,
+      });
+
+      const line = getLineBoundaries(compiledContent, ref.startIndex, ref.endIndex);
+      const standsAlone = compiledContent.slice(line.start, line.end).trim() === ref.raw;
+      const removeStart = standsAlone ? line.start : ref.startIndex;
+      const removeEnd = standsAlone ? Math.min(line.end + 1, compiledContent.length) : ref.endIndex;
+      compiledContent = compiledContent.slice(0, removeStart) + compiledContent.slice(removeEnd);
+      continue;
+    }
+
+    // In claudeCompat mode a reference Claude Code would not load is left as written
+    // (the path stack holds the root file and the files imported down to this one)
+    const claudeCompatIssue = claudeCompat
+      ? getClaudeCompatIssue({ ...ref, resolution: resolved }, Math.max(pathStack.length, 1), compatOptions)
+      : undefined;
+    if (claudeCompatIssue) {
+      compiledRefs.push({
+        reference: ref,
+        resolvedPath: resolved.resolvedPath,
+        found: false,
+        notLoaded: true,
+        error: claudeCompatIssue,
+      });
+      continue;
+    }
+
+    const expansion = resolved.exists && resolved.isDirectory
+      ? expandDirectoryReference(ref, resolved)
+      : undefined;
+
+    // A directory is refused as a whole if any of its files is outside the sandbox
+    const expansionError = expansion?.error
+      ?? (sandbox && expansion?.files.map(file => checkSandbox(file, sandbox, fileSystem)).find(Boolean));
+    if (expansionError) {
+      compiledRefs.push({
+        reference: ref,
+        resolvedPath: resolved.resolvedPath,
+        found: false,
+        error: expansionError,
+      });
+      continue;
+    }
+
+    // Glob matches and directory files are imported one by one, except the file containing
+    // the reference. They are processed in reverse too, so they come out in order after the final reverse.
+    // A glob whose only match is the referencing file compiles to nothing.
+    const files = (expansion?.files ?? resolved.matches)?.filter(file => file !== currentFilePath);
+    const isGlob = resolved.exists && resolved.matches !== undefined;
+    const replacements: string[] = [];
+    if (expansion || isGlob) {
+      for (const file of [...(files ?? [])].reverse()) {
+        const fileResolved = expansion ? { resolvedPath: file, exists: true, isDirectory: false } : resolved;
+        const replacement = compileTarget(ref, fileResolved, file);
+        if (replacement !== undefined) {
+          replacements.unshift(replacement);
+        }
+      }
+    } else {
+      const replacement = compileTarget(ref, resolved, resolved.resolvedPath);
+      if (replacement !== undefined) {
+        replacements.push(replacement);
+      }
+    }
+
+    // The directory listing goes before any inlined files
+    if (expansion && directoryMode !== 'index') {
+      compiledRefs.push({
+        reference: ref,
+        resolvedPath: resolved.resolvedPath,
+        found: true,
+        content: expansion.tree,
+        importedFrom: currentFilePath,
+      });
+      replacements.unshift(directoryWrapper(expansion.tree, resolved.resolvedPath));
+    }
+
+    if (replacements.length > 0 || (isGlob && files?.length === 0)) {
+      compiledContent =
+        compiledContent.slice(0, ref.startIndex) +
+        replacements.join('\n\n') +
+        compiledContent.slice(ref.endIndex);
+    }
   }
 
+  removeEscapesFrom(0);
+
   // Reverse to get original order
   compiledRefs.reverse();
 
@@ -400,10 +613,11 @@ function compileFileWithCache(
     writeOutput = true,
     importCounts = new Map<string, number>(),
     importedFiles = new Set<string>(),
+    cache = createResolutionCache(),
   } = options;
 
   const absoluteInputPath = path.resolve(filePath);
-  const content = fs.readFileSync(absoluteInputPath, 'utf-8');
+  const content = readFileWithCache(absoluteInputPath, { ...options, cache });
 
   // Initialize path stack with root file for circular detection
   const pathStack = [absoluteInputPath];
@@ -420,7 +634,7 @@ function compileFileWithCache(
   const { compiledContent, references: compiledRefs } = compileContentRecursive(
     content,
     absoluteInputPath,
-    { ...options, basePath: effectiveBasePath },
+    { ...options, basePath: effectiveBasePath, cache },
     pathStack,
     importCounts,
     importedFiles,
@@ -428,7 +642,7 @@ function compileFileWithCache(
   );
 
   const successCount = compiledRefs.filter(r => r.found).length;
-  const failedCount = compiledRefs.filter(r => !r.found).length;
+  const failedCount = compiledRefs.filter(r => !r.found && !r.skipped).length;
 
   // Generate import statistics
   const duplicateFiles = Array.from(importCounts.entries())
@@ -461,6 +675,7 @@ function compileFileWithCache(
 
 /**
  * Compile a single file, resolving all @ references recursively
+ * (resolutions and file contents are cached for the call unless the cache option is set)
  */
 export function compileFile(filePath: string, options: CompileOptions = {}): CompileResult {
   // Create local cache for single-file compilation
@@ -505,7 +720,7 @@ export function compileContent(
   return compileContentRecursive(
     content,
     virtualFilePath,
-    { ...options, basePath },
+    { ...options, basePath, cache: options.cache ?? createResolutionCache() },
     pathStack,
     importCounts,
     importedFiles,
@@ -516,18 +731,24 @@ export function compileContent(
 /**
  * Recursively find all .md files in a directory
  */
-function findMarkdownFiles(dir: string): string[] {
+function findMarkdownFiles(dir: string, fileSystem: AtRefFileSystem): string[] {
   const files: string[] = [];
 
   function walk(currentDir: string) {
-    const entries = fs.readdirSync(currentDir, { withFileTypes: true });
+    const entries = fileSystem.readdir(currentDir);
 
     for (const entry of entries) {
-      const fullPath = path.join(currentDir, entry.name);
+      const fullPath = path.join(currentDir, entry);
+      const stat = fileSystem.stat(fullPath);
+
+      // Symbolic links are not followed
+      if (stat.isSymbolicLink) {
+        continue;
+      }
 
-      if (entry.isDirectory()) {
+      if (stat.isDirectory) {
         walk(fullPath);
-      } else if (entry.isFile() && entry.name.endsWith('.md')) {
+      } else if (stat.isFile && entry.endsWith('.md')) {
         files.push(fullPath);
       }
     }
@@ -551,7 +772,10 @@ export function compileFolder(
   const preserveStructure = options.preserveStructure ?? true;
 
   // Find all markdown files
-  const markdownFiles = findMarkdownFiles(absoluteInputDir);
+  const markdownFiles = findMarkdownFiles(absoluteInputDir, options.fileSystem ?? nodeFileSystem);
+
+  // Resolutions and file contents are shared by the dependency graph and every file's compilation
+  const cache = options.cache ?? createResolutionCache();
 
   if (markdownFiles.length === 0) {
     return {
@@ -570,7 +794,16 @@ export function compileFolder(
   // Build dependency graph
   const graph = buildDependencyGraph(markdownFiles, {
     basePath: options.basePath,
-    tryExtensions: options.tryExtensions
+    tryExtensions: options.tryExtensions,
+    homeDir: options.homeDir,
+    env: options.env,
+    aliases: options.aliases,
+    sandbox: options.sandbox,
+    fileSystem: options.fileSystem,
+    cache,
+    directoryMode: options.directoryMode,
+    directoryMaxDepth: options.directoryMaxDepth,
+    directoryIgnorePatterns: options.directoryIgnorePatterns,
   });
 
   // Topologically sort files (dependencies before dependents)
@@ -603,6 +836,7 @@ export function compileFolder(
         ...options,
         outputPath,
         writeOutput: true,
+        cache,
         importCounts: globalImportCounts,
         importedFiles: globalImportedFiles
       });
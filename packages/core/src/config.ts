@@ -0,0 +1,226 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { AtRefConfig, RuleId, RuleOptions, RuleSetting, RuleSeverity, WorkspaceRootStrategy, WrapperStyle } from './types';
+import { expandReferencePath } from './resolver';
+import { WORKSPACE_ROOT_STRATEGIES } from './workspace';
+import { RULES, RULE_SEVERITIES } from './rules';
+
+/**
+ * Config file names, in the order they are looked for in each directory
+ */
+export const CONFIG_FILE_NAMES = ['.atrefrc.json', 'at-ref.config.json'];
+
+const HEADING_MODES = ['normalize', 'additive'];
+const WRAPPER_STYLES: WrapperStyle[] = ['xml', 'comment', 'none'];
+const DIRECTORY_MODES = ['tree', 'contents', 'index'];
+
+/**
+ * A loaded project configuration
+ */
+export interface LoadedConfig {
+  /** The configuration, with relative paths resolved against the config file's directory */
+  config: AtRefConfig;
+  /** The config file that was read (undefined if none was found) */
+  configPath?: string;
+}
+
+/**
+ * Find the config file for a directory: the nearest .atrefrc.json or at-ref.config.json
+ * in it or a parent directory, stopping at the repository root (the first directory with .git)
+ */
+export function findConfigFile(startDir: string): string | undefined {
+  let dir = path.resolve(startDir);
+
+  while (true) {
+    for (const name of CONFIG_FILE_NAMES) {
+      const candidate = path.join(dir, name);
+      if (fs.existsSync(candidate)) {
+        return candidate;
+      }
+    }
+
+    const parent = path.dirname(dir);
+    if (parent === dir || fs.existsSync(path.join(dir, '.git'))) {
+      return undefined;
+    }
+    dir = parent;
+  }
+}
+
+/**
+ * Load the project configuration for a directory (see findConfigFile).
+ * Returns an empty configuration when there is no config file.
+ *
+ * @throws Error if the config file is not valid JSON or has invalid values
+ */
+export function loadConfig(startDir: string = process.cwd()): LoadedConfig {
+  const configPath = findConfigFile(startDir);
+  if (!configPath) {
+    return { config: {} };
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+  } catch (err) {
+    const reason = err instanceof Error ? err.message : String(err);
+    throw new Error(`Invalid config file ${configPath}: ${reason}`);
+  }
+
+  return { config: parseConfig(raw, configPath), configPath };
+}
+
+/**
+ * Check the values in a config file and resolve its relative paths
+ */
+function parseConfig(raw: unknown, configPath: string): AtRefConfig {
+  const fail = (message: string): never => {
+    throw new Error(`Invalid config file ${configPath}: ${message}`);
+  };
+
+  if (!isRecord(raw)) {
+    return fail('expected an object');
+  }
+
+  const configDir = path.dirname(configPath);
+  const resolveConfigPath = (value: string) => path.resolve(configDir, expandReferencePath(value).path);
+  const config: AtRefConfig = {};
+
+  if (raw.ignore !== undefined) {
+    if (!isStringArray(raw.ignore)) fail('"ignore" must be an array of strings');
+    config.ignore = raw.ignore as string[];
+  }
+
+  if (raw.tryExtensions !== undefined) {
+    if (!isStringArray(raw.tryExtensions)) fail('"tryExtensions" must be an array of strings');
+    config.tryExtensions = raw.tryExtensions as string[];
+  }
+
+  if (raw.aliases !== undefined) {
+    if (!isRecord(raw.aliases)) fail('"aliases" must be an object');
+    config.aliases = {};
+    for (const [name, roots] of Object.entries(raw.aliases as Record<string, unknown>)) {
+      if (typeof roots === 'string') {
+        config.aliases[name] = resolveConfigPath(roots);
+      } else if (isStringArray(roots)) {
+        config.aliases[name] = roots.map(resolveConfigPath);
+      } else {
+        fail(`alias "${name}" must be a path or an array of paths`);
+      }
+    }
+  }
+
+  if (raw.headingMode !== undefined) {
+    if (!HEADING_MODES.includes(raw.headingMode as string)) {
+      fail(`"headingMode" must be one of: ${HEADING_MODES.join(', ')}`);
+    }
+    config.headingMode = raw.headingMode as AtRefConfig['headingMode'];
+  }
+
+  if (raw.wrapper !== undefined) {
+    if (!WRAPPER_STYLES.includes(raw.wrapper as WrapperStyle)) {
+      fail(`"wrapper" must be one of: ${WRAPPER_STYLES.join(', ')}`);
+    }
+    config.wrapper = raw.wrapper as WrapperStyle;
+  }
+
+  if (raw.outputDir !== undefined) {
+    if (typeof raw.outputDir !== 'string') fail('"outputDir" must be a path');
+    config.outputDir = resolveConfigPath(raw.outputDir as string);
+  }
+
+  if (raw.directoryMode !== undefined) {
+    if (!DIRECTORY_MODES.includes(raw.directoryMode as string)) {
+      fail(`"directoryMode" must be one of: ${DIRECTORY_MODES.join(', ')}`);
+    }
+    config.directoryMode = raw.directoryMode as AtRefConfig['directoryMode'];
+  }
+
+  if (raw.directoryMaxDepth !== undefined) {
+    if (!Number.isInteger(raw.directoryMaxDepth) || (raw.directoryMaxDepth as number) < 1) {
+      fail('"directoryMaxDepth" must be a positive integer');
+    }
+    config.directoryMaxDepth = raw.directoryMaxDepth as number;
+  }
+
+  if (raw.rules !== undefined) {
+    if (!isRecord(raw.rules)) fail('"rules" must be an object');
+    config.rules = {};
+    for (const [id, setting] of Object.entries(raw.rules as Record<string, unknown>)) {
+      const rule =
+        RULES.find(candidate => candidate.id === id) ??
+        fail(`unknown rule "${id}" (known rules: ${RULES.map(candidate => candidate.id).join(', ')})`);
+
+      // 'warn', or ['warn', { ...options }]
+      const [severity, options, ...rest] = Array.isArray(setting) ? setting : [setting];
+      if (!RULE_SEVERITIES.includes(severity as RuleSeverity) || rest.length > 0) {
+        fail(`rule "${id}" must be one of: ${RULE_SEVERITIES.join(', ')} (or a [severity, options] pair)`);
+      }
+      if (options === undefined) {
+        config.rules[id as RuleId] = severity as RuleSeverity;
+        continue;
+      }
+
+      if (!isRecord(options)) fail(`options of rule "${id}" must be an object`);
+      for (const [name, value] of Object.entries(options as Record<string, unknown>)) {
+        if (!rule.options.includes(name as keyof RuleOptions)) {
+          fail(`rule "${id}" has no option "${name}"`);
+        }
+        if (name === 'extensions' && !isStringArray(value)) {
+          fail(`option "extensions" of rule "${id}" must be an array of strings`);
+        }
+        if (name === 'max' && (!Number.isInteger(value) || (value as number) < 0)) {
+          fail(`option "max" of rule "${id}" must be a non-negative integer`);
+        }
+      }
+      config.rules[id as RuleId] = [severity, options] as RuleSetting;
+    }
+  }
+
+  if (raw.workspaceRoot !== undefined) {
+    if (!isRecord(raw.workspaceRoot)) fail('"workspaceRoot" must be an object');
+    const workspaceRoot = raw.workspaceRoot as Record<string, unknown>;
+    config.workspaceRoot = {};
+    if (workspaceRoot.strategy !== undefined) {
+      if (!WORKSPACE_ROOT_STRATEGIES.includes(workspaceRoot.strategy as WorkspaceRootStrategy)) {
+        fail(`"workspaceRoot.strategy" must be one of: ${WORKSPACE_ROOT_STRATEGIES.join(', ')}`);
+      }
+      config.workspaceRoot.strategy = workspaceRoot.strategy as WorkspaceRootStrategy;
+    }
+    if (workspaceRoot.path !== undefined) {
+      if (typeof workspaceRoot.path !== 'string') fail('"workspaceRoot.path" must be a path');
+      config.workspaceRoot.path = resolveConfigPath(workspaceRoot.path as string);
+    }
+    if (config.workspaceRoot.strategy === 'explicit' && config.workspaceRoot.path === undefined) {
+      fail('"workspaceRoot.path" is required with the explicit strategy');
+    }
+  }
+
+  if (raw.sandbox !== undefined) {
+    if (!isRecord(raw.sandbox)) fail('"sandbox" must be an object');
+    const sandbox = raw.sandbox as Record<string, unknown>;
+    config.sandbox = {};
+    if (sandbox.enabled !== undefined) {
+      if (typeof sandbox.enabled !== 'boolean') fail('"sandbox.enabled" must be a boolean');
+      config.sandbox.enabled = sandbox.enabled as boolean;
+    }
+    if (sandbox.allowedRoots !== undefined) {
+      if (!isStringArray(sandbox.allowedRoots)) fail('"sandbox.allowedRoots" must be an array of paths');
+      config.sandbox.allowedRoots = (sandbox.allowedRoots as string[]).map(resolveConfigPath);
+    }
+    if (sandbox.followSymlinks !== undefined) {
+      if (typeof sandbox.followSymlinks !== 'boolean') fail('"sandbox.followSymlinks" must be a boolean');
+      config.sandbox.followSymlinks = sandbox.followSymlinks as boolean;
+    }
+  }
+
+  return config;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
@@ -1,8 +1,10 @@
-import * as fs from 'node:fs';
 import * as path from 'node:path';
 import { extractReferences } from './parser';
 import { resolvePath } from './resolver';
-import type { ResolveOptions } from './types';
+import type { DirectoryOptions, ResolveOptions } from './types';
+import { expandDirectory } from './directory';
+import { nodeFileSystem } from './file-system';
+import { createResolutionCache, readFileWithCache } from './cache';
 
 /**
  * Error types that can occur during graph building
@@ -49,8 +51,9 @@ export interface DependencyGraph {
  */
 export function buildDependencyGraph(
   files: string[],
-  options: ResolveOptions = {}
+  options: ResolveOptions & DirectoryOptions = {}
 ): DependencyGraph {
+  const { fileSystem = nodeFileSystem, cache = createResolutionCache() } = options;
   const nodes = new Map<string, DependencyNode>();
   const errors: GraphError[] = [];
   const fileSet = new Set(files.map(f => path.resolve(f)));
@@ -72,7 +75,7 @@ export function buildDependencyGraph(
 
     try {
       // Read file content
-      if (!fs.existsSync(absolutePath)) {
+      if (!fileSystem.exists(absolutePath)) {
         errors.push({
           type: 'missing',
           filePath: absolutePath,
@@ -81,7 +84,7 @@ export function buildDependencyGraph(
         continue;
       }
 
-      const content = fs.readFileSync(absolutePath, 'utf-8');
+      const content = readFileWithCache(absolutePath, { fileSystem, cache });
 
       // Extract references
       const references = extractReferences(content);
@@ -90,8 +93,15 @@ export function buildDependencyGraph(
       for (const ref of references) {
         const resolved = resolvePath(ref.path, {
           basePath: path.dirname(absolutePath),
-          tryExtensions: options.tryExtensions
-        });
+          referencingFile: absolutePath,
+          tryExtensions: options.tryExtensions,
+          homeDir: options.homeDir,
+          env: options.env,
+          aliases: options.aliases,
+          sandbox: options.sandbox,
+          fileSystem,
+          cache
+        }, ref.fragment);
 
         if (!resolved.exists) {
           errors.push({
@@ -103,16 +113,21 @@ export function buildDependencyGraph(
           continue;
         }
 
-        const depPath = resolved.resolvedPath;
-
-        // Add dependency edge
-        node.dependencies.add(depPath);
-
-        // If dependency is in our file set, add reverse edge
-        if (fileSet.has(depPath)) {
-          const depNode = nodes.get(depPath);
-          if (depNode) {
-            depNode.dependents.add(absolutePath);
+        // A glob or directory reference depends on every file it imports, except the file itself
+        const files = resolved.isDirectory
+          ? expandDirectory(resolved.resolvedPath, options).files
+          : resolved.matches;
+        const depPaths = files?.filter(file => file !== absolutePath) ?? [resolved.resolvedPath];
+        for (const depPath of depPaths) {
+          // Add dependency edge
+          node.dependencies.add(depPath);
+
+          // If dependency is in our file set, add reverse edge
+          if (fileSet.has(depPath)) {
+            const depNode = nodes.get(depPath);
+            if (depNode) {
+              depNode.dependents.add(absolutePath);
+            }
           }
         }
       }
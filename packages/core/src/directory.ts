@@ -0,0 +1,201 @@
+import * as path from 'node:path';
+import type { AtRefFileSystem, DirectoryOptions, ResolveOptions } from './types';
+import { nodeFileSystem } from './file-system';
+
+/**
+ * Entries always left out of directory listings: dotfiles and node_modules
+ */
+const DEFAULT_DIRECTORY_IGNORE_PATTERNS = [/(^|\/)\./, /(^|\/)node_modules(\/|$)/];
+
+/**
+ * Index files tried in 'index' mode, before index + tryExtensions
+ */
+const INDEX_FILE_NAMES = ['index.md', 'README.md'];
+
+/**
+ * Default number of levels listed below a referenced directory
+ */
+const DEFAULT_DIRECTORY_MAX_DEPTH = 3;
+
+/**
+ * An entry found when listing a directory
+ */
+export interface DirectoryEntry {
+  /** Absolute path */
+  path: string;
+  /** Path relative to the listed directory, with / separators */
+  relativePath: string;
+  /** Whether the entry is a directory */
+  isDirectory: boolean;
+  /** Nesting level (0 = directly inside the listed directory) */
+  depth: number;
+}
+
+/**
+ * What a directory reference expands to
+ */
+export interface DirectoryExpansion {
+  /** Tree-style listing of the directory (empty in 'index' mode) */
+  tree: string;
+  /** Files to inline, in order ('contents' and 'index' modes) */
+  files: string[];
+  /** Error message if the directory cannot be expanded (e.g., it has no index file) */
+  error?: string;
+}
+
+/**
+ * List a directory recursively in sorted order (each directory followed by its contents),
+ * leaving out ignored entries and anything deeper than directoryMaxDepth
+ */
+export function listDirectory(
+  dirPath: string,
+  options: DirectoryOptions & Pick<ResolveOptions, 'fileSystem'> = {}
+): DirectoryEntry[] {
+  const {
+    directoryMaxDepth = DEFAULT_DIRECTORY_MAX_DEPTH,
+    directoryIgnorePatterns = [],
+    fileSystem = nodeFileSystem,
+  } = options;
+  const ignorePatterns = [...DEFAULT_DIRECTORY_IGNORE_PATTERNS, ...directoryIgnorePatterns];
+  const entries: DirectoryEntry[] = [];
+
+  const walk = (currentDir: string, relativeDir: string, depth: number): void => {
+    let names: string[];
+    try {
+      names = fileSystem.readdir(currentDir).sort();
+    } catch {
+      return;
+    }
+
+    for (const name of names) {
+      const relativePath = relativeDir ? `${relativeDir}/${name}` : name;
+      if (ignorePatterns.some(pattern => pattern.test(relativePath))) {
+        continue;
+      }
+
+      const fullPath = path.join(currentDir, name);
+      let isDirectory: boolean;
+      try {
+        isDirectory = fileSystem.stat(fullPath).isDirectory;
+      } catch {
+        continue;
+      }
+
+      entries.push({ path: fullPath, relativePath, isDirectory, depth });
+
+      if (isDirectory && depth + 1 < directoryMaxDepth) {
+        walk(fullPath, relativePath, depth + 1);
+      }
+    }
+  };
+
+  walk(dirPath, '', 0);
+  return entries;
+}
+
+/**
+ * Format directory entries (from listDirectory) as a tree, like the `tree` command:
+ *
+ * ```
+ * docs/
+ * ├── api.md
+ * └── guides/
+ *     └── setup.md
+ * ```
+ */
+export function formatDirectoryTree(dirPath: string, entries: DirectoryEntry[]): string {
+  const lines = [`${path.basename(dirPath)}/`];
+  // For each open ancestor level: whether it was the last entry at that level
+  const lastAtLevel: boolean[] = [];
+
+  entries.forEach((entry, index) => {
+    // The entry is last among its siblings when no later entry at the same depth
+    // comes before the listing returns to a shallower depth
+    let isLast = true;
+    for (let next = index + 1; next < entries.length; next++) {
+      const nextDepth = entries[next]!.depth;
+      if (nextDepth < entry.depth) break;
+      if (nextDepth === entry.depth) {
+        isLast = false;
+        break;
+      }
+    }
+
+    lastAtLevel[entry.depth] = isLast;
+    const indent = lastAtLevel
+      .slice(0, entry.depth)
+      .map(ancestorIsLast => (ancestorIsLast ? '    ' : '│   '))
+      .join('');
+    const name = path.basename(entry.path) + (entry.isDirectory ? '/' : '');
+    lines.push(`${indent}${isLast ? '└── ' : '├── '}${name}`);
+  });
+
+  return lines.join('\n');
+}
+
+/**
+ * Find a directory's index file: index.md, README.md, then index + each of tryExtensions
+ */
+export function findDirectoryIndex(
+  dirPath: string,
+  tryExtensions: string[] = [],
+  fileSystem = nodeFileSystem
+): string | undefined {
+  const candidates = [...INDEX_FILE_NAMES, ...tryExtensions.map(ext => `index${ext}`)];
+
+  for (const candidate of candidates) {
+    const candidatePath = path.join(dirPath, candidate);
+    try {
+      if (fileSystem.stat(candidatePath).isFile) {
+        return candidatePath;
+      }
+    } catch {
+      // Not there - try the next candidate
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Expand a referenced directory according to directoryMode
+ */
+export function expandDirectory(
+  dirPath: string,
+  options: DirectoryOptions & Pick<ResolveOptions, 'tryExtensions' | 'fileSystem'> = {}
+): DirectoryExpansion {
+  const { directoryMode = 'tree', tryExtensions = [], fileSystem = nodeFileSystem } = options;
+
+  if (directoryMode === 'index') {
+    const indexPath = findDirectoryIndex(dirPath, tryExtensions, fileSystem);
+    if (!indexPath) {
+      return { tree: '', files: [], error: `Directory has no index file: ${dirPath}` };
+    }
+    return { tree: '', files: [indexPath] };
+  }
+
+  const entries = listDirectory(dirPath, options);
+  const tree = formatDirectoryTree(dirPath, entries);
+
+  if (directoryMode === 'tree') {
+    return { tree, files: [] };
+  }
+
+  const files = entries
+    .filter(entry => !entry.isDirectory && isTextFile(entry.path, fileSystem))
+    .map(entry => entry.path);
+
+  return { tree, files };
+}
+
+/**
+ * Check whether a file looks like text (no NUL characters at the start), so binary files
+ * are listed but not inlined
+ */
+function isTextFile(filePath: string, fileSystem: AtRefFileSystem): boolean {
+  try {
+    return !fileSystem.readFile(filePath).slice(0, 8000).includes('\0');
+  } catch {
+    return false;
+  }
+}
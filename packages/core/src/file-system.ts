@@ -0,0 +1,226 @@
+import { execFileSync } from 'node:child_process';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { AtRefFileStat, AtRefFileSystem } from './types';
+
+/**
+ * Largest git output read at once (the tree listing of a big repository)
+ */
+const GIT_MAX_BUFFER = 256 * 1024 * 1024;
+
+/**
+ * How many symbolic links are followed when resolving a path in a git tree
+ */
+const MAX_SYMLINK_DEPTH = 40;
+
+/**
+ * The file system on disk (node:fs)
+ */
+export const nodeFileSystem: AtRefFileSystem = {
+  exists: (filePath) => fs.existsSync(filePath),
+  stat: (filePath) => {
+    const linkStat = fs.lstatSync(filePath);
+    const stat = linkStat.isSymbolicLink() ? fs.statSync(filePath) : linkStat;
+    return {
+      isFile: stat.isFile(),
+      isDirectory: stat.isDirectory(),
+      isSymbolicLink: linkStat.isSymbolicLink(),
+    };
+  },
+  readFile: (filePath) => fs.readFileSync(filePath, 'utf-8'),
+  readdir: (dirPath) => fs.readdirSync(dirPath),
+  realpath: (filePath) => fs.realpathSync(filePath),
+};
+
+/**
+ * Create a file system held in memory, for tests, unsaved editor buffers or environments without disk access.
+ * Directories are implied by the files inside them; there are no symbolic links.
+ *
+ * @param files - File contents by path (relative paths are resolved against the working directory)
+ * @example createMemoryFileSystem({ '/project/CLAUDE.md': '@docs/guide.md', '/project/docs/guide.md': '# Guide' })
+ */
+export function createMemoryFileSystem(files: Record<string, string> = {}): AtRefFileSystem {
+  const contents = new Map<string, string>();
+  const directories = new Map<string, Set<string>>();
+
+  for (const [filePath, content] of Object.entries(files)) {
+    let current = path.resolve(filePath);
+    contents.set(current, content);
+
+    // Register the file in each of its parent directories
+    while (path.dirname(current) !== current) {
+      const parent = path.dirname(current);
+      const entries = directories.get(parent) ?? new Set<string>();
+      entries.add(path.basename(current));
+      directories.set(parent, entries);
+      current = parent;
+    }
+  }
+
+  const stat = (filePath: string): AtRefFileStat => {
+    const resolved = path.resolve(filePath);
+    if (contents.has(resolved)) {
+      return { isFile: true, isDirectory: false, isSymbolicLink: false };
+    }
+    if (directories.has(resolved)) {
+      return { isFile: false, isDirectory: true, isSymbolicLink: false };
+    }
+    return notFound('stat', filePath);
+  };
+
+  return {
+    exists: (filePath) => {
+      const resolved = path.resolve(filePath);
+      return contents.has(resolved) || directories.has(resolved);
+    },
+    stat,
+    readFile: (filePath) => contents.get(path.resolve(filePath)) ?? notFound('open', filePath),
+    readdir: (dirPath) => {
+      const entries = directories.get(path.resolve(dirPath));
+      if (!entries) {
+        return notFound('scandir', dirPath);
+      }
+      return [...entries];
+    },
+    realpath: (filePath) => {
+      stat(filePath);
+      return path.resolve(filePath);
+    },
+  };
+}
+
+/**
+ * Create a read-only file system with the files of a git revision, read from the object
+ * database with the local git binary. Paths are absolute paths inside the repository's
+ * working tree, as they were at that revision; anything outside the repository does not exist.
+ *
+ * @param rev - Any revision git understands (commit, branch, tag, HEAD~2, ...)
+ * @param cwd - A directory inside the repository (default: the working directory)
+ * @throws Error if git fails or rev does not name a commit
+ */
+export function createGitFileSystem(rev: string, cwd: string = process.cwd()): AtRefFileSystem {
+  const git = (args: string[]): string => {
+    try {
+      return execFileSync('git', args, {
+        cwd,
+        encoding: 'utf-8',
+        maxBuffer: GIT_MAX_BUFFER,
+        stdio: ['ignore', 'pipe', 'pipe'],
+      });
+    } catch (err) {
+      const stderr = (err as { stderr?: string }).stderr?.trim();
+      throw new Error(`git ${args[0]} failed: ${stderr || (err instanceof Error ? err.message : err)}`);
+    }
+  };
+
+  if (rev.startsWith('-')) {
+    throw new Error(`Invalid revision: ${rev}`);
+  }
+
+  const root = git(['rev-parse', '--show-toplevel']).trim();
+  let commit: string;
+  try {
+    commit = git(['rev-parse', '--verify', '--quiet', `${rev}^{commit}`]).trim();
+  } catch {
+    throw new Error(`Unknown revision: ${rev}`);
+  }
+
+  // Every entry of the revision's tree: mode, type and object id by absolute path
+  const entries = new Map<string, { mode: string; type: string; object: string }>();
+  const directories = new Map<string, Set<string>>([[root, new Set()]]);
+
+  for (const line of git(['ls-tree', '-r', '-t', '-z', '--full-tree', commit]).split('\0')) {
+    const match = /^(\d+) (\w+) (\w+)\t(.+)$/s.exec(line);
+    if (!match) continue;
+
+    const [, mode, type, object, treePath] = match;
+    const entryPath = path.join(root, treePath!);
+    entries.set(entryPath, { mode: mode!, type: type!, object: object! });
+    directories.get(path.dirname(entryPath))?.add(path.basename(entryPath));
+
+    // Trees and submodules (commits) are directories; a submodule's files are not part of the tree
+    if (type === 'tree' || type === 'commit') {
+      directories.set(entryPath, new Set());
+    }
+  }
+
+  // The revision is in a git repository, like the working tree (not listed, as with dotfiles in listings)
+  directories.set(path.join(root, '.git'), new Set());
+
+  const blobs = new Map<string, string>();
+  const readBlob = (object: string): string => {
+    let content = blobs.get(object);
+    if (content === undefined) {
+      content = git(['cat-file', 'blob', object]);
+      blobs.set(object, content);
+    }
+    return content;
+  };
+
+  const isSymbolicLink = (entryPath: string) => entries.get(entryPath)?.mode === '120000';
+
+  // Resolve the symbolic links in a path, like realpath (the result may not exist)
+  const resolveLinks = (filePath: string, depth = 0): string => {
+    const resolved = path.resolve(cwd, filePath);
+    const relative = path.relative(root, resolved);
+    if (relative === '' || relative.startsWith('..') || path.isAbsolute(relative)) {
+      return resolved;
+    }
+
+    let current = root;
+    for (const segment of relative.split(path.sep)) {
+      current = path.join(current, segment);
+      if (isSymbolicLink(current)) {
+        if (depth >= MAX_SYMLINK_DEPTH) {
+          throw Object.assign(new Error(`ELOOP: too many symbolic links, '${filePath}'`), { code: 'ELOOP' });
+        }
+        const target = readBlob(entries.get(current)!.object);
+        current = resolveLinks(path.resolve(path.dirname(current), target), depth + 1);
+      }
+    }
+    return current;
+  };
+
+  const stat = (filePath: string): AtRefFileStat => {
+    const resolved = resolveLinks(filePath);
+    const isDirectory = directories.has(resolved);
+    const entry = entries.get(resolved);
+    if (!isDirectory && entry?.type !== 'blob') {
+      return notFound('stat', filePath);
+    }
+
+    // Like lstat, the last segment itself may be a link (its parents are resolved)
+    const unresolved = path.join(resolveLinks(path.dirname(path.resolve(cwd, filePath))), path.basename(filePath));
+    return { isFile: !isDirectory, isDirectory, isSymbolicLink: isSymbolicLink(unresolved) };
+  };
+
+  return {
+    exists: (filePath) => {
+      try {
+        stat(filePath);
+        return true;
+      } catch {
+        return false;
+      }
+    },
+    stat,
+    readFile: (filePath) => {
+      const entry = entries.get(resolveLinks(filePath));
+      return entry?.type === 'blob' ? readBlob(entry.object) : notFound('open', filePath);
+    },
+    readdir: (dirPath) => {
+      const names = directories.get(resolveLinks(dirPath));
+      return names ? [...names] : notFound('scandir', dirPath);
+    },
+    realpath: (filePath) => {
+      stat(filePath);
+      return resolveLinks(filePath);
+    },
+  };
+}
+
+function notFound(operation: string, filePath: string): never {
+  throw Object.assign(new Error(`ENOENT: no such file or directory, ${operation} '${filePath}'`), {
+    code: 'ENOENT',
+  });
+}
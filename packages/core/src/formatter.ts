@@ -5,6 +5,10 @@ import type {
   BrokenReferenceByTarget,
 } from './types';
 import * as path from 'node:path';
+import { isOptionalMissing, isSuppressed } from './validator';
+import { formatReferencePath } from './parser';
+import type { TokenReport } from './tokens';
+import type { MemoryContext } from './memory';
 
 const COLORS = {
   red: '\x1b[31m',
@@ -24,11 +28,23 @@ function color(text: string, colorCode: string, noColor: boolean): string {
  * Format a single reference for display
  */
 function formatReference(ref: ResolvedReference, noColor: boolean): string {
+  const location = color(`${ref.line}:${ref.column}`, COLORS.dim, noColor);
+
+  // Optional references to missing files are info, not errors
+  if (isOptionalMissing(ref)) {
+    const info = color('ℹ', COLORS.cyan, noColor);
+    return `  ${info} ${location} ${ref.path} ${color('(optional, missing)', COLORS.dim, noColor)}`;
+  }
+
+  // Errors suppressed by an at-ref-disable directive are listed, but not as errors
+  if (isSuppressed(ref)) {
+    return `  ${color('-', COLORS.dim, noColor)} ${location} ${ref.path} ${color('(suppressed, missing)', COLORS.dim, noColor)}`;
+  }
+
   const status = ref.resolution.exists
     ? color('✓', COLORS.green, noColor)
     : color('✗', COLORS.red, noColor);
 
-  const location = color(`${ref.line}:${ref.column}`, COLORS.dim, noColor);
   const path = ref.resolution.exists
     ? ref.path
     : color(ref.path, COLORS.red, noColor);
@@ -62,6 +78,13 @@ export function formatValidationResult(
     lines.push(formatReference(ref, noColor));
   }
 
+  for (const warning of result.warnings) {
+    const location = color(`${warning.reference.line}:${warning.reference.column}`, COLORS.dim, noColor);
+    const warningColor = warning.severity === 'error' ? COLORS.red : COLORS.yellow;
+    const marker = warning.severity === 'error' ? '✗' : '⚠';
+    lines.push(`  ${color(marker, warningColor, noColor)} ${location} ${color(warning.message, warningColor, noColor)}`);
+  }
+
   // Summary
   if (result.stats.total > 0) {
     lines.push('');
@@ -71,7 +94,22 @@ export function formatValidationResult(
         ? color(`${result.stats.invalid} invalid`, COLORS.red, noColor)
         : `${result.stats.invalid} invalid`;
 
-    lines.push(`  ${result.stats.total} references: ${validText}, ${invalidText}`);
+    const optionalText =
+      result.stats.optionalMissing > 0
+        ? `, ${color(`${result.stats.optionalMissing} optional missing`, COLORS.cyan, noColor)}`
+        : '';
+
+    const suppressedText =
+      result.stats.suppressed > 0
+        ? `, ${color(`${result.stats.suppressed} suppressed`, COLORS.dim, noColor)}`
+        : '';
+
+    const warningText =
+      result.stats.warnings > 0
+        ? `, ${color(`${result.stats.warnings} warning${result.stats.warnings === 1 ? '' : 's'}`, COLORS.yellow, noColor)}`
+        : '';
+
+    lines.push(`  ${result.stats.total} references: ${validText}, ${invalidText}${optionalText}${suppressedText}${warningText}`);
   }
 
   return lines.join('\n');
@@ -90,11 +128,17 @@ export function formatSummary(
   let totalRefs = 0;
   let totalValid = 0;
   let totalInvalid = 0;
+  let totalOptionalMissing = 0;
+  let totalSuppressed = 0;
+  let totalWarnings = 0;
 
   for (const { result } of results) {
     totalRefs += result.stats.total;
     totalValid += result.stats.valid;
     totalInvalid += result.stats.invalid;
+    totalOptionalMissing += result.stats.optionalMissing;
+    totalSuppressed += result.stats.suppressed;
+    totalWarnings += result.stats.warnings;
   }
 
   lines.push('');
@@ -109,6 +153,18 @@ export function formatSummary(
     lines.push(`  Invalid: ${totalInvalid}`);
   }
 
+  if (totalOptionalMissing > 0) {
+    lines.push(`  Optional missing: ${color(String(totalOptionalMissing), COLORS.cyan, noColor)}`);
+  }
+
+  if (totalSuppressed > 0) {
+    lines.push(`  Suppressed: ${color(String(totalSuppressed), COLORS.dim, noColor)}`);
+  }
+
+  if (totalWarnings > 0) {
+    lines.push(`  Warnings: ${color(String(totalWarnings), COLORS.yellow, noColor)}`);
+  }
+
   return lines.join('\n');
 }
 
@@ -125,6 +181,7 @@ export function extractBrokenReferencesByTarget(
       targetPath: string;
       raw: string;
       error: string;
+      suggestions?: string[];
       sources: Array<{ file: string; line: number; column: number }>;
     }
   >();
@@ -138,6 +195,7 @@ export function extractBrokenReferencesByTarget(
           targetPath,
           raw: ref.raw,
           error: ref.resolution.error || 'File not found',
+          ...(ref.resolution.suggestions && { suggestions: ref.resolution.suggestions }),
           sources: [],
         });
       }
@@ -179,6 +237,12 @@ export function formatBrokenReferencesByTarget(
     // Subheader: error message (dim)
     lines.push(`    ${color(broken.error, COLORS.dim, noColor)}`);
 
+    // Suggested replacements, if any
+    if (broken.suggestions && broken.suggestions.length > 0) {
+      const suggestions = broken.suggestions.map(suggestion => `@${formatReferencePath(suggestion)}`);
+      lines.push(`    ${color(`Did you mean ${suggestions.join(' or ')}?`, COLORS.cyan, noColor)}`);
+    }
+
     // List source files with line/col
     for (const source of broken.sources) {
       const relativePath = path.relative(cwd, source.file) || source.file;
@@ -192,6 +256,40 @@ export function formatBrokenReferencesByTarget(
   return lines.join('\n');
 }
 
+/**
+ * Format the warnings from validation results, one line per warning with its source location
+ */
+export function formatWarnings(
+  results: Array<{ file: string; result: ValidationResult }>,
+  options: { noColor?: boolean; cwd?: string } = {}
+): string {
+  const { noColor = false, cwd = process.cwd() } = options;
+  const warnings = results.flatMap(({ file, result }) =>
+    result.warnings.map(warning => ({ ...warning, filePath: warning.filePath ?? file }))
+  );
+
+  if (warnings.length === 0) return '';
+
+  const lines: string[] = [];
+  lines.push('');
+  lines.push(color('Warnings:', COLORS.yellow, noColor));
+  lines.push('');
+
+  for (const warning of warnings) {
+    const relativePath = path.relative(cwd, warning.filePath) || warning.filePath;
+    const location = color(
+      `(line ${warning.reference.line}, col ${warning.reference.column})`,
+      COLORS.dim,
+      noColor
+    );
+    lines.push(`  ${relativePath} ${location}`);
+    const message = warning.severity === 'error' ? color(warning.message, COLORS.red, noColor) : warning.message;
+    lines.push(`    ${message} ${color(`[${warning.ruleId}]`, COLORS.dim, noColor)}`);
+  }
+
+  return lines.join('\n');
+}
+
 /**
  * Format validation summary for multiple files (compact mode)
  */
@@ -211,11 +309,17 @@ export function formatValidationSummary(
   let totalRefs = 0;
   let totalValid = 0;
   let totalInvalid = 0;
+  let totalOptionalMissing = 0;
+  let totalSuppressed = 0;
+  let totalWarnings = 0;
 
   for (const { result } of results) {
     totalRefs += result.stats.total;
     totalValid += result.stats.valid;
     totalInvalid += result.stats.invalid;
+    totalOptionalMissing += result.stats.optionalMissing;
+    totalSuppressed += result.stats.suppressed;
+    totalWarnings += result.stats.warnings;
   }
 
   // Header with mode indicator
@@ -239,7 +343,19 @@ export function formatValidationSummary(
     ? color(`${totalInvalid} invalid`, COLORS.red, noColor)
     : `${totalInvalid} invalid`;
 
-  lines.push(`    ${validText}, ${invalidText}`);
+  const optionalText = totalOptionalMissing > 0
+    ? `, ${color(`${totalOptionalMissing} optional missing`, COLORS.cyan, noColor)}`
+    : '';
+
+  const suppressedText = totalSuppressed > 0
+    ? `, ${color(`${totalSuppressed} suppressed`, COLORS.dim, noColor)}`
+    : '';
+
+  const warningText = totalWarnings > 0
+    ? `, ${color(`${totalWarnings} warning${totalWarnings === 1 ? '' : 's'}`, COLORS.yellow, noColor)}`
+    : '';
+
+  lines.push(`    ${validText}, ${invalidText}${optionalText}${suppressedText}${warningText}`);
 
   // Duration
   if (duration !== undefined) {
@@ -259,6 +375,11 @@ export function formatValidationSummary(
     }
   }
 
+  // Warnings (do not fail validation)
+  if (totalWarnings > 0) {
+    lines.push(formatWarnings(results, { noColor, cwd }));
+  }
+
   lines.push('');
 
   // Status message with helpful tips
@@ -278,3 +399,86 @@ export function formatValidationSummary(
 
   return lines.join('\n');
 }
+
+/**
+ * Format the token count of a compiled entrypoint, listing the files that contribute most
+ * when it is over its budget (or always, with showContributors)
+ */
+export function formatTokenReport(
+  report: TokenReport,
+  options: { noColor?: boolean; cwd?: string; limit?: number; showContributors?: boolean } = {}
+): string {
+  const { noColor = false, cwd = process.cwd(), limit = 5, showContributors = report.overBudget } = options;
+  const relative = (filePath: string) => path.relative(cwd, filePath) || filePath;
+  const formatCount = (tokens: number) => tokens.toLocaleString('en-US');
+  const lines: string[] = [];
+
+  const budget = report.maxTokens !== undefined ? ` (max ${formatCount(report.maxTokens)})` : '';
+  const total = `~${formatCount(report.totalTokens)} tokens${budget}`;
+  if (report.overBudget) {
+    lines.push(`${relative(report.filePath)}: ${color(`${total} - over budget`, COLORS.red, noColor)}`);
+  } else {
+    lines.push(`${relative(report.filePath)}: ${color(total, COLORS.green, noColor)}`);
+  }
+
+  if (showContributors) {
+    const contributors = report.contributions.slice(0, limit);
+    const width = Math.max(...contributors.map(contribution => formatCount(contribution.tokens).length));
+    lines.push(color('  Largest contributors:', COLORS.dim, noColor));
+    for (const contribution of contributors) {
+      lines.push(`    ${formatCount(contribution.tokens).padStart(width)}  ${relative(contribution.filePath)}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Format the memory Claude Code loads in a directory: each memory file in load order with its size,
+ * the files its imports contribute most (up to limit), and the total size against the budget
+ */
+export function formatMemoryContext(
+  context: MemoryContext,
+  options: { noColor?: boolean; cwd?: string; limit?: number } = {}
+): string {
+  const { noColor = false, cwd = process.cwd(), limit = 5 } = options;
+  const relative = (filePath: string) => path.relative(cwd, filePath) || filePath;
+  const formatCount = (tokens: number) => tokens.toLocaleString('en-US');
+  const lines: string[] = [];
+
+  if (context.entries.length === 0) {
+    return color(`No memory files are loaded in ${relative(context.dir)}`, COLORS.yellow, noColor);
+  }
+
+  const fileCount = `${context.entries.length} memory file${context.entries.length === 1 ? '' : 's'}`;
+  lines.push(color(`Memory loaded in ${relative(context.dir)} (${fileCount}, in load order):`, COLORS.cyan, noColor));
+
+  const scopeWidth = Math.max(...context.entries.map(entry => entry.scope.length));
+  context.entries.forEach((entry, index) => {
+    const tokens = color(`~${formatCount(entry.tokens.totalTokens)} tokens`, COLORS.dim, noColor);
+    lines.push(`  ${index + 1}. ${entry.scope.padEnd(scopeWidth)}  ${relative(entry.filePath)}  ${tokens}`);
+
+    // Where the tokens come from, once the file imports anything
+    if (entry.tokens.contributions.length > 1) {
+      const contributors = entry.tokens.contributions.slice(0, limit);
+      const width = Math.max(...contributors.map(contribution => formatCount(contribution.tokens).length));
+      const indent = ' '.repeat(String(index + 1).length + 4);
+      for (const contribution of contributors) {
+        lines.push(`${indent}${formatCount(contribution.tokens).padStart(width)}  ${relative(contribution.filePath)}`);
+      }
+    }
+  });
+
+  // The rest is the header Claude Code puts before each memory file
+  const headerTokens = context.totalTokens - context.entries.reduce((sum, entry) => sum + entry.tokens.totalTokens, 0);
+  if (headerTokens > 0) {
+    lines.push(color(`  + ~${formatCount(headerTokens)} tokens of "Contents of ..." headers`, COLORS.dim, noColor));
+  }
+
+  lines.push('');
+  const budget = context.maxTokens !== undefined ? ` (max ${formatCount(context.maxTokens)})` : '';
+  const total = `Total: ~${formatCount(context.totalTokens)} tokens${budget}`;
+  lines.push(context.overBudget ? color(`${total} - over budget`, COLORS.red, noColor) : color(total, COLORS.green, noColor));
+
+  return lines.join('\n');
+}
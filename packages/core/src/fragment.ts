@@ -0,0 +1,69 @@
+import type { ReferenceFragment } from './types';
+import { extractHeadingSection, getHeadingSlugs } from './heading-adjuster';
+
+/**
+ * Regex to parse a line-range fragment (e.g., "L40-80", "L40-L80", "L40")
+ */
+const LINE_FRAGMENT_PATTERN = /^L(\d+)(?:-L?(\d+))?$/;
+
+/**
+ * Parse the text after `#` into a reference fragment.
+ * Line ranges take precedence; anything else is treated as a heading slug.
+ */
+export function parseFragment(text: string): ReferenceFragment | undefined {
+  const lineMatch = LINE_FRAGMENT_PATTERN.exec(text);
+  if (lineMatch) {
+    const start = Number(lineMatch[1]);
+    const end = lineMatch[2] !== undefined ? Number(lineMatch[2]) : start;
+    return { type: 'lines', start, end };
+  }
+
+  if (text.length > 0) {
+    return { type: 'heading', slug: text.toLowerCase() };
+  }
+
+  return undefined;
+}
+
+/**
+ * Format a reference fragment back to its text form (without `#`)
+ */
+export function formatFragment(fragment: ReferenceFragment): string {
+  if (fragment.type === 'heading') {
+    return fragment.slug;
+  }
+
+  return fragment.start === fragment.end
+    ? `L${fragment.start}`
+    : `L${fragment.start}-${fragment.end}`;
+}
+
+/**
+ * Select the part of file content that a fragment refers to.
+ * Line ranges are clamped to the content and unknown headings select nothing,
+ * so callers should check fragments with resolvePath() first if they need an error.
+ */
+export function selectFragment(content: string, fragment: ReferenceFragment): string {
+  if (fragment.type === 'heading') {
+    return extractHeadingSection(content, fragment.slug) ?? '';
+  }
+
+  const lines = content.split('\n');
+  return lines.slice(Math.max(fragment.start - 1, 0), fragment.end).join('\n');
+}
+
+/**
+ * Get the 1-indexed line where a fragment starts in content
+ *
+ * @returns The line number, or undefined if the fragment does not match the content
+ */
+export function getFragmentStartLine(content: string, fragment: ReferenceFragment): number | undefined {
+  if (fragment.type === 'lines') {
+    return fragment.start;
+  }
+
+  const entry = getHeadingSlugs(content).find(e => e.slug === fragment.slug);
+  if (!entry) return undefined;
+
+  return content.slice(0, entry.heading.position).split('\n').length;
+}
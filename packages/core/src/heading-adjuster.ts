@@ -1,7 +1,9 @@
 import type { AtReference, Heading, HeadingContext } from './types';
+import { scanMarkdown } from './markdown-scanner';
 
 /**
- * Find all excluded ranges in the content (code blocks and optionally file tags)
+ * Find all excluded ranges in the content (code, HTML comments and links as found by
+ * scanMarkdown, and optionally file tags)
  * to exclude them from heading detection and adjustment
  *
  * @param content The markdown content to analyze
@@ -11,39 +13,12 @@ export function findExcludedRanges(
   content: string,
   includeFileBlocks: boolean = true
 ): Array<{ start: number; end: number }> {
-  const ranges: Array<{ start: number; end: number }> = [];
-
-  // Match fenced code blocks first (``` ... ```) as they take precedence
-  const codeBlockPattern = /```[\s\S]*?```/g;
+  const ranges: Array<{ start: number; end: number }> = scanMarkdown(content).map(range => ({
+    start: range.start,
+    end: range.end,
+  }));
   let match: RegExpExecArray | null;
 
-  while ((match = codeBlockPattern.exec(content)) !== null) {
-    ranges.push({
-      start: match.index,
-      end: match.index + match[0].length,
-    });
-  }
-
-  // Match inline code (` ... `) but not inside code blocks
-  const inlineCodePattern = /`[^`\n]+`/g;
-
-  while ((match = inlineCodePattern.exec(content)) !== null) {
-    const matchStart = match.index;
-    const matchEnd = match.index + match[0].length;
-
-    // Check if this inline code is inside a code block
-    const isInsideCodeBlock = ranges.some(
-      range => matchStart >= range.start && matchEnd <= range.end
-    );
-
-    if (!isInsideCodeBlock) {
-      ranges.push({
-        start: matchStart,
-        end: matchEnd,
-      });
-    }
-  }
-
   // Match <file ...>...</file> blocks and self-closing <file .../> tags
   if (includeFileBlocks) {
     const fileBlockPattern = /<file\s[^>]*>[\s\S]*?<\/file>|<file\s[^>]*\/>/g;
@@ -241,3 +216,50 @@ export function normalizeHeadings(
   // Use adjustHeadings with the calculated shift
   return adjustHeadings(content, shiftAmount, warnOnClamp, skipFileBlocks);
 }
+
+/**
+ * Convert heading text to a GitHub-style anchor slug
+ * (lowercase, punctuation removed, spaces replaced with hyphens)
+ *
+ * @example slugifyHeading('Error Handling & Retries') // 'error-handling--retries'
+ */
+export function slugifyHeading(text: string): string {
+  return text
+    .trim()
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s_-]/gu, '')
+    .replace(/\s/g, '-');
+}
+
+/**
+ * Assign a unique slug to every heading in content, the way GitHub does:
+ * repeated slugs get a numeric suffix (e.g., "usage", "usage-1", "usage-2")
+ */
+export function getHeadingSlugs(content: string): Array<{ heading: Heading; slug: string }> {
+  const seen = new Map<string, number>();
+
+  return extractHeadings(content).map(heading => {
+    const base = slugifyHeading(heading.text);
+    const count = seen.get(base) ?? 0;
+    seen.set(base, count + 1);
+    return { heading, slug: count === 0 ? base : `${base}-${count}` };
+  });
+}
+
+/**
+ * Extract the section under the heading with the given slug: the heading line
+ * itself plus everything up to the next heading of the same or higher level.
+ *
+ * @returns The section content, or undefined if no heading has that slug
+ */
+export function extractHeadingSection(content: string, slug: string): string | undefined {
+  const slugs = getHeadingSlugs(content);
+  const index = slugs.findIndex(entry => entry.slug === slug);
+  if (index === -1) return undefined;
+
+  const { heading } = slugs[index]!;
+  const next = slugs.slice(index + 1).find(entry => entry.heading.level <= heading.level);
+  const end = next ? next.heading.position : content.length;
+
+  return content.slice(heading.position, end).replace(/\s+$/, '');
+}
@@ -3,7 +3,18 @@
 
 export * from './types';
 export * from './parser';
+export * from './fragment';
+export * from './file-system';
+export * from './cache';
 export * from './resolver';
+export * from './directory';
+export * from './workspace';
+export * from './config';
+export * from './suggestions';
+export * from './rules';
 export * from './validator';
 export * from './formatter';
 export * from './compiler';
+export * from './tokens';
+export * from './claude-compat';
+export * from './memory';
@@ -0,0 +1,428 @@
+/**
+ * Kinds of markdown regions where text is not prose, so @references
+ * and headings inside them are not recognised
+ */
+export type MarkdownRangeKind =
+  | 'fenced-code'
+  | 'indented-code'
+  | 'code-span'
+  | 'html-comment'
+  | 'autolink'
+  | 'link-destination';
+
+/**
+ * A region of markdown content that is not prose
+ */
+export interface MarkdownRange {
+  /** Character offset where the region starts */
+  start: number;
+  /** Character offset where the region ends (exclusive) */
+  end: number;
+  /** What kind of region this is */
+  kind: MarkdownRangeKind;
+}
+
+/**
+ * A line of content with its offsets
+ */
+interface Line {
+  /** Line text without the line ending */
+  text: string;
+  /** Offset of the first character */
+  start: number;
+  /** Offset just past the last character (before the line ending) */
+  end: number;
+}
+
+/** Opening code fence: up to 3 spaces, then 3+ backticks or tildes, then an info string */
+const FENCE_OPEN_PATTERN = /^( {0,3})(`{3,}|~{3,})(.*)$/;
+
+/** List item marker: bullet or ordered number, followed by whitespace */
+const LIST_ITEM_PATTERN = /^(\s*)([-+*]|\d{1,9}[.)])([ \t]+)\S/;
+
+/** Link reference definition: [label]: destination */
+const LINK_DEFINITION_PATTERN = /^ {0,3}\[(?:[^\]\\\n]|\\.)+\]:[ \t]*(<[^>\n]*>|\S+)/;
+
+/** ATX heading or thematic break - block elements that end a paragraph */
+const NON_PARAGRAPH_LINE_PATTERN = /^ {0,3}(#{1,6}(\s|$)|([-*_])[ \t]*\3[ \t]*\3[ \t\-*_]*$)/;
+
+/** URI autolink (<https://example.com>) or email autolink (<user@example.com>) */
+const AUTOLINK_PATTERN =
+  /<[A-Za-z][A-Za-z0-9+.-]{1,31}:[^\s<>]*>|<[\w.!#$%&'*+/=?^`{|}~-]+@[A-Za-z0-9](?:[A-Za-z0-9-]{0,61}[A-Za-z0-9])?(?:\.[A-Za-z0-9](?:[A-Za-z0-9-]{0,61}[A-Za-z0-9])?)*>/y;
+
+/** Blank line, which ends a paragraph (and so any code span inside it) */
+const PARAGRAPH_BREAK_PATTERN = /\n[ \t]*\r?\n/g;
+
+/**
+ * Scan markdown content for the regions that are code or markup rather than prose,
+ * following CommonMark rules:
+ * - fenced code blocks (``` and ~~~, closed by a fence of the same kind at least as long)
+ * - indented code blocks (4+ spaces, not continuing a paragraph or list item)
+ * - code spans (backtick strings of matching length, e.g. ``a ` b``)
+ * - HTML comments
+ * - autolinks (<https://...>, <user@example.com>)
+ * - link destinations ([text](url) and [label]: url)
+ *
+ * This is shared by the parser and the heading adjuster so that both agree on what counts as code.
+ *
+ * @returns Non-overlapping ranges sorted by start offset
+ */
+export function scanMarkdown(content: string): MarkdownRange[] {
+  const blockRanges = scanBlocks(content);
+  const ranges: MarkdownRange[] = [...blockRanges];
+
+  // Inline constructs only exist in the text between blocks
+  let segmentStart = 0;
+  for (const block of blockRanges) {
+    scanInline(content, segmentStart, block.start, ranges);
+    segmentStart = block.end;
+  }
+  scanInline(content, segmentStart, content.length, ranges);
+
+  return ranges.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Check if an offset falls within any of the ranges
+ */
+export function isInsideMarkdownRange(
+  offset: number,
+  ranges: Array<{ start: number; end: number }>
+): boolean {
+  return ranges.some(range => offset >= range.start && offset < range.end);
+}
+
+/**
+ * Split content into lines, keeping offsets (handles both LF and CRLF)
+ */
+function splitLines(content: string): Line[] {
+  const lines: Line[] = [];
+  let start = 0;
+
+  while (start <= content.length) {
+    const newline = content.indexOf('\n', start);
+    const lineEnd = newline === -1 ? content.length : newline;
+    const end = content[lineEnd - 1] === '\r' ? lineEnd - 1 : lineEnd;
+    lines.push({ text: content.slice(start, end), start, end });
+    if (newline === -1) break;
+    start = newline + 1;
+  }
+
+  return lines;
+}
+
+/**
+ * Width of leading whitespace in columns (tabs advance to the next multiple of 4)
+ */
+function indentWidth(text: string): number {
+  let width = 0;
+  for (const char of text) {
+    if (char === ' ') {
+      width++;
+    } else if (char === '\t') {
+      width += 4 - (width % 4);
+    } else {
+      break;
+    }
+  }
+  return width;
+}
+
+function isBlank(text: string): boolean {
+  return /^\s*$/.test(text);
+}
+
+/**
+ * Find block-level regions: fenced code, indented code and link reference definitions
+ */
+function scanBlocks(content: string): MarkdownRange[] {
+  const lines = splitLines(content);
+  const ranges: MarkdownRange[] = [];
+
+  // Whether the previous line was paragraph text (an indented line then continues it)
+  let inParagraph = false;
+  // Content indent of the current list item (indentation up to here belongs to the item)
+  let listIndent = 0;
+
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i]!;
+    const blank = isBlank(line.text);
+    const indent = indentWidth(line.text);
+
+    if (blank) {
+      inParagraph = false;
+      i++;
+      continue;
+    }
+
+    // A line outdented past the list item after a blank line ends the list
+    if (listIndent > 0 && indent < listIndent && !inParagraph && !LIST_ITEM_PATTERN.test(line.text)) {
+      listIndent = 0;
+    }
+
+    const relativeIndent = indent >= listIndent ? indent - listIndent : indent;
+    const relativeText = stripIndent(line.text, indent - relativeIndent);
+
+    // Fenced code block
+    const fenceMatch = relativeIndent < 4 ? FENCE_OPEN_PATTERN.exec(relativeText) : null;
+    if (fenceMatch && !(fenceMatch[2]!.startsWith('`') && fenceMatch[3]!.includes('`'))) {
+      const fence = fenceMatch[2]!;
+      const closePattern = new RegExp(`^ {0,3}${fence[0] === '`' ? '`' : '~'}{${fence.length},}[ \\t]*$`);
+
+      let j = i + 1;
+      while (j < lines.length && !closePattern.test(stripIndent(lines[j]!.text, listIndent))) {
+        j++;
+      }
+
+      // An unclosed fence runs to the end of the document
+      const end = j < lines.length ? lines[j]!.end : content.length;
+      ranges.push({ start: line.start, end, kind: 'fenced-code' });
+      inParagraph = false;
+      i = j + 1;
+      continue;
+    }
+
+    // Indented code block (cannot interrupt a paragraph)
+    if (relativeIndent >= 4 && !inParagraph) {
+      let lastCodeLine = i;
+      let j = i + 1;
+      while (j < lines.length) {
+        const next = lines[j]!.text;
+        if (isBlank(next)) {
+          j++;
+          continue;
+        }
+        if (indentWidth(next) - listIndent < 4) break;
+        lastCodeLine = j;
+        j++;
+      }
+
+      ranges.push({ start: line.start, end: lines[lastCodeLine]!.end, kind: 'indented-code' });
+      i = lastCodeLine + 1;
+      continue;
+    }
+
+    // Link reference definition (cannot interrupt a paragraph)
+    const definitionMatch = !inParagraph ? LINK_DEFINITION_PATTERN.exec(line.text) : null;
+    if (definitionMatch) {
+      const destination = definitionMatch[1]!;
+      const destinationStart = line.start + definitionMatch[0].length - destination.length;
+      ranges.push({
+        start: destinationStart,
+        end: destinationStart + destination.length,
+        kind: 'link-destination',
+      });
+      i++;
+      continue;
+    }
+
+    const listMatch = LIST_ITEM_PATTERN.exec(line.text);
+    if (listMatch) {
+      listIndent = indentWidth(listMatch[1]!) + listMatch[2]!.length + indentWidth(listMatch[3]!);
+    }
+
+    inParagraph = !NON_PARAGRAPH_LINE_PATTERN.test(line.text);
+    i++;
+  }
+
+  return ranges;
+}
+
+/**
+ * Remove up to `columns` columns of leading whitespace
+ */
+function stripIndent(text: string, columns: number): string {
+  let width = 0;
+  let index = 0;
+  while (index < text.length && width < columns) {
+    const char = text[index];
+    if (char === ' ') {
+      width++;
+    } else if (char === '\t') {
+      width += 4 - (width % 4);
+    } else {
+      break;
+    }
+    index++;
+  }
+  return text.slice(index);
+}
+
+/**
+ * Find inline regions (code spans, HTML comments, autolinks, link destinations)
+ * between `start` and `end`, scanning left to right so that whichever construct
+ * opens first wins (e.g., a backtick inside a comment does not start a code span)
+ */
+function scanInline(content: string, start: number, end: number, ranges: MarkdownRange[]): void {
+  let openBrackets = 0;
+  let pos = start;
+
+  while (pos < end) {
+    const char = content[pos];
+
+    // Backslash escapes make the next character literal
+    if (char === '\\') {
+      pos += 2;
+      continue;
+    }
+
+    if (char === '`') {
+      const runLength = countRun(content, pos, '`');
+      const closeStart = findClosingBackticks(content, pos + runLength, end, runLength);
+      if (closeStart === -1) {
+        pos += runLength;
+        continue;
+      }
+      const spanEnd = closeStart + runLength;
+      ranges.push({ start: pos, end: spanEnd, kind: 'code-span' });
+      pos = spanEnd;
+      continue;
+    }
+
+    if (content.startsWith('<!--', pos)) {
+      const closeStart = content.indexOf('-->', pos + 4);
+      if (closeStart !== -1 && closeStart + 3 <= end) {
+        ranges.push({ start: pos, end: closeStart + 3, kind: 'html-comment' });
+        pos = closeStart + 3;
+        continue;
+      }
+    }
+
+    if (char === '<') {
+      AUTOLINK_PATTERN.lastIndex = pos;
+      const autolink = AUTOLINK_PATTERN.exec(content);
+      if (autolink && pos + autolink[0].length <= end) {
+        ranges.push({ start: pos, end: pos + autolink[0].length, kind: 'autolink' });
+        pos += autolink[0].length;
+        continue;
+      }
+    }
+
+    if (char === '[') {
+      openBrackets++;
+    } else if (char === ']' && openBrackets > 0) {
+      openBrackets--;
+      if (content[pos + 1] === '(') {
+        const destinationEnd = findLinkDestinationEnd(content, pos + 1, end);
+        if (destinationEnd !== -1) {
+          ranges.push({ start: pos + 1, end: destinationEnd, kind: 'link-destination' });
+          pos = destinationEnd;
+          continue;
+        }
+      }
+    } else if (char === '\n' && /^[ \t]*\r?\n/.test(content.slice(pos + 1, pos + 80))) {
+      // Link text cannot span paragraphs
+      openBrackets = 0;
+    }
+
+    pos++;
+  }
+}
+
+/**
+ * Count how many times `char` repeats starting at `pos`
+ */
+function countRun(content: string, pos: number, char: string): number {
+  let length = 0;
+  while (content[pos + length] === char) {
+    length++;
+  }
+  return length;
+}
+
+/**
+ * Find a backtick run of exactly `length` that closes a code span,
+ * without crossing a paragraph break
+ *
+ * @returns Offset of the closing run, or -1 if the span is not closed
+ */
+function findClosingBackticks(content: string, from: number, end: number, length: number): number {
+  PARAGRAPH_BREAK_PATTERN.lastIndex = from;
+  const paragraphBreak = PARAGRAPH_BREAK_PATTERN.exec(content);
+  const limit = paragraphBreak && paragraphBreak.index < end ? paragraphBreak.index : end;
+
+  let pos = from;
+  while (pos < limit) {
+    if (content[pos] === '`') {
+      const runLength = countRun(content, pos, '`');
+      if (runLength === length) {
+        return pos;
+      }
+      pos += runLength;
+    } else {
+      pos++;
+    }
+  }
+
+  return -1;
+}
+
+/**
+ * Parse an inline link destination and optional title starting at the `(`
+ * (e.g., `(docs/a.md "Title")`)
+ *
+ * @returns Offset just past the closing `)`, or -1 if this is not a link destination
+ */
+function findLinkDestinationEnd(content: string, open: number, end: number): number {
+  let pos = skipLinkWhitespace(content, open + 1, end);
+
+  if (content[pos] === '<') {
+    // <bracketed destination> - may contain spaces, not line breaks
+    const close = content.indexOf('>', pos);
+    if (close === -1 || close >= end || content.slice(pos, close).includes('\n')) return -1;
+    pos = close + 1;
+  } else {
+    // Bare destination - no whitespace, parentheses must balance
+    let depth = 0;
+    while (pos < end) {
+      const char = content[pos]!;
+      if (char === '\\') {
+        pos += 2;
+        continue;
+      }
+      if (/\s/.test(char)) break;
+      if (char === '(') depth++;
+      if (char === ')') {
+        if (depth === 0) break;
+        depth--;
+      }
+      pos++;
+    }
+  }
+
+  pos = skipLinkWhitespace(content, pos, end);
+
+  // Optional title: "title", 'title' or (title)
+  const titleOpen = content[pos];
+  if (titleOpen === '"' || titleOpen === "'" || titleOpen === '(') {
+    const titleClose = titleOpen === '(' ? ')' : titleOpen;
+    let titleEnd = pos + 1;
+    while (titleEnd < end && content[titleEnd] !== titleClose) {
+      titleEnd += content[titleEnd] === '\\' ? 2 : 1;
+    }
+    if (titleEnd >= end) return -1;
+    pos = skipLinkWhitespace(content, titleEnd + 1, end);
+  }
+
+  return content[pos] === ')' && pos < end ? pos + 1 : -1;
+}
+
+/**
+ * Skip spaces, tabs and at most one line ending
+ */
+function skipLinkWhitespace(content: string, pos: number, end: number): number {
+  let sawNewline = false;
+  while (pos < end) {
+    const char = content[pos];
+    if (char === ' ' || char === '\t' || char === '\r') {
+      pos++;
+    } else if (char === '\n' && !sawNewline) {
+      sawNewline = true;
+      pos++;
+    } else {
+      break;
+    }
+  }
+  return pos;
+}
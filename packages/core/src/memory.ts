@@ -0,0 +1,216 @@
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type { AtRefFileSystem, ValidateOptions, ValidationResult, WorkspaceRootOptions } from './types';
+import { nodeFileSystem } from './file-system';
+import { createResolutionCache } from './cache';
+import { findWorkspaceRoot } from './workspace';
+import { validateFile } from './validator';
+import { compileFile, type CompileOptions, type CompileResult } from './compiler';
+import { approximateTokenizer, getTokenReport, type TokenReport, type TokenReportOptions } from './tokens';
+
+/**
+ * Where a memory file comes from:
+ * - 'managed': the organization-wide policy file (see getManagedPolicyPath)
+ * - 'user': ~/.claude/CLAUDE.md, for every project
+ * - 'project': CLAUDE.md or .claude/CLAUDE.md in the directory or one of its parents
+ * - 'local': CLAUDE.local.md in the directory or one of its parents (personal, not checked in)
+ */
+export type MemoryScope = 'managed' | 'user' | 'project' | 'local';
+
+/**
+ * A memory file Claude Code loads at startup
+ */
+export interface MemoryFile {
+  /** Absolute path of the file */
+  filePath: string;
+  /** Where the file comes from */
+  scope: MemoryScope;
+  /** Workspace root of the file (see findWorkspaceRoot) */
+  workspaceRoot: string;
+}
+
+/**
+ * Options for finding memory files
+ */
+export interface MemoryDiscoveryOptions {
+  /** Home directory, for the user memory (default: os.homedir()) */
+  homeDir?: string;
+  /** Path of the managed policy file (default: the platform's, see getManagedPolicyPath) */
+  managedPolicyPath?: string;
+  /** How each memory file's workspace root is found (default: the nearest .git) */
+  rootOptions?: WorkspaceRootOptions;
+  /** File system the files are looked up through (default: nodeFileSystem) */
+  fileSystem?: AtRefFileSystem;
+}
+
+/**
+ * Options for compiling the memory of a directory (the files are always compiled with claudeCompat and relativeToFile)
+ */
+export interface MemoryOptions
+  extends Omit<CompileOptions, 'basePath' | 'outputPath' | 'writeOutput' | 'claudeCompat' | 'relativeToFile'>,
+    Pick<ValidateOptions, 'ignorePatterns' | 'rules'>,
+    MemoryDiscoveryOptions,
+    TokenReportOptions {}
+
+/**
+ * A memory file with its validation, compiled content and size
+ */
+export interface MemoryEntry extends MemoryFile {
+  /** Recursive validation of the file, as Claude Code would load it */
+  validation: ValidationResult;
+  /** The file compiled as Claude Code would load it */
+  compileResult: CompileResult;
+  /** Size of the compiled file and what each imported file contributes */
+  tokens: TokenReport;
+}
+
+/**
+ * Everything Claude Code loads as memory when started in a directory
+ */
+export interface MemoryContext {
+  /** The directory Claude Code is started in */
+  dir: string;
+  /** The memory files, in load order */
+  entries: MemoryEntry[];
+  /** The memory files combined the way Claude Code presents them */
+  compiledContent: string;
+  /** Tokens in compiledContent */
+  totalTokens: number;
+  /** Name of the tokenizer that counted */
+  tokenizer: string;
+  /** The budget, if any */
+  maxTokens?: number;
+  /** Whether totalTokens is over maxTokens */
+  overBudget: boolean;
+}
+
+/**
+ * File names Claude Code loads from the directory it is started in and each of its parents, in order
+ */
+const DIRECTORY_MEMORY_FILES: Array<{ name: string; scope: MemoryScope }> = [
+  { name: 'CLAUDE.md', scope: 'project' },
+  { name: path.join('.claude', 'CLAUDE.md'), scope: 'project' },
+  { name: 'CLAUDE.local.md', scope: 'local' },
+];
+
+/**
+ * How Claude Code introduces the content of each kind of memory file
+ */
+const MEMORY_SCOPE_DESCRIPTIONS: Record<MemoryScope, string> = {
+  managed: 'managed policy instructions',
+  user: "user's private global instructions for all projects",
+  project: 'project instructions, checked into the codebase',
+  local: "user's private project instructions, not checked in",
+};
+
+/**
+ * Get the path of the managed policy memory file on a platform
+ */
+export function getManagedPolicyPath(platform: NodeJS.Platform = process.platform): string {
+  switch (platform) {
+    case 'darwin':
+      return '/Library/Application Support/ClaudeCode/CLAUDE.md';
+    case 'win32':
+      return 'C:\\Program Files\\ClaudeCode\\CLAUDE.md';
+    default:
+      return '/etc/claude-code/CLAUDE.md';
+  }
+}
+
+/**
+ * Find the memory files Claude Code loads when started in dir, in load order: the managed policy,
+ * the user memory, then the memory files of each parent directory from the outermost down to dir
+ * (the filesystem root is not searched). Memory files in subdirectories are only loaded once
+ * Claude reads files there, so they are not included.
+ *
+ * @example findMemoryFiles('/repo/packages/vscode') // ~/.claude/CLAUDE.md, /repo/CLAUDE.md, /repo/packages/vscode/CLAUDE.local.md
+ */
+export function findMemoryFiles(dir: string, options: MemoryDiscoveryOptions = {}): MemoryFile[] {
+  const {
+    homeDir = os.homedir(),
+    managedPolicyPath = getManagedPolicyPath(),
+    rootOptions = {},
+    fileSystem = nodeFileSystem,
+  } = options;
+
+  const directories: string[] = [];
+  for (let current = path.resolve(dir); path.dirname(current) !== current; current = path.dirname(current)) {
+    directories.unshift(current);
+  }
+
+  const candidates: Array<{ filePath: string; scope: MemoryScope }> = [
+    { filePath: managedPolicyPath, scope: 'managed' },
+    { filePath: path.join(homeDir, '.claude', 'CLAUDE.md'), scope: 'user' },
+    ...directories.flatMap(directory =>
+      DIRECTORY_MEMORY_FILES.map(({ name, scope }) => ({ filePath: path.join(directory, name), scope }))
+    ),
+  ];
+
+  // A file found twice (say, the user memory when started in ~/.claude) is loaded once
+  const seen = new Set<string>();
+  const memoryFiles: MemoryFile[] = [];
+  for (const { filePath, scope } of candidates) {
+    const absolutePath = path.resolve(filePath);
+    if (seen.has(absolutePath) || !isFile(absolutePath, fileSystem)) continue;
+    seen.add(absolutePath);
+
+    const workspaceRoot = findWorkspaceRoot(path.dirname(absolutePath), { ...rootOptions, fileSystem });
+    memoryFiles.push({ filePath: absolutePath, scope, workspaceRoot });
+  }
+
+  return memoryFiles;
+}
+
+/**
+ * Validate and compile the memory Claude Code loads when started in dir, as one context.
+ * Each memory file is compiled with claudeCompat, so imports Claude Code would not follow are left out
+ * and reported, and like Claude Code every import resolves relative to the file containing it;
+ * the token report of each file tells what its imports contribute.
+ *
+ * @example
+ * const memory = compileMemory('packages/vscode', { maxTokens: 20000 });
+ * for (const entry of memory.entries) console.log(entry.scope, entry.filePath, entry.tokens.totalTokens);
+ */
+export function compileMemory(dir: string, options: MemoryOptions = {}): MemoryContext {
+  const { tokenizer = approximateTokenizer, maxTokens, cache = createResolutionCache() } = options;
+  const memoryFiles = findMemoryFiles(dir, options);
+
+  const entries = memoryFiles.map((memoryFile): MemoryEntry => {
+    const fileOptions = {
+      ...options,
+      cache,
+      basePath: path.dirname(memoryFile.filePath),
+      claudeCompat: true,
+      relativeToFile: true,
+    };
+    const validation = validateFile(memoryFile.filePath, fileOptions);
+    const compileResult = compileFile(memoryFile.filePath, { ...fileOptions, writeOutput: false });
+    return { ...memoryFile, validation, compileResult, tokens: getTokenReport(compileResult, { tokenizer }) };
+  });
+
+  const compiledContent = entries
+    .map(entry => `Contents of ${entry.filePath} (${MEMORY_SCOPE_DESCRIPTIONS[entry.scope]}):\n\n${entry.compileResult.compiledContent}`)
+    .join('\n\n');
+  const totalTokens = tokenizer.count(compiledContent);
+
+  return {
+    dir: path.resolve(dir),
+    entries,
+    compiledContent,
+    totalTokens,
+    tokenizer: tokenizer.name,
+    maxTokens,
+    overBudget: maxTokens !== undefined && totalTokens > maxTokens,
+  };
+}
+
+/**
+ * Check whether a path is an existing file
+ */
+function isFile(filePath: string, fileSystem: AtRefFileSystem): boolean {
+  try {
+    return fileSystem.exists(filePath) && !fileSystem.stat(filePath).isDirectory;
+  } catch {
+    return false;
+  }
+}
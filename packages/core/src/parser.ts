@@ -1,11 +1,62 @@
 import type { AtReference, ParseOptions } from './types';
+import { parseFragment } from './fragment';
+import { isInsideMarkdownRange, scanMarkdown } from './markdown-scanner';
+
+/**
+ * Regex to match an alias prefix (shared: in @shared:prompts/review.md, npm: in @npm:zod/README.md):
+ * a name and a colon that is not followed by a slash, so URLs (https://...) and Windows paths (C:/...) have none.
+ * Shared by the parser and the resolver (see parseAliasedPath).
+ */
+export const ALIAS_PREFIX_PATTERN = /[\p{L}\p{N}_-]+:(?!\/)/u;
 
 /**
  * Regex to match @ references.
- * Matches @ preceded by start of string, whitespace, or brackets,
- * followed by a path-like string.
+ * Matches @ preceded by start of string, whitespace, or brackets, followed by either
+ * a quoted path (@"docs/Design Notes.md") or a path-like string that may contain
+ * backslash escapes (@docs/Design\ Notes.md), and an optional #fragment
+ * (a line range like #L40-80 or a heading slug like #error-handling).
+ *
+ * Path characters are Unicode-aware (letters, marks and digits in any script),
+ * so @docs/Übersicht.md and @ノート/設計.md are recognised.
+ * Glob wildcards (*, ** and ?) are allowed inside the path, but at the end only
+ * directly after a slash (as in "@docs/" followed by "*"), so emphasis markers and
+ * question marks following a reference are not taken as part of it.
+ * An @ escaped with a backslash (\@scope/package) is never preceded by whitespace,
+ * so it does not match.
+ *
+ * Paths may start with ~/ (the home directory) and contain ${VAR} placeholders
+ * (@~/.claude/notes.md, @${DOCS_DIR}/api.md), which the resolver expands.
+ *
+ * A name and colon before the path (@shared:prompts/review.md) refers to a configured alias root,
+ * or with npm: to an installed package, whose name may be scoped (@npm:@types/node/index.d.ts).
+ *
+ * A ? right after the @ (@?CLAUDE.local.md) marks the reference as optional.
+ *
+ * Groups: 1 = full reference, 2 = optional marker, 3 = quoted path, 4 = unquoted path, 5 = fragment
+ */
+const AT_REFERENCE_PATTERN = new RegExp(
+  String.raw`(?:^|[\s\[\(\{])(@(\?)?(?:"((?:[^"\\\n]|\\.)+)"|((?:${ALIAS_PREFIX_PATTERN.source}(?:@(?=[\p{L}\p{N}]))?)?(?:~\/|\.{0,2}\/)?(?:[\p{L}\p{M}\p{N}_\-./]|\$\{[A-Za-z_][A-Za-z0-9_]*\}|\\[ -\/:-@\[-\x60{-~]|[*?](?=[*?]*[\p{L}\p{M}\p{N}_\-./\\])|(?<=\/)\*+)+))(?:#([\p{L}\p{M}\p{N}_-]+))?)`,
+  'gmu'
+);
+
+/**
+ * Regex to match characters that can appear in an unquoted path without escaping
+ * (after an optional alias prefix)
  */
-const AT_REFERENCE_PATTERN = /(?:^|[\s\[\(\{])(@(?:\.{0,2}\/)?[\w\-./]+)/gm;
+const PLAIN_PATH_PATTERN = new RegExp(String.raw`^(?:${ALIAS_PREFIX_PATTERN.source}@?)?[\p{L}\p{M}\p{N}_\-./]+$`, 'u');
+
+/**
+ * Regex to match ignore region markers: <!-- at-ref-ignore --> starts a region
+ * and <!-- at-ref-ignore-end --> ends it
+ */
+const IGNORE_MARKER_PATTERN = /^<!--\s*at-ref-ignore(-end)?\s*-->$/;
+
+/**
+ * Regex to match directives that suppress validation of references:
+ * <!-- at-ref-disable-next-line -->, <!-- at-ref-disable --> ... <!-- at-ref-enable -->
+ * and <!-- at-ref-disable-file -->
+ */
+const DISABLE_DIRECTIVE_PATTERN = /^<!--\s*at-ref-(disable-next-line|disable-file|disable|enable)\s*-->$/;
 
 /**
  * Regex to detect email addresses
@@ -13,55 +64,128 @@ const AT_REFERENCE_PATTERN = /(?:^|[\s\[\(\{])(@(?:\.{0,2}\/)?[\w\-./]+)/gm;
 const EMAIL_PATTERN = /^[\w.-]+@[\w.-]+\.[a-z]{2,}$/i;
 
 /**
- * Find all code span ranges in the content (backtick enclosed regions)
- * Handles both fenced code blocks (```) and inline code (`)
+ * Find regions between <!-- at-ref-ignore --> and <!-- at-ref-ignore-end --> markers.
+ * A region without an end marker runs to the end of the content.
+ * Markers inside code are not treated as markers.
  */
-function findCodeSpanRanges(content: string): Array<{ start: number; end: number }> {
+export function findIgnoredRanges(content: string): Array<{ start: number; end: number }> {
   const ranges: Array<{ start: number; end: number }> = [];
+  let regionStart: number | null = null;
 
-  // Match fenced code blocks first (``` ... ```) as they take precedence
-  const codeBlockPattern = /```[\s\S]*?```/g;
-  let match: RegExpExecArray | null;
+  for (const range of scanMarkdown(content)) {
+    if (range.kind !== 'html-comment') {
+      continue;
+    }
 
-  while ((match = codeBlockPattern.exec(content)) !== null) {
-    ranges.push({
-      start: match.index,
-      end: match.index + match[0].length,
-    });
+    const match = IGNORE_MARKER_PATTERN.exec(content.slice(range.start, range.end));
+    if (!match) {
+      continue;
+    }
+
+    const isEndMarker = match[1] !== undefined;
+    if (!isEndMarker && regionStart === null) {
+      regionStart = range.start;
+    } else if (isEndMarker && regionStart !== null) {
+      ranges.push({ start: regionStart, end: range.end });
+      regionStart = null;
+    }
   }
 
-  // Match inline code (` ... `) but not inside code blocks
-  // Handles single backticks with non-empty content
-  const inlineCodePattern = /`[^`\n]+`/g;
+  if (regionStart !== null) {
+    ranges.push({ start: regionStart, end: content.length });
+  }
 
-  while ((match = inlineCodePattern.exec(content)) !== null) {
-    const matchStart = match.index;
-    const matchEnd = match.index + match[0].length;
+  return ranges;
+}
 
-    // Check if this inline code is inside a code block
-    const isInsideCodeBlock = ranges.some(
-      range => matchStart >= range.start && matchEnd <= range.end
-    );
+/**
+ * Find the parts of the content where validation is disabled by directives:
+ * the line after <!-- at-ref-disable-next-line -->, regions from <!-- at-ref-disable -->
+ * to <!-- at-ref-enable --> (or the end of the content), and the whole content if it has
+ * <!-- at-ref-disable-file --> anywhere. Unlike at-ref-ignore regions, references inside are
+ * still parsed and compiled; only their validation errors are suppressed.
+ * Directives inside code are not treated as directives.
+ */
+export function findDisabledRanges(content: string): Array<{ start: number; end: number }> {
+  const ranges: Array<{ start: number; end: number }> = [];
+  let regionStart: number | null = null;
 
-    if (!isInsideCodeBlock) {
-      ranges.push({
-        start: matchStart,
-        end: matchEnd,
-      });
+  for (const range of scanMarkdown(content)) {
+    if (range.kind !== 'html-comment') {
+      continue;
     }
+
+    const match = DISABLE_DIRECTIVE_PATTERN.exec(content.slice(range.start, range.end));
+    if (!match) {
+      continue;
+    }
+
+    switch (match[1]) {
+      case 'disable-file':
+        return [{ start: 0, end: content.length }];
+      case 'disable-next-line': {
+        const lineEnd = content.indexOf('\n', range.end);
+        if (lineEnd !== -1) {
+          const nextLineEnd = content.indexOf('\n', lineEnd + 1);
+          ranges.push({ start: lineEnd + 1, end: nextLineEnd === -1 ? content.length : nextLineEnd });
+        }
+        break;
+      }
+      case 'disable':
+        regionStart ??= range.start;
+        break;
+      case 'enable':
+        if (regionStart !== null) {
+          ranges.push({ start: regionStart, end: range.end });
+          regionStart = null;
+        }
+        break;
+    }
+  }
+
+  if (regionStart !== null) {
+    ranges.push({ start: regionStart, end: content.length });
   }
 
   return ranges;
 }
 
 /**
- * Check if an offset falls within any code span
+ * Find the offsets of backslashes that escape an @ outside code (e.g., `\@scope/package`).
+ * An escaped @ is never a reference; the compiler removes the backslash in its output.
  */
-function isInsideCodeSpan(
-  offset: number,
-  codeRanges: Array<{ start: number; end: number }>
-): boolean {
-  return codeRanges.some(range => offset >= range.start && offset < range.end);
+export function findAtEscapes(content: string): number[] {
+  const excludedRanges = scanMarkdown(content);
+  const offsets: number[] = [];
+
+  for (let i = content.indexOf('\\@'); i !== -1; i = content.indexOf('\\@', i + 2)) {
+    if (!isInsideMarkdownRange(i, excludedRanges)) {
+      offsets.push(i);
+    }
+  }
+
+  return offsets;
+}
+
+/**
+ * Remove backslash escapes from a reference path (e.g., "Design\ Notes.md" → "Design Notes.md")
+ */
+function unescapePath(path: string): string {
+  return path.replace(/\\(.)/g, '$1');
+}
+
+/**
+ * Format a path for use after @ in a reference, quoting it when it contains
+ * characters (spaces, parentheses, ...) that the unquoted form does not allow
+ *
+ * @example formatReferencePath('docs/Design Notes (v2).md') // '"docs/Design Notes (v2).md"'
+ */
+export function formatReferencePath(path: string): string {
+  if (PLAIN_PATH_PATTERN.test(path)) {
+    return path;
+  }
+
+  return `"${path.replace(/["\\]/g, '\\$&')}"`;
 }
 
 /**
@@ -69,7 +193,7 @@ function isInsideCodeSpan(
  */
 function isValidReferencePath(path: string): boolean {
   const hasPathSeparator = path.includes('/');
-  const hasExtension = /\.\w+$/.test(path);
+  const hasExtension = /\.[\p{L}\p{M}\p{N}_]+$/u.test(path);
   return hasPathSeparator || hasExtension;
 }
 
@@ -220,7 +344,9 @@ export function extractReferences(
   const { zeroIndexed = false } = options;
   const references: AtReference[] = [];
   const lineOffsets = buildLineOffsets(content);
-  const codeSpanRanges = findCodeSpanRanges(content);
+  const excludedRanges = scanMarkdown(content);
+  const ignoredRanges = findIgnoredRanges(content);
+  const disabledRanges = findDisabledRanges(content);
 
   AT_REFERENCE_PATTERN.lastIndex = 0;
 
@@ -234,8 +360,13 @@ export function extractReferences(
     const leadingChars = fullMatch.length - refMatch.length;
     const refStart = match.index + leadingChars;
 
-    // Skip references inside code spans (backticks)
-    if (isInsideCodeSpan(refStart, codeSpanRanges)) {
+    // Skip references inside code, HTML comments, autolinks and link destinations
+    if (isInsideMarkdownRange(refStart, excludedRanges)) {
+      continue;
+    }
+
+    // Skip references inside <!-- at-ref-ignore --> regions
+    if (isInsideMarkdownRange(refStart, ignoredRanges)) {
       continue;
     }
 
@@ -243,7 +374,8 @@ export function extractReferences(
       continue;
     }
 
-    const path = refMatch.slice(1);
+    const path = unescapePath(match[3] ?? match[4] ?? '');
+    const fragment = match[5] !== undefined ? parseFragment(match[5]) : undefined;
 
     if (!isValidReferencePath(path)) {
       continue;
@@ -251,14 +383,28 @@ export function extractReferences(
 
     const position = offsetToPosition(refStart, lineOffsets, zeroIndexed);
 
-    references.push({
+    const reference: AtReference = {
       raw: refMatch,
       path,
       startIndex: refStart,
       endIndex: refStart + refMatch.length,
       line: position.line,
       column: position.column,
-    });
+    };
+
+    if (fragment) {
+      reference.fragment = fragment;
+    }
+
+    if (match[2] !== undefined) {
+      reference.optional = true;
+    }
+
+    if (isInsideMarkdownRange(refStart, disabledRanges)) {
+      reference.suppressed = true;
+    }
+
+    references.push(reference);
   }
 
   return references;
@@ -1,16 +1,509 @@
-import * as fs from 'node:fs';
+import * as os from 'node:os';
 import * as path from 'node:path';
-import type { ResolveOptions, ResolvedPath } from './types';
+import type {
+  AtRefFileStat,
+  AtRefFileSystem,
+  ReferenceFragment,
+  ResolveOptions,
+  ResolvedPath,
+  SandboxPolicy,
+} from './types';
+import { nodeFileSystem } from './file-system';
+import { formatFragment, getFragmentStartLine } from './fragment';
+import { getResolutionKey, readFileWithCache } from './cache';
+import { ALIAS_PREFIX_PATTERN } from './parser';
 
 /**
- * Resolve a reference path to an absolute filesystem path
+ * Regex to match ${VAR} placeholders in reference paths
+ */
+const ENV_VARIABLE_PATTERN = /\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g;
+
+/**
+ * Regex to match an alias prefix at the start of a reference path (see ALIAS_PREFIX_PATTERN)
+ */
+const LEADING_ALIAS_PREFIX_PATTERN = new RegExp(`^${ALIAS_PREFIX_PATTERN.source}`, 'u');
+
+/**
+ * Scheme of package references (npm:zod/README.md), which resolve inside an installed package
+ */
+export const PACKAGE_SCHEME = 'npm';
+
+/**
+ * Regex to split the path of a package reference into the package name (zod, @types/node) and the path inside it
+ */
+const PACKAGE_PATH_PATTERN = /^((?:@[^/@]+\/)?[^/@.][^/]*)(?:\/+(.*))?$/;
+
+/**
+ * Resolve a reference path to an absolute filesystem path.
+ * A package path (npm:name/path) is resolved inside the installed package (see resolvePackagePath).
+ * An aliased path (name:path) is resolved against the alias roots (see resolveAliasedPath).
+ * A leading ~ and ${VAR} placeholders are expanded first (see expandReferencePath).
+ * When a fragment is given, it is checked against the resolved file.
+ * A glob pattern (see isGlobPattern) is expanded to the sorted list of matching files.
+ * With a sandbox policy, a target (or glob match) outside the allowed roots fails with 'outside-sandbox'.
+ * A path whose casing differs from the file on disk fails with 'case-mismatch' (see checkCasing).
  */
 export function resolvePath(
   refPath: string,
-  options: ResolveOptions = {}
+  options: ResolveOptions = {},
+  fragment?: ReferenceFragment
+): ResolvedPath {
+  const { cache } = options;
+  if (!cache) {
+    return resolveUncachedPath(refPath, options, fragment);
+  }
+
+  // Copies, so callers may adjust the result without changing the cache
+  const key = getResolutionKey(refPath, options, fragment);
+  const cached = cache.resolutions.get(key);
+  if (cached) {
+    return { ...cached };
+  }
+
+  const result = resolveUncachedPath(refPath, options, fragment);
+  cache.resolutions.set(key, { ...result });
+  return result;
+}
+
+function resolveUncachedPath(
+  refPath: string,
+  options: ResolveOptions,
+  fragment?: ReferenceFragment
+): ResolvedPath {
+  const aliased = parseAliasedPath(refPath);
+  if (aliased?.alias === PACKAGE_SCHEME) {
+    return resolvePackagePath(aliased.path, options, fragment);
+  }
+  if (aliased) {
+    return resolveAliasedPath(aliased.alias, aliased.path, options, fragment);
+  }
+
+  const writtenPath = refPath;
+  const expanded = expandReferencePath(refPath, options);
+  if (expanded.undefinedVariable) {
+    return {
+      resolvedPath: expanded.path,
+      exists: false,
+      isDirectory: false,
+      error: `Environment variable ${expanded.undefinedVariable} is not set: ${refPath}`,
+      errorCode: 'undefined-variable',
+    };
+  }
+  refPath = expanded.path;
+
+  if (isGlobPattern(refPath)) {
+    return applySandbox(resolveGlob(refPath, options, fragment), options);
+  }
+
+  const result = applySandbox(checkCasing(resolveFilePath(refPath, options), refPath, writtenPath, options), options);
+
+  if (fragment && result.exists) {
+    return checkFragment(result, fragment, options);
+  }
+
+  return result;
+}
+
+/**
+ * Check a path against a sandbox policy
+ *
+ * @returns An error message if the path is outside the allowed roots (or reached through a
+ * symbolic link that is not allowed), undefined if it may be used
+ */
+export function checkSandbox(
+  targetPath: string,
+  sandbox: SandboxPolicy,
+  fileSystem: AtRefFileSystem = nodeFileSystem
+): string | undefined {
+  const { followSymlinks = true } = sandbox;
+  const roots = sandbox.allowedRoots.map(root => path.resolve(root));
+  const root = roots.find(candidate => isInsideDirectory(targetPath, candidate));
+
+  // The path as written must be inside a root, whether or not it exists
+  if (!root) {
+    return `Reference resolves outside the allowed roots: ${targetPath}`;
+  }
+
+  let realTarget: string;
+  try {
+    realTarget = fileSystem.realpath(targetPath);
+  } catch {
+    return undefined; // Does not exist - nothing to read
+  }
+
+  if (!followSymlinks) {
+    const unlinkedTarget = path.join(realPathOrSelf(root, fileSystem), path.relative(root, targetPath));
+    return realTarget === unlinkedTarget
+      ? undefined
+      : `Reference goes through a symbolic link, which is not allowed: ${targetPath}`;
+  }
+
+  return roots.some(candidate => isInsideDirectory(realTarget, realPathOrSelf(candidate, fileSystem)))
+    ? undefined
+    : `Reference resolves through a symbolic link outside the allowed roots: ${targetPath} -> ${realTarget}`;
+}
+
+/**
+ * Refuse a resolution whose target, or any glob match, is outside the sandbox
+ */
+function applySandbox(result: ResolvedPath, options: ResolveOptions): ResolvedPath {
+  const { sandbox } = options;
+  if (!sandbox) {
+    return result;
+  }
+
+  const candidates = [result.resolvedPath, ...(result.matches ?? [])];
+  for (const candidate of candidates) {
+    const error = checkSandbox(candidate, sandbox, options.fileSystem);
+    if (error) {
+      return {
+        resolvedPath: result.resolvedPath,
+        exists: false,
+        isDirectory: false,
+        error,
+        errorCode: 'outside-sandbox',
+      };
+    }
+  }
+
+  return result;
+}
+
+function isInsideDirectory(filePath: string, dirPath: string): boolean {
+  const relative = path.relative(dirPath, filePath);
+  return relative === '' || (relative.split(path.sep)[0] !== '..' && !path.isAbsolute(relative));
+}
+
+function realPathOrSelf(filePath: string, fileSystem: AtRefFileSystem): string {
+  try {
+    return fileSystem.realpath(filePath);
+  } catch {
+    return filePath;
+  }
+}
+
+/**
+ * Split an aliased reference path into the alias name and the path below the alias root
+ *
+ * @example parseAliasedPath('shared:prompts/review.md') // { alias: 'shared', path: 'prompts/review.md' }
+ */
+export function parseAliasedPath(refPath: string): { alias: string; path: string } | undefined {
+  const match = LEADING_ALIAS_PREFIX_PATTERN.exec(refPath);
+  if (!match) {
+    return undefined;
+  }
+
+  // The prefix without its colon
+  return { alias: match[0].slice(0, -1), path: refPath.slice(match[0].length) };
+}
+
+/**
+ * Get the absolute roots configured for an alias (undefined if the alias is not configured).
+ * Roots may use ~ and ${VAR}.
+ */
+export function getAliasRoots(alias: string, options: ResolveOptions = {}): string[] | undefined {
+  const roots = options.aliases?.[alias];
+  if (roots === undefined) {
+    return undefined;
+  }
+
+  return (Array.isArray(roots) ? roots : [roots]).map(root =>
+    path.resolve(expandReferencePath(root, options).path)
+  );
+}
+
+/**
+ * Resolve a path below an alias root, trying each of the alias's roots in order.
+ * The first root where the target exists wins; if none has it, the result for the first root is returned.
+ */
+function resolveAliasedPath(
+  alias: string,
+  aliasedPath: string,
+  options: ResolveOptions,
+  fragment?: ReferenceFragment
+): ResolvedPath {
+  const roots = getAliasRoots(alias, options);
+  if (!roots || roots.length === 0) {
+    return {
+      resolvedPath: aliasedPath,
+      exists: false,
+      isDirectory: false,
+      error: `Unknown alias "${alias}": ${alias}:${aliasedPath}`,
+      errorCode: 'unknown-alias',
+    };
+  }
+
+  // The path is always relative to the root (a leading / does not escape it), and is not aliased again
+  const relativePath = aliasedPath.replace(/^\/+/, '') || '.';
+  let firstResult: ResolvedPath | undefined;
+
+  for (const root of roots) {
+    const result = withAliasPrefix(
+      resolvePath(relativePath, { ...options, basePath: root, aliases: {} }, fragment),
+      `${alias}:${aliasedPath.slice(0, aliasedPath.length - aliasedPath.replace(/^\/+/, '').length)}`
+    );
+    // A case mismatch only resolves on case-insensitive file systems, so later roots are tried too
+    if (!isMissingTarget(result) && result.errorCode !== 'case-mismatch') {
+      return result;
+    }
+    firstResult ??= result;
+  }
+
+  return firstResult!;
+}
+
+/**
+ * Find the root directory of an installed package the way Node looks up packages: in node_modules
+ * of the directory and each of its parents. Symbolic links (pnpm's node_modules layout) are resolved.
+ *
+ * @returns The real path of the package directory, or undefined if the package is not installed
+ */
+export function findPackageRoot(
+  packageName: string,
+  fromDir: string,
+  fileSystem: AtRefFileSystem = nodeFileSystem
+): string | undefined {
+  let dir = path.resolve(fromDir);
+  while (true) {
+    if (path.basename(dir) !== 'node_modules') {
+      const candidate = path.join(dir, 'node_modules', packageName);
+      try {
+        if (fileSystem.stat(candidate).isDirectory) {
+          return fileSystem.realpath(candidate);
+        }
+      } catch {
+        // Not installed here - try the parent
+      }
+    }
+
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      return undefined;
+    }
+    dir = parent;
+  }
+}
+
+/**
+ * Resolve a path inside an installed package (zod/README.md, @types/node/index.d.ts), looking up
+ * the package from the directory of the referencing file (or basePath). A package that is not
+ * installed fails with 'package-not-found'.
+ */
+function resolvePackagePath(
+  packagePath: string,
+  options: ResolveOptions,
+  fragment?: ReferenceFragment
+): ResolvedPath {
+  const { basePath = process.cwd(), referencingFile, fileSystem = nodeFileSystem } = options;
+  const match = PACKAGE_PATH_PATTERN.exec(packagePath);
+  if (!match) {
+    return {
+      resolvedPath: packagePath,
+      exists: false,
+      isDirectory: false,
+      error: `Invalid package name: ${PACKAGE_SCHEME}:${packagePath}`,
+      errorCode: 'package-not-found',
+    };
+  }
+
+  const packageName = match[1]!;
+  const fromDir = referencingFile ? path.dirname(referencingFile) : basePath;
+  const packageRoot = findPackageRoot(packageName, fromDir, fileSystem);
+  if (!packageRoot) {
+    return {
+      resolvedPath: path.resolve(fromDir, 'node_modules', packageName, match[2] ?? ''),
+      exists: false,
+      isDirectory: false,
+      error: `Package "${packageName}" is not installed (no node_modules/${packageName} in ${fromDir} or its parents): ${PACKAGE_SCHEME}:${packagePath}`,
+      errorCode: 'package-not-found',
+    };
+  }
+
+  // The path is always relative to the package root, and is not aliased again
+  return withAliasPrefix(
+    resolvePath(match[2] || '.', { ...options, basePath: packageRoot, aliases: {} }, fragment),
+    `${PACKAGE_SCHEME}:${packagePath.slice(0, packagePath.length - (match[2] ?? '').length)}`
+  );
+}
+
+function withAliasPrefix(result: ResolvedPath, prefix: string): ResolvedPath {
+  return result.correctedPath === undefined ? result : { ...result, correctedPath: prefix + result.correctedPath };
+}
+
+/**
+ * Expand a leading ~ to the home directory and substitute ${VAR} placeholders from the environment
+ * (both injectable through options, defaulting to os.homedir() and process.env)
+ *
+ * @example expandReferencePath('~/.claude/notes.md', { homeDir: '/home/me' }) // { path: '/home/me/.claude/notes.md' }
+ * @returns The expanded path, and the name of the first variable that is not set (left as-is in the path)
+ */
+export function expandReferencePath(
+  refPath: string,
+  options: Pick<ResolveOptions, 'homeDir' | 'env'> = {}
+): { path: string; undefinedVariable?: string } {
+  const { homeDir = os.homedir(), env = process.env } = options;
+  let expanded = refPath;
+
+  // Like a shell, ~ is expanded before variables (a variable's value is used as-is)
+  if (expanded === '~' || expanded.startsWith('~/')) {
+    expanded = path.join(homeDir, expanded.slice(1));
+  }
+
+  let undefinedVariable: string | undefined;
+  expanded = expanded.replace(ENV_VARIABLE_PATTERN, (placeholder, name: string) => {
+    const value = env[name];
+    if (value === undefined) {
+      undefinedVariable ??= name;
+      return placeholder;
+    }
+    return value;
+  });
+
+  return undefinedVariable ? { path: expanded, undefinedVariable } : { path: expanded };
+}
+
+function resolveFilePath(
+  refPath: string,
+  options: ResolveOptions
 ): ResolvedPath {
-  const { basePath = process.cwd(), tryExtensions = [] } = options;
+  const { basePath = process.cwd(), tryExtensions = [], fileSystem = nodeFileSystem } = options;
+
+  const targetPath = toAbsolutePath(refPath, basePath);
 
+  for (const candidate of getCandidatePaths(targetPath, tryExtensions)) {
+    if (fileSystem.exists(candidate)) {
+      return createResult(candidate, fileSystem);
+    }
+  }
+
+  return {
+    resolvedPath: targetPath,
+    exists: false,
+    isDirectory: false,
+    error: `File not found: ${targetPath}`,
+    errorCode: 'not-found',
+  };
+}
+
+/**
+ * The paths a reference may resolve to, in order: the path itself, with each extension, then its index file
+ */
+function getCandidatePaths(targetPath: string, tryExtensions: string[]): string[] {
+  return [
+    targetPath,
+    ...tryExtensions.map(ext => targetPath + ext),
+    ...tryExtensions.map(ext => path.join(targetPath, `index${ext}`)),
+  ];
+}
+
+/**
+ * Compare the path of a reference (refPath, expanded from writtenPath) with the casing of the files on disk.
+ * On a case-insensitive file system (macOS, Windows) "@docs/Architecture.md" resolves to
+ * docs/architecture.md but breaks elsewhere; on a case-sensitive one it is not found at all.
+ * Either way the result fails with 'case-mismatch' and the path spelled as on disk.
+ */
+function checkCasing(
+  result: ResolvedPath,
+  refPath: string,
+  writtenPath: string,
+  options: ResolveOptions
+): ResolvedPath {
+  if (result.exists ? result.errorCode !== undefined : result.errorCode !== 'not-found') {
+    return result;
+  }
+
+  const { basePath = process.cwd(), tryExtensions = [], fileSystem = nodeFileSystem } = options;
+  const targetPath = toAbsolutePath(refPath, basePath);
+
+  // Only the segments written in the reference are checked (not the directories of basePath
+  // or above a leading ../), and an index file added by tryExtensions is not compared
+  const normalized = path.normalize(refPath).split(/[\\/]/).filter(Boolean);
+  const nameCount = normalized.filter(segment => segment !== '..').length;
+  const anchor = path.isAbsolute(refPath)
+    ? path.parse(targetPath).root
+    : path.resolve(basePath, ...normalized.filter(segment => segment === '..'));
+
+  const candidates = result.exists ? [result.resolvedPath] : getCandidatePaths(targetPath, tryExtensions);
+  for (const candidate of candidates) {
+    const segments = path.relative(anchor, candidate).split(path.sep).filter(Boolean);
+    const onDisk = getOnDiskCasing(anchor, segments, fileSystem);
+    if (!onDisk) {
+      continue;
+    }
+
+    const written = segments.slice(0, nameCount);
+    const mismatch = written.some((segment, i) => onDisk[i]!.slice(0, segment.length) !== segment);
+    if (!mismatch) {
+      return result;
+    }
+
+    const correctedPath = correctCasing(writtenPath, written, onDisk.slice(0, nameCount));
+    return {
+      resolvedPath: candidate,
+      exists: false,
+      isDirectory: false,
+      error: `Case mismatch: ${writtenPath} is spelled ${correctedPath} on disk`,
+      errorCode: 'case-mismatch',
+      correctedPath,
+    };
+  }
+
+  return result;
+}
+
+/**
+ * Find the casing of a path below a directory as it is on disk, preferring an exact match
+ *
+ * @returns The segments as on disk, or undefined if the path does not exist in any casing
+ */
+function getOnDiskCasing(dir: string, segments: string[], fileSystem: AtRefFileSystem): string[] | undefined {
+  const onDisk: string[] = [];
+
+  for (const segment of segments) {
+    let entries: string[];
+    try {
+      entries = fileSystem.readdir(dir);
+    } catch {
+      return undefined;
+    }
+
+    const match = entries.includes(segment)
+      ? segment
+      : entries.find(entry => entry.toLowerCase() === segment.toLowerCase());
+    if (match === undefined) {
+      return undefined;
+    }
+
+    onDisk.push(match);
+    dir = path.join(dir, match);
+  }
+
+  return onDisk;
+}
+
+/**
+ * Rewrite the trailing segments of a reference path with their casing on disk.
+ * A segment completed by tryExtensions (docs/Guide -> docs/guide.md) keeps its written length.
+ */
+function correctCasing(refPath: string, written: string[], onDisk: string[]): string {
+  const parts = refPath.split('/');
+
+  for (let i = parts.length - 1, j = written.length - 1; i >= 0 && j >= 0; i--, j--) {
+    const part = parts[i]!;
+    if (part === '' || part === '.') {
+      j++;
+      continue;
+    }
+    if (part.toLowerCase() !== written[j]!.slice(0, part.length).toLowerCase()) {
+      break;
+    }
+    parts[i] = onDisk[j]!.slice(0, part.length);
+  }
+
+  return parts.join('/');
+}
+
+function toAbsolutePath(refPath: string, basePath: string): string {
   let targetPath: string;
 
   if (path.isAbsolute(refPath)) {
@@ -23,41 +516,158 @@ export function resolvePath(
     targetPath = path.resolve(basePath, refPath);
   }
 
-  targetPath = path.normalize(targetPath);
+  return path.normalize(targetPath);
+}
 
-  if (fs.existsSync(targetPath)) {
-    return createResult(targetPath);
-  }
+/**
+ * Check if a reference path is a glob pattern (contains `*`, `**` or `?`)
+ */
+export function isGlobPattern(refPath: string): boolean {
+  return /[*?]/.test(refPath);
+}
 
-  for (const ext of tryExtensions) {
-    const withExt = targetPath + ext;
-    if (fs.existsSync(withExt)) {
-      return createResult(withExt);
-    }
+/**
+ * Expand a glob reference to the files it matches.
+ * The result exists when at least one file matches (and any fragment matches every file).
+ */
+function resolveGlob(
+  pattern: string,
+  options: ResolveOptions,
+  fragment?: ReferenceFragment
+): ResolvedPath {
+  const { basePath = process.cwd(), fileSystem = nodeFileSystem } = options;
+  const absolutePattern = toAbsolutePath(pattern, basePath);
+  const matches = expandGlob(absolutePattern, fileSystem);
+
+  if (matches.length === 0) {
+    return {
+      resolvedPath: absolutePattern,
+      exists: false,
+      isDirectory: false,
+      error: `No files match pattern: ${absolutePattern}`,
+      errorCode: 'no-matches',
+      matches,
+    };
   }
 
-  for (const ext of tryExtensions) {
-    const indexPath = path.join(targetPath, `index${ext}`);
-    if (fs.existsSync(indexPath)) {
-      return createResult(indexPath);
+  if (fragment) {
+    for (const match of matches) {
+      const checked = checkFragment(createResult(match, fileSystem), fragment, options);
+      if (!checked.exists) {
+        return { ...checked, resolvedPath: absolutePattern, matches };
+      }
     }
   }
 
   return {
-    resolvedPath: targetPath,
-    exists: false,
+    resolvedPath: absolutePattern,
+    exists: true,
     isDirectory: false,
-    error: `File not found: ${targetPath}`,
+    matches,
   };
 }
 
-function createResult(resolvedPath: string): ResolvedPath {
+/**
+ * Find the files matching an absolute glob pattern, sorted by path.
+ * `*` and `?` match within a path segment, `**` matches any number of directories.
+ * Wildcards do not match names starting with a dot, and `**` does not follow symlinked directories.
+ */
+function expandGlob(absolutePattern: string, fileSystem: AtRefFileSystem): string[] {
+  const root = path.parse(absolutePattern).root;
+  const segments = absolutePattern.slice(root.length).split(path.sep).filter(Boolean);
+  const matches = new Set<string>();
+
+  const walk = (dir: string, remaining: string[]): void => {
+    const [segment, ...rest] = remaining;
+    if (segment === undefined) return;
+
+    if (!isGlobPattern(segment)) {
+      const next = path.join(dir, segment);
+      if (rest.length === 0) {
+        if (isFile(next, fileSystem)) matches.add(next);
+      } else {
+        walk(next, rest);
+      }
+      return;
+    }
+
+    let entries: string[];
+    try {
+      entries = fileSystem.readdir(dir);
+    } catch {
+      return;
+    }
+
+    if (segment === '**') {
+      // Zero directories: match the rest here (or every file here, for a trailing **)
+      if (rest.length > 0) {
+        walk(dir, rest);
+      }
+      for (const entry of entries) {
+        if (entry.startsWith('.')) continue;
+        const next = path.join(dir, entry);
+        let stat: AtRefFileStat;
+        try {
+          stat = fileSystem.stat(next);
+        } catch {
+          continue;
+        }
+        if (stat.isDirectory) {
+          if (!stat.isSymbolicLink) walk(next, remaining);
+        } else if (rest.length === 0 && stat.isFile) {
+          matches.add(next);
+        }
+      }
+      return;
+    }
+
+    const segmentPattern = globSegmentToRegExp(segment);
+    for (const entry of entries) {
+      if (entry.startsWith('.') && !segment.startsWith('.')) continue;
+      if (!segmentPattern.test(entry)) continue;
+
+      const next = path.join(dir, entry);
+      if (rest.length === 0) {
+        if (isFile(next, fileSystem)) matches.add(next);
+      } else {
+        walk(next, rest);
+      }
+    }
+  };
+
+  walk(root, segments);
+  return [...matches].sort();
+}
+
+/**
+ * Convert one path segment of a glob to a regex (`*` → any characters, `?` → one character)
+ */
+function globSegmentToRegExp(segment: string): RegExp {
+  const source = [...segment]
+    .map(char => {
+      if (char === '*') return '.*';
+      if (char === '?') return '.';
+      return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${source}$`, 'u');
+}
+
+function isFile(filePath: string, fileSystem: AtRefFileSystem): boolean {
+  try {
+    return fileSystem.stat(filePath).isFile;
+  } catch {
+    return false;
+  }
+}
+
+function createResult(resolvedPath: string, fileSystem: AtRefFileSystem): ResolvedPath {
   try {
-    const stat = fs.statSync(resolvedPath);
+    const stat = fileSystem.stat(resolvedPath);
     return {
       resolvedPath,
       exists: true,
-      isDirectory: stat.isDirectory(),
+      isDirectory: stat.isDirectory,
     };
   } catch {
     return {
@@ -65,10 +675,91 @@ function createResult(resolvedPath: string): ResolvedPath {
       exists: false,
       isDirectory: false,
       error: `Cannot stat file: ${resolvedPath}`,
+      errorCode: 'stat-failed',
     };
   }
 }
 
+/**
+ * Check that a fragment selects something that exists in the resolved file
+ */
+function checkFragment(
+  result: ResolvedPath,
+  fragment: ReferenceFragment,
+  options: ResolveOptions
+): ResolvedPath {
+  const label = `#${formatFragment(fragment)}`;
+
+  if (result.isDirectory) {
+    return {
+      ...result,
+      exists: false,
+      error: `Fragment ${label} cannot be applied to a directory: ${result.resolvedPath}`,
+      errorCode: 'fragment-out-of-range',
+    };
+  }
+
+  let content: string;
+  try {
+    content = readFileWithCache(result.resolvedPath, options);
+  } catch {
+    return {
+      ...result,
+      exists: false,
+      error: `Cannot read file: ${result.resolvedPath}`,
+      errorCode: 'stat-failed',
+    };
+  }
+
+  if (fragment.type === 'heading') {
+    if (getFragmentStartLine(content, fragment) === undefined) {
+      return {
+        ...result,
+        exists: false,
+        error: `Heading ${label} not found in file: ${result.resolvedPath}`,
+        errorCode: 'heading-not-found',
+      };
+    }
+    return result;
+  }
+
+  const lineCount = countLines(content);
+  if (fragment.start < 1 || fragment.end < fragment.start || fragment.end > lineCount) {
+    return {
+      ...result,
+      exists: false,
+      error: `Line range ${label} is outside file (${lineCount} lines): ${result.resolvedPath}`,
+      errorCode: 'fragment-out-of-range',
+    };
+  }
+
+  return result;
+}
+
+/**
+ * Count lines the way an editor does (a trailing newline does not start a new line)
+ */
+function countLines(content: string): number {
+  if (content === '') return 0;
+  const lines = content.split('\n').length;
+  return content.endsWith('\n') ? lines - 1 : lines;
+}
+
+/**
+ * Check if a resolution failed because the target does not exist at all
+ * (as opposed to existing but being unusable, e.g. a fragment that does not match it).
+ * Only such failures are tolerated for optional references; an unset ${VAR} and a package
+ * that is not installed count, since the target is then not available on this machine.
+ */
+export function isMissingTarget(resolved: ResolvedPath): boolean {
+  return (
+    resolved.errorCode === 'not-found' ||
+    resolved.errorCode === 'no-matches' ||
+    resolved.errorCode === 'undefined-variable' ||
+    resolved.errorCode === 'package-not-found'
+  );
+}
+
 /**
  * Check if a path exists
  */
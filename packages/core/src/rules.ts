@@ -0,0 +1,273 @@
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type {
+  AtRefFileSystem,
+  ResolutionCache,
+  ResolvedReference,
+  RuleId,
+  RuleOptions,
+  RuleSettings,
+  RuleSeverity,
+  ValidationWarning,
+} from './types';
+import { nodeFileSystem } from './file-system';
+import { readFileWithCache } from './cache';
+import { getClaudeCompatIssue } from './claude-compat';
+
+/**
+ * Regex to match absolute paths inside a home directory on macOS, Linux and Windows
+ */
+const HOME_DIRECTORY_PATH_PATTERN = /^(?:\/Users\/|\/home\/|[A-Za-z]:[\\/]Users[\\/])[^\\/]+[\\/]/;
+
+/**
+ * Regex to match paths starting with a home directory variable
+ */
+const HOME_VARIABLE_PATTERN = /^\$\{(?:HOME|USERPROFILE)\}/;
+
+/**
+ * Regex to match Windows absolute paths (C:\... or C:/...)
+ */
+const WINDOWS_ABSOLUTE_PATH_PATTERN = /^[A-Za-z]:[\\/]/;
+
+/**
+ * Severities a rule can be set to
+ */
+export const RULE_SEVERITIES: RuleSeverity[] = ['off', 'warn', 'error'];
+
+/**
+ * Options of every rule, for the options a setting leaves out
+ */
+const DEFAULT_RULE_OPTIONS: Required<RuleOptions> = {
+  extensions: ['.md'],
+  max: 5,
+};
+
+/**
+ * What a rule gets to check a reference with
+ */
+export interface RuleContext {
+  /** File containing the reference (if known) */
+  filePath?: string;
+  /** How deep the file is nested below the validated file (1 for the validated file itself) */
+  depth: number;
+  /** The rule's options, with defaults for those that are not configured */
+  options: Required<RuleOptions>;
+  /** Home directory (default: os.homedir()) */
+  homeDir: string;
+  /** File system the files are read through */
+  fileSystem: AtRefFileSystem;
+  /** Cache the files are read through, if any */
+  cache?: ResolutionCache;
+}
+
+/**
+ * A validation rule
+ */
+export interface RuleDefinition {
+  /** Id used in settings and reported with each warning */
+  id: RuleId;
+  /** What the rule reports */
+  description: string;
+  /** Severity when the rule is not configured */
+  defaultSeverity: RuleSeverity;
+  /** Options the rule takes */
+  options: Array<keyof RuleOptions>;
+  /** Check a reference, returning a message for a violation */
+  check(ref: ResolvedReference, context: RuleContext): string | undefined;
+}
+
+/**
+ * The validation rules, in the order their warnings are reported for a reference
+ */
+export const RULES: RuleDefinition[] = [
+  {
+    id: 'machine-specific-path',
+    description: 'References to home directory paths in files committed to a git repository',
+    defaultSeverity: 'warn',
+    options: [],
+    // Optional references (@?~/...) are meant for per-machine files
+    check: (ref, { filePath, homeDir, fileSystem }) =>
+      !ref.optional &&
+      filePath !== undefined &&
+      isMachineSpecificPath(ref.path, homeDir) &&
+      isInGitRepository(filePath, fileSystem)
+        ? `Reference to a home directory path will not resolve on other machines: ${ref.path}`
+        : undefined,
+  },
+  {
+    id: 'directory-reference',
+    description: 'References to directories',
+    defaultSeverity: 'off',
+    options: [],
+    check: (ref) =>
+      ref.resolution.exists && ref.resolution.isDirectory ? `Reference to a directory: ${ref.path}` : undefined,
+  },
+  {
+    id: 'absolute-path',
+    description: 'References written as absolute paths',
+    defaultSeverity: 'off',
+    options: [],
+    check: (ref) =>
+      path.isAbsolute(ref.path) || WINDOWS_ABSOLUTE_PATH_PATTERN.test(ref.path)
+        ? `Absolute path will not resolve in other checkouts: ${ref.path}`
+        : undefined,
+  },
+  {
+    id: 'self-reference',
+    description: 'Files that reference themselves',
+    defaultSeverity: 'warn',
+    options: [],
+    // Globs skip the referencing file
+    check: (ref, { filePath }) =>
+      filePath !== undefined && !ref.resolution.matches && ref.resolution.resolvedPath === path.resolve(filePath)
+        ? `File references itself: ${ref.path}`
+        : undefined,
+  },
+  {
+    id: 'binary-target',
+    description: 'References to binary files, which cannot be inlined as text',
+    defaultSeverity: 'warn',
+    options: [],
+    check: (ref, context) => {
+      const binaryFile = getTargetFiles(ref).find(file => isBinaryFile(file, context));
+      return binaryFile !== undefined ? `Reference to a binary file: ${binaryFile}` : undefined;
+    },
+  },
+  {
+    id: 'disallowed-extension',
+    description: 'References to files with an extension outside the extensions option',
+    defaultSeverity: 'off',
+    options: ['extensions'],
+    check: (ref, { options }) => {
+      const allowed = options.extensions.map(extension => extension.toLowerCase());
+      const disallowed = getTargetFiles(ref).find(file => !allowed.includes(path.extname(file).toLowerCase()));
+      if (disallowed === undefined) {
+        return undefined;
+      }
+      const extension = path.extname(disallowed) || 'no extension';
+      return `Reference to a file with ${extension} (allowed: ${options.extensions.join(', ')}): ${ref.path}`;
+    },
+  },
+  {
+    id: 'max-depth',
+    description: 'References nested deeper than the max option below the validated file',
+    defaultSeverity: 'off',
+    options: ['max'],
+    check: (ref, { depth, options }) =>
+      depth > options.max ? `Reference is nested ${depth} levels deep (max ${options.max}): ${ref.path}` : undefined,
+  },
+  {
+    id: 'claude-compat',
+    description: "References that resolve on disk but that Claude Code's memory loader would not load",
+    defaultSeverity: 'off',
+    options: [],
+    check: (ref, { filePath, depth, homeDir, fileSystem, cache }) => {
+      const issue = getClaudeCompatIssue(ref, depth, { referencingFile: filePath, homeDir, fileSystem, cache });
+      return issue !== undefined ? `${issue}: ${ref.path}` : undefined;
+    },
+  },
+];
+
+/**
+ * Get the severity and options a rule is configured with, falling back to its defaults
+ */
+export function getRuleSetting(
+  rule: RuleDefinition,
+  rules: RuleSettings = {}
+): { severity: RuleSeverity; options: Required<RuleOptions> } {
+  const setting = rules[rule.id] ?? rule.defaultSeverity;
+  const [severity, options = {}] = Array.isArray(setting) ? setting : [setting];
+  return { severity, options: { ...DEFAULT_RULE_OPTIONS, ...options } };
+}
+
+/**
+ * Check the references of one file against the rules that are not off.
+ * References covered by an at-ref-disable directive are not checked.
+ *
+ * @returns Warnings in reference order, with the severity each rule is configured with
+ */
+export function checkRules(
+  references: ResolvedReference[],
+  options: {
+    filePath?: string;
+    depth?: number;
+    rules?: RuleSettings;
+    homeDir?: string;
+    fileSystem?: AtRefFileSystem;
+    cache?: ResolutionCache;
+  }
+): ValidationWarning[] {
+  const { filePath, depth = 1, homeDir = os.homedir(), fileSystem = nodeFileSystem, cache } = options;
+  const enabledRules = RULES.map(rule => ({ rule, ...getRuleSetting(rule, options.rules) })).filter(
+    ({ severity }) => severity !== 'off'
+  );
+  const warnings: ValidationWarning[] = [];
+
+  for (const ref of references) {
+    if (ref.suppressed) continue;
+
+    for (const { rule, severity, options: ruleOptions } of enabledRules) {
+      const message = rule.check(ref, { filePath, depth, options: ruleOptions, homeDir, fileSystem, cache });
+      if (message !== undefined) {
+        warnings.push({
+          ruleId: rule.id,
+          severity: severity as Exclude<RuleSeverity, 'off'>,
+          message,
+          reference: ref,
+          filePath,
+        });
+      }
+    }
+  }
+
+  return warnings;
+}
+
+/**
+ * Files a reference imports: the file itself, or a glob's matches (directories are left out)
+ */
+function getTargetFiles(ref: ResolvedReference): string[] {
+  const { resolution } = ref;
+  if (resolution.matches) return resolution.matches;
+  return resolution.exists && !resolution.isDirectory ? [resolution.resolvedPath] : [];
+}
+
+/**
+ * Check whether a file looks binary (NUL characters at the start); files that cannot be read are not
+ */
+function isBinaryFile(filePath: string, options: Pick<RuleContext, 'cache' | 'fileSystem'>): boolean {
+  try {
+    return readFileWithCache(filePath, options).slice(0, 8000).includes('\0');
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check if a reference path points into a home directory (~/..., ${HOME}/..., /Users/name/...)
+ */
+function isMachineSpecificPath(refPath: string, homeDir: string): boolean {
+  if (refPath === '~' || refPath.startsWith('~/')) return true;
+  if (HOME_VARIABLE_PATTERN.test(refPath) || HOME_DIRECTORY_PATH_PATTERN.test(refPath)) return true;
+
+  // Absolute paths under this machine's home directory (unless it is the filesystem root)
+  if (path.isAbsolute(refPath) && path.dirname(homeDir) !== homeDir) {
+    const relative = path.relative(homeDir, refPath);
+    return !relative.startsWith('..') && !path.isAbsolute(relative);
+  }
+
+  return false;
+}
+
+/**
+ * Check if a file is inside a git work tree (a parent directory contains .git)
+ */
+function isInGitRepository(filePath: string, fileSystem: AtRefFileSystem): boolean {
+  let dir = path.dirname(filePath);
+  while (true) {
+    if (fileSystem.exists(path.join(dir, '.git'))) return true;
+    const parent = path.dirname(dir);
+    if (parent === dir) return false;
+    dir = parent;
+  }
+}
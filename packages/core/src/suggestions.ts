@@ -0,0 +1,195 @@
+import * as path from 'node:path';
+import type { AtRefFileSystem } from './types';
+import { nodeFileSystem } from './file-system';
+import { parseAliasedPath } from './resolver';
+
+/**
+ * Entries left out of the file index: dotfiles and dependency or build folders
+ */
+const DEFAULT_INDEX_IGNORE_PATTERNS = [/(^|\/)\./, /(^|\/)(node_modules|dist)(\/|$)/];
+
+/**
+ * Default number of suggestions per reference
+ */
+const DEFAULT_SUGGESTION_LIMIT = 3;
+
+/**
+ * Options for suggesting replacements for a broken reference
+ */
+export interface SuggestOptions {
+  /** Base path the reference is resolved against (default: cwd) */
+  basePath?: string;
+  /** Maximum number of suggestions (default: 3) */
+  limit?: number;
+}
+
+/**
+ * List the files below a directory to suggest replacements from (see suggestReferencePaths),
+ * leaving out dotfiles, node_modules and dist
+ *
+ * @returns Absolute paths, sorted
+ */
+export function listWorkspaceFiles(
+  rootDir: string,
+  options: { fileSystem?: AtRefFileSystem; ignorePatterns?: RegExp[] } = {}
+): string[] {
+  const { fileSystem = nodeFileSystem, ignorePatterns = [] } = options;
+  const patterns = [...DEFAULT_INDEX_IGNORE_PATTERNS, ...ignorePatterns];
+  const files: string[] = [];
+
+  const walk = (dir: string, relativeDir: string): void => {
+    let names: string[];
+    try {
+      names = fileSystem.readdir(dir);
+    } catch {
+      return;
+    }
+
+    for (const name of names) {
+      const relativePath = relativeDir ? `${relativeDir}/${name}` : name;
+      if (patterns.some(pattern => pattern.test(relativePath))) continue;
+
+      const fullPath = path.join(dir, name);
+      try {
+        const stat = fileSystem.stat(fullPath);
+        if (stat.isDirectory && !stat.isSymbolicLink) {
+          walk(fullPath, relativePath);
+        } else if (stat.isFile) {
+          files.push(fullPath);
+        }
+      } catch {
+        // Broken symbolic link - not a candidate
+      }
+    }
+  };
+
+  walk(path.resolve(rootDir), '');
+  return files.sort();
+}
+
+/**
+ * Suggest existing files for a reference path that was not found ("did you mean ..."), best first.
+ * Candidates are files whose path and file name are a small edit away (a typo like API_CONVENTION.md for
+ * API_CONVENTIONS.md) and files with the same name in another directory (a moved file or directory).
+ * Aliased paths and paths with ~ or ${VAR} get no suggestions.
+ *
+ * @param files - Absolute paths of the existing files (see listWorkspaceFiles)
+ * @returns Reference paths, written the way the reference was (relative, ./ or absolute)
+ */
+export function suggestReferencePaths(refPath: string, files: string[], options: SuggestOptions = {}): string[] {
+  const { basePath = process.cwd(), limit = DEFAULT_SUGGESTION_LIMIT } = options;
+  if (parseAliasedPath(refPath) || refPath.startsWith('~') || refPath.includes('${')) {
+    return [];
+  }
+
+  const isAbsolute = path.isAbsolute(refPath);
+  const withoutExtension = path.extname(refPath) === '';
+  const target = normalizeForComparison(refPath.replace(/^\.\//, ''), withoutExtension);
+  const targetDirs = target.split('/').slice(0, -1);
+  const targetName = target.split('/').pop()!;
+  const targetStem = removeExtension(targetName);
+  const maxDistance = Math.max(2, Math.floor(target.length / 4));
+  // The file name must be close too, so a short name does not suggest every other short name beside it
+  const maxNameDistance = Math.floor(targetStem.length / 3);
+
+  const candidates: Array<{ suggestion: string; score: number }> = [];
+
+  for (const file of files) {
+    const relative = isAbsolute ? file : path.relative(basePath, file);
+    const candidate = normalizeForComparison(relative, withoutExtension);
+    const candidateDirs = candidate.split('/').slice(0, -1);
+    const candidateName = candidate.split('/').pop()!;
+
+    let score = levenshtein(target, candidate, maxDistance);
+    const isTypo =
+      score <= maxDistance &&
+      levenshtein(targetStem, removeExtension(candidateName), maxNameDistance) <= maxNameDistance;
+
+    // Same file name elsewhere: the file or one of its directories moved.
+    // Scored by the directories that differ, so the closest location ranks first.
+    const isMoved = candidateName === targetName;
+    if (isMoved) {
+      score = Math.min(score, directoryDistance(targetDirs, candidateDirs) + 0.5);
+    }
+
+    if (isMoved || isTypo) {
+      candidates.push({ suggestion: formatSuggestion(relative, refPath, withoutExtension), score });
+    }
+  }
+
+  return candidates
+    .sort((a, b) => a.score - b.score || a.suggestion.localeCompare(b.suggestion))
+    .slice(0, limit)
+    .map(candidate => candidate.suggestion);
+}
+
+/**
+ * Lowercase a path with / separators (and without its extension, to compare with an extensionless reference)
+ */
+function normalizeForComparison(filePath: string, withoutExtension: boolean): string {
+  const normalized = filePath.split(path.sep).join('/').toLowerCase();
+  return withoutExtension ? normalized.slice(0, normalized.length - path.extname(normalized).length) : normalized;
+}
+
+/**
+ * A file name without its extension
+ */
+function removeExtension(fileName: string): string {
+  return fileName.slice(0, fileName.length - path.extname(fileName).length);
+}
+
+/**
+ * Write a suggested file the way the reference was written (keeping ./ and leaving out
+ * the extension if the reference had none)
+ */
+function formatSuggestion(relative: string, refPath: string, withoutExtension: boolean): string {
+  let suggestion = relative.split(path.sep).join('/');
+  if (withoutExtension) {
+    suggestion = suggestion.slice(0, suggestion.length - path.extname(suggestion).length);
+  }
+  if (refPath.startsWith('./') && !suggestion.startsWith('../')) {
+    suggestion = `./${suggestion}`;
+  }
+  return suggestion;
+}
+
+/**
+ * Number of directories added or removed to get from one directory list to another
+ */
+function directoryDistance(a: string[], b: string[]): number {
+  // Longest common subsequence of the directory names
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      lengths[i]![j] = a[i - 1] === b[j - 1]
+        ? lengths[i - 1]![j - 1]! + 1
+        : Math.max(lengths[i - 1]![j]!, lengths[i]![j - 1]!);
+    }
+  }
+  return a.length + b.length - 2 * lengths[a.length]![b.length]!;
+}
+
+/**
+ * Edit distance between two strings, or a value above max once it is known to exceed it
+ */
+function levenshtein(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) {
+    return max + 1;
+  }
+
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j]! + 1, current[j - 1]! + 1, previous[j - 1]! + cost);
+      rowMin = Math.min(rowMin, current[j]!);
+    }
+    if (rowMin > max) {
+      return max + 1;
+    }
+    previous = current;
+  }
+  return previous[b.length]!;
+}
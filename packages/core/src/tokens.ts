@@ -0,0 +1,134 @@
+import * as path from 'node:path';
+import type { CompileResult } from './compiler';
+
+/**
+ * Counts the tokens in text. Plug in a tokenizer that matches the model the files are for;
+ * the default is an offline estimate (see approximateTokenizer).
+ */
+export interface Tokenizer {
+  /** Name shown in reports */
+  name: string;
+  /** Number of tokens in the text */
+  count(text: string): number;
+}
+
+/**
+ * Options for token reports
+ */
+export interface TokenReportOptions {
+  /** Tokenizer to count with (default: approximateTokenizer) */
+  tokenizer?: Tokenizer;
+  /** Token budget for the compiled entrypoint (default: no budget) */
+  maxTokens?: number;
+}
+
+/**
+ * Tokens that one file adds to a compiled entrypoint
+ */
+export interface TokenContribution {
+  /** The inlined file (or directory, for its listing), or the entrypoint itself */
+  filePath: string;
+  /** Tokens of the file's own content and wrappers, without the files it inlines in turn */
+  tokens: number;
+}
+
+/**
+ * Size of a compiled entrypoint in tokens
+ */
+export interface TokenReport {
+  /** The entrypoint that was compiled */
+  filePath: string;
+  /** Tokens in the compiled output */
+  totalTokens: number;
+  /** What each file adds, largest first (the contributions add up to about totalTokens) */
+  contributions: TokenContribution[];
+  /** Name of the tokenizer that counted */
+  tokenizer: string;
+  /** The budget, if any */
+  maxTokens?: number;
+  /** Whether totalTokens is over maxTokens */
+  overBudget: boolean;
+}
+
+/**
+ * Regex to split text into pieces counted separately: single CJK characters (about a token each),
+ * runs of letters and digits, and single punctuation characters
+ */
+const TOKEN_PIECE_PATTERN =
+  /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]|[\p{L}\p{M}\p{N}]+|[^\s\p{L}\p{M}\p{N}]/gu;
+
+/**
+ * Average number of characters per token in a run of letters and digits
+ */
+const CHARACTERS_PER_TOKEN = 4;
+
+/**
+ * Offline token estimate that needs no model files: about four characters per token in words,
+ * a token per punctuation character and a token per CJK character. Close to BPE tokenizers
+ * for English prose and markdown; expect it to be off by 10-20% for code.
+ */
+export const approximateTokenizer: Tokenizer = {
+  name: 'approximate',
+  count(text: string): number {
+    let tokens = 0;
+    for (const [piece] of text.matchAll(TOKEN_PIECE_PATTERN)) {
+      tokens += piece.length > 1 ? Math.ceil(piece.length / CHARACTERS_PER_TOKEN) : 1;
+    }
+    return tokens;
+  },
+};
+
+/**
+ * Count the tokens in text
+ */
+export function estimateTokens(text: string, tokenizer: Tokenizer = approximateTokenizer): number {
+  return tokenizer.count(text);
+}
+
+/**
+ * Measure a compiled entrypoint: its total size in tokens and what each inlined file contributes
+ * (from the compiled content of each reference, less the files that file inlines itself)
+ *
+ * @example
+ * const report = getTokenReport(compileFile('CLAUDE.md', { writeOutput: false }), { maxTokens: 20000 });
+ * if (report.overBudget) console.log(report.contributions.slice(0, 5));
+ */
+export function getTokenReport(result: CompileResult, options: TokenReportOptions = {}): TokenReport {
+  const { tokenizer = approximateTokenizer, maxTokens } = options;
+  const entrypoint = path.resolve(result.inputPath);
+  const totalTokens = tokenizer.count(result.compiledContent);
+
+  // Per file: tokens of all its inlined copies, and of the files inlined into those copies
+  const inlinedTokens = new Map<string, number>();
+  const nestedTokens = new Map<string, number>();
+  const add = (map: Map<string, number>, filePath: string, tokens: number) =>
+    map.set(filePath, (map.get(filePath) ?? 0) + tokens);
+
+  for (const ref of result.references) {
+    // Duplicates replaced by a stub (optimizeDuplicates) have empty content
+    if (!ref.found || !ref.content) continue;
+    const tokens = tokenizer.count(ref.content);
+    add(inlinedTokens, ref.resolvedPath, tokens);
+    if (ref.importedFrom) {
+      add(nestedTokens, ref.importedFrom, tokens);
+    }
+  }
+
+  const contributions: TokenContribution[] = [
+    { filePath: entrypoint, tokens: Math.max(0, totalTokens - (nestedTokens.get(entrypoint) ?? 0)) },
+  ];
+  for (const [filePath, tokens] of inlinedTokens) {
+    if (filePath === entrypoint) continue;
+    contributions.push({ filePath, tokens: Math.max(0, tokens - (nestedTokens.get(filePath) ?? 0)) });
+  }
+  contributions.sort((a, b) => b.tokens - a.tokens || a.filePath.localeCompare(b.filePath));
+
+  return {
+    filePath: entrypoint,
+    totalTokens,
+    contributions,
+    tokenizer: tokenizer.name,
+    maxTokens,
+    overBudget: maxTokens !== undefined && totalTokens > maxTokens,
+  };
+}
@@ -15,6 +15,8 @@ export interface TreeNode {
   error?: string;
   /** Whether this is a circular reference */
   circular?: boolean;
+  /** Whether this optional reference was dropped because its target is missing */
+  skipped?: boolean;
   /** Import count (how many times this file is imported) */
   importCount: number;
   /** First parent that imported this file */
@@ -67,6 +69,7 @@ export function buildReferenceTree(
       found: ref.found,
       error: ref.error,
       circular: ref.circular,
+      skipped: ref.skipped,
       importCount: ref.importCount || 1,
       firstImportedFrom: firstSeen,
       children: children.map(child => buildNode(child, depth + 1, seenFiles)),
@@ -122,6 +125,9 @@ export function formatTree(
     if (node.circular) {
       status = ` ${c.red}⚠️  (circular)${c.reset}`;
       color = c.red;
+    } else if (node.skipped) {
+      status = ` ${c.dim}(optional, missing)${c.reset}`;
+      color = c.dim;
     } else if (!node.found) {
       status = ` ${c.red}✗${c.reset}`;
       color = c.red;
@@ -144,7 +150,7 @@ export function formatTree(
     lines.push(line);
 
     // Error details
-    if (node.error && !node.circular) {
+    if (node.error && !node.circular && !node.skipped) {
       const errorPrefix = prefix + (isLast ? emptySpace : verticalLine);
       lines.push(`${errorPrefix}   ${c.red}${node.error}${c.reset}`);
     }
@@ -1,11 +1,34 @@
+/**
+ * Fragment selecting part of the referenced file (e.g., "#L40-80" or "#error-handling")
+ */
+export type ReferenceFragment =
+  | {
+      type: 'lines';
+      /** First selected line (1-indexed, inclusive) */
+      start: number;
+      /** Last selected line (1-indexed, inclusive) */
+      end: number;
+    }
+  | {
+      type: 'heading';
+      /** Heading slug (GitHub-style, e.g., "error-handling") */
+      slug: string;
+    };
+
 /**
  * A parsed @ reference from text
  */
 export interface AtReference {
-  /** The full matched string including @ (e.g., "@src/index.ts") */
+  /** The full matched string including @, as written (e.g., "@src/index.ts#L10-20", "@\"My Notes.md\"", "@?local.md") */
   raw: string;
-  /** The path portion without @ (e.g., "src/index.ts") */
+  /** The unescaped path portion without @, quotes or fragment (e.g., "src/index.ts", "My Notes.md") */
   path: string;
+  /** Fragment selecting part of the file, if present */
+  fragment?: ReferenceFragment;
+  /** Whether the reference is optional (@?path) - a missing target is not an error */
+  optional?: boolean;
+  /** Whether validation errors are suppressed by an at-ref-disable directive (see findDisabledRanges) */
+  suppressed?: boolean;
   /** Character offset from start of source */
   startIndex: number;
   /** Character offset of end of match */
@@ -24,28 +47,156 @@ export interface ParseOptions {
   zeroIndexed?: boolean;
 }
 
+/**
+ * File metadata from AtRefFileSystem.stat
+ */
+export interface AtRefFileStat {
+  /** Whether the path is a file (following symbolic links) */
+  isFile: boolean;
+  /** Whether the path is a directory (following symbolic links) */
+  isDirectory: boolean;
+  /** Whether the path itself is a symbolic link */
+  isSymbolicLink: boolean;
+}
+
+/**
+ * The file system that references are resolved against and read from.
+ * Paths are absolute; every method except exists throws if the path does not exist.
+ */
+export interface AtRefFileSystem {
+  /** Check if a file or directory exists */
+  exists(filePath: string): boolean;
+  /** Get file metadata */
+  stat(filePath: string): AtRefFileStat;
+  /** Read a file as UTF-8 text */
+  readFile(filePath: string): string;
+  /** List the names of the entries in a directory */
+  readdir(dirPath: string): string[];
+  /** Resolve symbolic links to the canonical path */
+  realpath(filePath: string): string;
+}
+
 /**
  * Options for resolving paths
  */
 export interface ResolveOptions {
   /** Base path for resolving relative references (default: cwd) */
   basePath?: string;
+  /** File containing the reference; package references (npm:zod/README.md) are looked up from its directory (default: basePath) */
+  referencingFile?: string;
   /** Extensions to try when file not found (e.g., ['.ts', '.tsx', '.js']) */
   tryExtensions?: string[];
+  /** Home directory that a leading ~ expands to (default: os.homedir()) */
+  homeDir?: string;
+  /** Environment used to substitute ${VAR} in paths (default: process.env) */
+  env?: Record<string, string | undefined>;
+  /**
+   * Named roots for aliased references (e.g., { shared: '../prompts' } for "@shared:review.md").
+   * With several roots, the first one containing the target is used, like tsconfig paths.
+   * Relative roots are resolved against the current working directory.
+   */
+  aliases?: Record<string, string | string[]>;
+  /**
+   * Where references may resolve: targets outside the allowed roots (including through
+   * symbolic links) fail with 'outside-sandbox' (default: no restriction)
+   */
+  sandbox?: SandboxPolicy;
+  /** File system to resolve and read references with (default: nodeFileSystem; compiled output is always written to disk) */
+  fileSystem?: AtRefFileSystem;
+  /**
+   * Resolutions and file contents to reuse across calls (see createResolutionCache).
+   * A cache must only be shared between calls with the same file system and environment.
+   */
+  cache?: ResolutionCache;
+}
+
+/**
+ * Resolutions and file contents shared by the validator, compiler and dependency graph
+ */
+export interface ResolutionCache {
+  /** Resolved references by base path, reference path, fragment and resolve options */
+  resolutions: Map<string, ResolvedPath>;
+  /** File contents by absolute path */
+  contents: Map<string, string>;
+  /**
+   * Forget what may have changed: with a path, the file's content and resolutions to it
+   * (after the file was edited); without one, everything (after files were created, deleted or renamed)
+   */
+  invalidate(filePath?: string): void;
+}
+
+/**
+ * Restricts which files references may resolve to
+ */
+export interface SandboxPolicy {
+  /** Directories references may resolve into (relative roots are resolved against the working directory) */
+  allowedRoots: string[];
+  /**
+   * Whether to follow symbolic links (default: true). A followed link's real target must also be
+   * inside an allowed root; when links are not followed, any target reached through one is refused.
+   */
+  followSymlinks?: boolean;
 }
 
+/**
+ * How a reference to a directory (e.g., "@src/") is expanded:
+ * - 'tree': a tree-style listing of the directory
+ * - 'contents': the listing followed by the contents of every file inside
+ * - 'index': the directory's index file (index.md, README.md, or index + tryExtensions)
+ */
+export type DirectoryMode = 'tree' | 'contents' | 'index';
+
+/**
+ * Options for expanding directory references
+ */
+export interface DirectoryOptions {
+  /** How directory references are expanded (default: 'tree') */
+  directoryMode?: DirectoryMode;
+  /** How many levels below the directory to list (default: 3, 1 = direct children only) */
+  directoryMaxDepth?: number;
+  /**
+   * Patterns for entries to leave out, tested against the path relative to the directory
+   * with / separators (dotfiles and node_modules are always left out)
+   */
+  directoryIgnorePatterns?: RegExp[];
+}
+
+/**
+ * Reason a reference failed to resolve
+ */
+export type ResolutionErrorCode =
+  | 'not-found'
+  | 'stat-failed'
+  | 'fragment-out-of-range'
+  | 'heading-not-found'
+  | 'no-matches'
+  | 'no-index'
+  | 'undefined-variable'
+  | 'unknown-alias'
+  | 'outside-sandbox'
+  | 'case-mismatch'
+  | 'package-not-found';
+
 /**
  * Result of resolving a reference path
  */
 export interface ResolvedPath {
-  /** The absolute resolved path */
+  /** The absolute resolved path (for a glob, the absolute pattern) */
   resolvedPath: string;
-  /** Whether the file/directory exists */
+  /** Whether the file/directory exists (and any fragment matches it); for a glob, whether anything matched */
   exists: boolean;
   /** Whether the path is a directory */
   isDirectory: boolean;
   /** Error message if resolution failed */
   error?: string;
+  /** Machine-readable reason if resolution failed */
+  errorCode?: ResolutionErrorCode;
+  /** For glob references (e.g., "docs/*.md"): the matching files as absolute paths, sorted */
+  matches?: string[];
+  /** For 'case-mismatch': the reference path spelled with the casing on disk (e.g., "docs/architecture.md") */
+  correctedPath?: string;
+  /** For 'not-found': existing files the reference may have meant, as reference paths, best first (see ValidateOptions.suggestionFiles) */
+  suggestions?: string[];
 }
 
 /**
@@ -59,15 +210,102 @@ export interface ResolvedReference extends AtReference {
 /**
  * Options for validation
  */
-export interface ValidateOptions extends ResolveOptions {
+export interface ValidateOptions extends ResolveOptions, DirectoryOptions {
   /** Patterns to ignore (references matching these won't be validated) */
   ignorePatterns?: RegExp[];
   /** Use shallow validation (non-recursive) - only check direct references */
   shallow?: boolean;
   /** Current file path being validated (used for recursive validation) */
   currentFilePath?: string;
+  /**
+   * Severity and options of each validation rule (see RULES for the rules and their default severities),
+   * as 'off', 'warn' or 'error', or a tuple like ['error', { max: 3 }]
+   */
+  rules?: RuleSettings;
+  /**
+   * Validate the way Claude Code loads memory files: references more than CLAUDE_MAX_IMPORT_DEPTH hops deep
+   * are not followed, and references Claude Code would not load are reported by the 'claude-compat' rule,
+   * as errors unless rules configures it (default: false)
+   */
+  claudeCompat?: boolean;
+  /** Resolve relative references from the directory of the file containing them instead of basePath (default: false) */
+  relativeToFile?: boolean;
+  /**
+   * Existing files (absolute paths, see listWorkspaceFiles) to suggest from when a reference
+   * is not found; the suggestions are set on its resolution (default: no suggestions).
+   * A function is only called once a reference is not found, so the files are not listed otherwise.
+   */
+  suggestionFiles?: string[] | (() => string[]);
   /** Internal: set of visited paths (used to prevent infinite loops in recursive validation) */
   _visitedPaths?: Set<string>;
+  /** Internal: fragment of currentFilePath being validated (used in recursive validation) */
+  _fragment?: ReferenceFragment;
+  /** Internal: how deep currentFilePath is nested below the validated file (used in recursive validation) */
+  _depth?: number;
+}
+
+/**
+ * Ids of the validation rules:
+ * - 'machine-specific-path': a file inside a git repository references a path under a home
+ *   directory (~/..., ${HOME}/..., /Users/name/...), which will not resolve on other machines
+ * - 'directory-reference': a reference points to a directory
+ * - 'absolute-path': a reference is written as an absolute path
+ * - 'self-reference': a file references itself
+ * - 'binary-target': a reference points to a binary file
+ * - 'disallowed-extension': a reference points to a file whose extension is not in the extensions option
+ * - 'max-depth': a reference is nested deeper than the max option below the validated file
+ * - 'claude-compat': Claude Code's memory loader would not load a reference that resolves on disk
+ *   (see getClaudeCompatIssue; set to 'error' by ValidateOptions.claudeCompat)
+ */
+export type RuleId =
+  | 'machine-specific-path'
+  | 'directory-reference'
+  | 'absolute-path'
+  | 'self-reference'
+  | 'binary-target'
+  | 'disallowed-extension'
+  | 'max-depth'
+  | 'claude-compat';
+
+/**
+ * How a rule is reported: not at all, as a warning, or as an error that fails validation
+ */
+export type RuleSeverity = 'off' | 'warn' | 'error';
+
+/**
+ * Options for rules that accept them (disallowed-extension, max-depth)
+ */
+export interface RuleOptions {
+  /** For 'disallowed-extension': the extensions references may point to, with the dot (default: ['.md']) */
+  extensions?: string[];
+  /** For 'max-depth': how many levels of nested references are allowed (default: 5) */
+  max?: number;
+}
+
+/**
+ * How a rule is configured: a severity, or a severity and options
+ */
+export type RuleSetting = RuleSeverity | [RuleSeverity, RuleOptions];
+
+/**
+ * Setting per rule (rules that are left out have their default severity and options)
+ */
+export type RuleSettings = Partial<Record<RuleId, RuleSetting>>;
+
+/**
+ * A rule violation reported for a reference (the reference may still be valid)
+ */
+export interface ValidationWarning {
+  /** The rule that reported the warning */
+  ruleId: RuleId;
+  /** Configured severity ('error' fails validation even though the reference resolves) */
+  severity: Exclude<RuleSeverity, 'off'>;
+  /** Human-readable description */
+  message: string;
+  /** The reference the warning is about */
+  reference: ResolvedReference;
+  /** File containing the reference (if known) */
+  filePath?: string;
 }
 
 /**
@@ -80,11 +318,20 @@ export interface ValidationResult {
   valid: ResolvedReference[];
   /** References that did not resolve */
   invalid: ResolvedReference[];
+  /** Optional references (@?path) whose target is missing - reported as info, not errors */
+  optionalMissing: ResolvedReference[];
+  /** References that did not resolve, with errors suppressed by an at-ref-disable directive */
+  suppressed: ResolvedReference[];
+  /** Warnings about references (valid or not) that are likely to cause problems */
+  warnings: ValidationWarning[];
   /** Summary statistics */
   stats: {
     total: number;
     valid: number;
     invalid: number;
+    optionalMissing: number;
+    suppressed: number;
+    warnings: number;
   };
 }
 
@@ -124,6 +371,8 @@ export interface BrokenReferenceByTarget {
   raw: string;
   /** Error message explaining why it's broken */
   error: string;
+  /** Existing files the reference may have meant, as reference paths (best first) */
+  suggestions?: string[];
   /** Source files that reference this broken target */
   sources: Array<{
     file: string;
@@ -163,3 +412,75 @@ export interface HeadingContext {
   /** Amount to shift headings in imported content */
   shiftAmount: number;
 }
+
+/**
+ * How the workspace root, which bare references (@docs/x.md) resolve against, is found:
+ * - 'git': the nearest directory containing .git
+ * - 'package-json': the nearest directory containing package.json
+ * - 'claude-md': the nearest directory containing CLAUDE.md
+ * - 'explicit': a configured directory
+ */
+export type WorkspaceRootStrategy = 'git' | 'package-json' | 'claude-md' | 'explicit';
+
+/**
+ * Options for finding the workspace root
+ */
+export interface WorkspaceRootOptions {
+  /** How the root is found (default: 'explicit' if root is set, otherwise 'git') */
+  strategy?: WorkspaceRootStrategy;
+  /** The root for the 'explicit' strategy */
+  root?: string;
+  /** Directory to use when no directory up from the start has the marker (default: the start directory) */
+  fallback?: string;
+  /** File system to look for markers in (default: nodeFileSystem) */
+  fileSystem?: AtRefFileSystem;
+}
+
+/**
+ * How compiled files are wrapped:
+ * - 'xml': <file path="..."> tags
+ * - 'comment': HTML comments marking the start and end of the file
+ * - 'none': the content as-is
+ */
+export type WrapperStyle = 'xml' | 'comment' | 'none';
+
+/**
+ * Project configuration, read from .atrefrc.json or at-ref.config.json (see loadConfig).
+ * Relative paths are resolved against the directory containing the config file.
+ */
+export interface AtRefConfig {
+  /** Patterns (regular expressions) for references to leave unchecked, like --ignore */
+  ignore?: string[];
+  /** Extensions to try when a file is not found (e.g., ['.md']) */
+  tryExtensions?: string[];
+  /** Named roots for aliased references (@name:path) */
+  aliases?: Record<string, string | string[]>;
+  /** Heading adjustment when compiling (default: 'normalize') */
+  headingMode?: 'normalize' | 'additive';
+  /** How compiled files are wrapped (default: 'xml') */
+  wrapper?: WrapperStyle;
+  /** Output directory for folder compilation */
+  outputDir?: string;
+  /** How directory references are expanded (default: 'tree') */
+  directoryMode?: DirectoryMode;
+  /** How many levels below a referenced directory to list (default: 3) */
+  directoryMaxDepth?: number;
+  /** Severity and options of each validation rule */
+  rules?: RuleSettings;
+  /** How the workspace root is found (a path without a strategy is an explicit root) */
+  workspaceRoot?: {
+    /** Strategy (default: 'git', or 'explicit' if path is set) */
+    strategy?: WorkspaceRootStrategy;
+    /** The root for the 'explicit' strategy */
+    path?: string;
+  };
+  /** Where references may resolve (the workspace root and alias roots are always allowed) */
+  sandbox?: {
+    /** Whether references outside the allowed roots are refused (default: false) */
+    enabled?: boolean;
+    /** Additional directories references may resolve into */
+    allowedRoots?: string[];
+    /** Whether to follow symbolic links (default: true) */
+    followSymlinks?: boolean;
+  };
+}
@@ -1,8 +1,124 @@
-import * as fs from 'node:fs';
 import * as path from 'node:path';
-import type { ValidateOptions, ValidationResult, ResolvedReference } from './types';
+import type {
+  AtReference,
+  DirectoryOptions,
+  ResolveOptions,
+  ResolvedPath,
+  ResolvedReference,
+  RuleSettings,
+  ValidateOptions,
+  ValidationResult,
+  ValidationWarning,
+} from './types';
 import { extractReferences } from './parser';
-import { resolvePath } from './resolver';
+import { checkSandbox, isMissingTarget, resolvePath } from './resolver';
+import { formatFragment, selectFragment } from './fragment';
+import { expandDirectory } from './directory';
+import { nodeFileSystem } from './file-system';
+import { suggestReferencePaths } from './suggestions';
+import { createResolutionCache, readFileWithCache } from './cache';
+import { checkRules } from './rules';
+import { getClaudeCompatIssue } from './claude-compat';
+
+/**
+ * Resolve a reference, expanding a directory according to directoryMode
+ * and suggesting files from suggestionFiles if the target is not found
+ *
+ * @returns The resolution, and the files the reference imports if it is a glob or directory
+ */
+function resolveReference(
+  ref: AtReference,
+  options: ResolveOptions & DirectoryOptions & Pick<ValidateOptions, 'suggestionFiles'>
+): { resolution: ResolvedPath; files?: string[] } {
+  const resolution = resolvePath(ref.path, options, ref.fragment);
+
+  if (resolution.errorCode === 'not-found' && options.suggestionFiles) {
+    const files = typeof options.suggestionFiles === 'function' ? options.suggestionFiles() : options.suggestionFiles;
+    const suggestions = suggestReferencePaths(ref.path, files, { basePath: options.basePath });
+    if (suggestions.length > 0) {
+      return { resolution: { ...resolution, suggestions } };
+    }
+  }
+
+  if (resolution.exists && resolution.isDirectory) {
+    const expansion = expandDirectory(resolution.resolvedPath, options);
+    if (expansion.error) {
+      return {
+        resolution: { ...resolution, exists: false, error: expansion.error, errorCode: 'no-index' },
+      };
+    }
+    const { sandbox } = options;
+    const sandboxError = sandbox && expansion.files.map(file => checkSandbox(file, sandbox, options.fileSystem)).find(Boolean);
+    if (sandboxError) {
+      return {
+        resolution: { ...resolution, exists: false, error: sandboxError, errorCode: 'outside-sandbox' },
+      };
+    }
+    return { resolution, files: expansion.files };
+  }
+
+  return { resolution, files: resolution.matches };
+}
+
+/**
+ * Check if a reference is optional (@?path) and its target is missing,
+ * which is reported as info rather than an error
+ */
+export function isOptionalMissing(ref: ResolvedReference): boolean {
+  return ref.optional === true && isMissingTarget(ref.resolution);
+}
+
+/**
+ * Check if a reference's target is missing but its error is suppressed by an at-ref-disable directive
+ * (optional references to missing files are reported as optional missing instead)
+ */
+export function isSuppressed(ref: ResolvedReference): boolean {
+  return ref.suppressed === true && !ref.resolution.exists && !isOptionalMissing(ref);
+}
+
+/**
+ * Check if a validation result should fail: it has invalid references or rules reported as errors
+ */
+export function hasErrors(result: ValidationResult): boolean {
+  return result.invalid.length > 0 || result.warnings.some((warning) => warning.severity === 'error');
+}
+
+/**
+ * Get the rule settings to validate with (claudeCompat reports 'claude-compat' as errors unless rules configures it)
+ */
+function getRuleSettings(options: ValidateOptions): RuleSettings | undefined {
+  return options.claudeCompat ? { 'claude-compat': 'error', ...options.rules } : options.rules;
+}
+
+/**
+ * Split resolved references into valid, invalid, optional-missing and suppressed
+ */
+function createValidationResult(
+  references: ResolvedReference[],
+  warnings: ValidationWarning[] = []
+): ValidationResult {
+  const valid = references.filter((r) => r.resolution.exists);
+  const optionalMissing = references.filter((r) => !r.resolution.exists && isOptionalMissing(r));
+  const suppressed = references.filter(isSuppressed);
+  const invalid = references.filter((r) => !r.resolution.exists && !isOptionalMissing(r) && !isSuppressed(r));
+
+  return {
+    references,
+    valid,
+    invalid,
+    optionalMissing,
+    suppressed,
+    warnings,
+    stats: {
+      total: references.length,
+      valid: valid.length,
+      invalid: invalid.length,
+      optionalMissing: optionalMissing.length,
+      suppressed: suppressed.length,
+      warnings: warnings.length,
+    },
+  };
+}
 
 /**
  * Validate @ references in content
@@ -11,7 +127,8 @@ export function validateReferences(
   content: string,
   options: ValidateOptions = {}
 ): ValidationResult {
-  const { ignorePatterns = [], ...resolveOptions } = options;
+  const { ignorePatterns = [], currentFilePath, ...resolveOptions } = options;
+  const basePath = options.relativeToFile && currentFilePath ? path.dirname(currentFilePath) : resolveOptions.basePath;
 
   const references = extractReferences(content);
   const resolvedRefs: ResolvedReference[] = [];
@@ -23,26 +140,19 @@ export function validateReferences(
       continue;
     }
 
-    const resolution = resolvePath(ref.path, resolveOptions);
+    const { resolution } = resolveReference(ref, { ...resolveOptions, basePath, referencingFile: currentFilePath });
     resolvedRefs.push({
       ...ref,
       resolution,
     });
   }
 
-  const valid = resolvedRefs.filter((r) => r.resolution.exists);
-  const invalid = resolvedRefs.filter((r) => !r.resolution.exists);
-
-  return {
-    references: resolvedRefs,
-    valid,
-    invalid,
-    stats: {
-      total: resolvedRefs.length,
-      valid: valid.length,
-      invalid: invalid.length,
-    },
-  };
+  const warnings = checkRules(resolvedRefs, {
+    ...options,
+    filePath: options.currentFilePath,
+    rules: getRuleSettings(options),
+  });
+  return createValidationResult(resolvedRefs, warnings);
 }
 
 /**
@@ -63,34 +173,30 @@ export function validateReferencesRecursive(
   }
 ): ValidationResult {
   const { ignorePatterns = [], currentFilePath, ...resolveOptions } = options;
+  const { fileSystem = nodeFileSystem } = options;
 
   // Initialize tracking structures
   const visitedPaths = options._visitedPaths || new Set<string>();
   const allResolvedRefs: ResolvedReference[] = [];
+  const fileRefs: ResolvedReference[] = [];
+  const nestedWarnings: ValidationWarning[] = [];
 
   // Prevent infinite loops - check if we've already visited this file
+  // (or this fragment of it, since a fragment only covers part of the file)
   let realPath: string;
   try {
-    realPath = fs.realpathSync(currentFilePath);
+    realPath = fileSystem.realpath(currentFilePath);
   } catch {
-    // If realpathSync fails, use the original path
+    // If realpath fails, use the original path
     realPath = currentFilePath;
   }
+  const visitKey = options._fragment ? `${realPath}#${formatFragment(options._fragment)}` : realPath;
 
-  if (visitedPaths.has(realPath)) {
-    return {
-      references: [],
-      valid: [],
-      invalid: [],
-      stats: {
-        total: 0,
-        valid: 0,
-        invalid: 0,
-      },
-    };
+  if (visitedPaths.has(visitKey)) {
+    return createValidationResult([]);
   }
 
-  visitedPaths.add(realPath);
+  visitedPaths.add(visitKey);
 
   // Extract and resolve references from current file
   const references = extractReferences(content);
@@ -103,9 +209,10 @@ export function validateReferencesRecursive(
     }
 
     // Resolve path
-    const resolution = resolvePath(ref.path, {
-      basePath: resolveOptions.basePath || path.dirname(currentFilePath),
-      tryExtensions: resolveOptions.tryExtensions,
+    const { resolution, files } = resolveReference(ref, {
+      ...resolveOptions,
+      basePath: (!options.relativeToFile && resolveOptions.basePath) || path.dirname(currentFilePath),
+      referencingFile: currentFilePath,
     });
 
     const resolvedRef: ResolvedReference = {
@@ -114,29 +221,49 @@ export function validateReferencesRecursive(
     };
 
     allResolvedRefs.push(resolvedRef);
+    fileRefs.push(resolvedRef);
 
-    // Recurse into valid files not yet visited
-    if (resolution.exists && !resolution.isDirectory) {
-      let realImportPath: string;
-      try {
-        realImportPath = fs.realpathSync(resolution.resolvedPath);
-      } catch {
-        realImportPath = resolution.resolvedPath;
-      }
+    // Recurse into valid files not yet visited (for a glob or directory, every file except this one),
+    // unless claudeCompat is set and Claude Code would not load them
+    const loaded =
+      !options.claudeCompat ||
+      !getClaudeCompatIssue(resolvedRef, options._depth ?? 1, { ...resolveOptions, referencingFile: currentFilePath });
+    if (resolution.exists && loaded) {
+      const targets = files?.filter(file => file !== currentFilePath) ?? [resolution.resolvedPath];
+      for (const target of targets) {
+        let realImportPath: string;
+        try {
+          realImportPath = fileSystem.realpath(target);
+        } catch {
+          realImportPath = target;
+        }
+
+        const importKey = ref.fragment
+          ? `${realImportPath}#${formatFragment(ref.fragment)}`
+          : realImportPath;
+
+        if (visitedPaths.has(importKey)) {
+          continue;
+        }
 
-      if (!visitedPaths.has(realImportPath)) {
         try {
-          const fileContent = fs.readFileSync(resolution.resolvedPath, 'utf-8');
+          let fileContent = readFileWithCache(target, options);
+          if (ref.fragment) {
+            fileContent = selectFragment(fileContent, ref.fragment);
+          }
 
           const nestedResult = validateReferencesRecursive(fileContent, {
             ...options,
-            currentFilePath: resolution.resolvedPath,
+            currentFilePath: target,
             basePath: resolveOptions.basePath, // Preserve workspace root
             _visitedPaths: visitedPaths, // Share visited set
+            _fragment: ref.fragment, // Only the selected part is validated
+            _depth: (options._depth ?? 1) + 1,
           });
 
           // Accumulate nested references
           allResolvedRefs.push(...nestedResult.references);
+          nestedWarnings.push(...nestedResult.warnings);
         } catch (err) {
           // File read error - skip recursion
           // Error is already tracked in resolution if it failed to resolve
@@ -145,36 +272,33 @@ export function validateReferencesRecursive(
     }
   }
 
-  // Split valid/invalid and return
-  const valid = allResolvedRefs.filter((r) => r.resolution.exists);
-  const invalid = allResolvedRefs.filter((r) => !r.resolution.exists);
-
-  return {
-    references: allResolvedRefs,
-    valid,
-    invalid,
-    stats: {
-      total: allResolvedRefs.length,
-      valid: valid.length,
-      invalid: invalid.length,
-    },
-  };
+  // Split valid/invalid and return, with this file's warnings before those of the files it imports
+  const fileWarnings = checkRules(fileRefs, {
+    ...options,
+    filePath: currentFilePath,
+    depth: options._depth,
+    rules: getRuleSettings(options),
+  });
+  return createValidationResult(allResolvedRefs, [...fileWarnings, ...nestedWarnings]);
 }
 
 /**
  * Validate @ references in a file
+ * (resolutions and file contents are cached for the call unless the cache option is set)
  */
 export function validateFile(
   filePath: string,
   options: ValidateOptions = {}
 ): ValidationResult {
+  const { cache = createResolutionCache() } = options;
   const absolutePath = path.resolve(filePath);
-  const content = fs.readFileSync(absolutePath, 'utf-8');
+  const content = readFileWithCache(absolutePath, { ...options, cache });
 
   const fileDir = path.dirname(absolutePath);
   const mergedOptions: ValidateOptions = {
     basePath: fileDir,
     ...options,
+    cache,
     currentFilePath: absolutePath,
   };
 
@@ -0,0 +1,59 @@
+import * as path from 'node:path';
+import type { WorkspaceRootOptions, WorkspaceRootStrategy } from './types';
+import { nodeFileSystem } from './file-system';
+
+/**
+ * Workspace root strategies, for validating settings and flags
+ */
+export const WORKSPACE_ROOT_STRATEGIES: WorkspaceRootStrategy[] = ['git', 'package-json', 'claude-md', 'explicit'];
+
+/**
+ * The file or directory that marks the workspace root for each search strategy
+ */
+const ROOT_MARKERS: Record<Exclude<WorkspaceRootStrategy, 'explicit'>, string> = {
+  git: '.git',
+  'package-json': 'package.json',
+  'claude-md': 'CLAUDE.md',
+};
+
+/**
+ * Get the strategy that findWorkspaceRoot uses for the options
+ */
+export function getWorkspaceRootStrategy(options: WorkspaceRootOptions = {}): WorkspaceRootStrategy {
+  return options.strategy ?? (options.root !== undefined ? 'explicit' : 'git');
+}
+
+/**
+ * Find the workspace root for a file in startDir: the nearest directory (startDir or a parent)
+ * containing the strategy's marker, or the explicit root. The CLI and the VS Code extension both
+ * use this, so references resolve the same way in each.
+ *
+ * @example findWorkspaceRoot('/repo/packages/app/docs', { strategy: 'package-json' }) // '/repo/packages/app'
+ * @throws Error if the strategy is 'explicit' and no root is given
+ */
+export function findWorkspaceRoot(startDir: string, options: WorkspaceRootOptions = {}): string {
+  const { fileSystem = nodeFileSystem } = options;
+  const strategy = getWorkspaceRootStrategy(options);
+  const start = path.resolve(startDir);
+
+  if (strategy === 'explicit') {
+    if (options.root === undefined) {
+      throw new Error('The explicit workspace root strategy needs a root path');
+    }
+    return path.resolve(options.root);
+  }
+
+  const marker = ROOT_MARKERS[strategy];
+  let dir = start;
+  while (true) {
+    if (fileSystem.exists(path.join(dir, marker))) {
+      return dir;
+    }
+
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      return options.fallback !== undefined ? path.resolve(options.fallback) : start;
+    }
+    dir = parent;
+  }
+}
@@ -1,4 +1,18 @@
 import * as vscode from 'vscode';
+import * as path from 'path';
+import {
+  CONFIG_FILE_NAMES,
+  expandReferencePath,
+  findConfigFile,
+  findWorkspaceRoot,
+  loadConfig,
+  type AtRefConfig,
+  type DirectoryMode,
+  type RuleSettings,
+  type SandboxPolicy,
+  type WorkspaceRootStrategy,
+  type WrapperStyle,
+} from '@at-reference/core';
 
 export interface ExtensionConfig {
   enableDiagnostics: boolean;
@@ -7,10 +21,106 @@ export interface ExtensionConfig {
   exclude: string[];
   previewLines: number;
   compileOptimizeDuplicates: boolean;
+  directoryMode: DirectoryMode;
+  directoryMaxDepth: number;
+  aliases: Record<string, string | string[]>;
+  sandbox: boolean;
+  rootStrategy?: WorkspaceRootStrategy;
+  workspaceRoot?: string;
+  // From the project config file (.atrefrc.json / at-ref.config.json)
+  ignore: string[];
+  tryExtensions: string[];
+  headingMode: 'normalize' | 'additive';
+  wrapper: WrapperStyle;
+  outputDir?: string;
+  rules: RuleSettings;
 }
 
-export function getConfig(): ExtensionConfig {
-  const config = vscode.workspace.getConfiguration('atReference');
+/**
+ * Project config of each workspace folder, read once until a config file is changed, created or deleted
+ */
+const projectConfigs = new Map<string, AtRefConfig>();
+
+/**
+ * Errors in config files, reported on the file (set by watchProjectConfig)
+ */
+let configDiagnostics: vscode.DiagnosticCollection | undefined;
+
+/**
+ * Watch the project config files, so each workspace folder's config is read again after a config file changes
+ */
+export function watchProjectConfig(): vscode.Disposable {
+  const diagnostics = vscode.languages.createDiagnosticCollection('at-reference-config');
+  const watcher = vscode.workspace.createFileSystemWatcher(`**/{${CONFIG_FILE_NAMES.join(',')}}`);
+  const invalidate = () => {
+    projectConfigs.clear();
+    diagnostics.clear();
+  };
+  configDiagnostics = diagnostics;
+
+  return vscode.Disposable.from(
+    diagnostics,
+    watcher,
+    watcher.onDidChange(invalidate),
+    watcher.onDidCreate(invalidate),
+    watcher.onDidDelete(invalidate)
+  );
+}
+
+/**
+ * Read the project config file for a workspace folder
+ * (an invalid file is reported once on the file and ignored until it changes)
+ */
+function getProjectConfig(workspaceFolder: vscode.WorkspaceFolder | undefined): AtRefConfig {
+  if (!workspaceFolder) {
+    return {};
+  }
+
+  const folderPath = workspaceFolder.uri.fsPath;
+  let projectConfig = projectConfigs.get(folderPath);
+  if (!projectConfig) {
+    try {
+      projectConfig = loadConfig(folderPath).config;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      console.error(`[at-reference] ${message}`);
+      reportConfigError(folderPath, message);
+      projectConfig = {};
+    }
+    projectConfigs.set(folderPath, projectConfig);
+  }
+
+  return projectConfig;
+}
+
+/**
+ * Show a config file error as a diagnostic at the start of the file
+ */
+function reportConfigError(folderPath: string, message: string): void {
+  const configPath = findConfigFile(folderPath);
+  if (!configDiagnostics || !configPath) {
+    return;
+  }
+
+  const diagnostic = new vscode.Diagnostic(new vscode.Range(0, 0, 0, 0), message, vscode.DiagnosticSeverity.Error);
+  diagnostic.source = 'at-reference';
+  configDiagnostics.set(vscode.Uri.file(configPath), [diagnostic]);
+}
+
+/**
+ * Get the extension configuration: the project config file, with VS Code settings layered on top
+ * (a setting only overrides the file when it is set explicitly)
+ */
+export function getConfig(workspaceFolder = vscode.workspace.workspaceFolders?.[0]): ExtensionConfig {
+  const config = vscode.workspace.getConfiguration('atReference', workspaceFolder?.uri);
+  const projectConfig = getProjectConfig(workspaceFolder);
+
+  const setting = <T>(key: string, fileValue: T | undefined, defaultValue: T): T => {
+    const inspected = config.inspect<T>(key);
+    const explicitValue =
+      inspected?.workspaceFolderValue ?? inspected?.workspaceValue ?? inspected?.globalValue;
+    return explicitValue ?? fileValue ?? defaultValue;
+  };
 
   return {
     enableDiagnostics: config.get<boolean>('enableDiagnostics', true),
@@ -19,5 +129,83 @@ export function getConfig(): ExtensionConfig {
     exclude: config.get<string[]>('exclude', ['**/node_modules/**', '**/.git/**']),
     previewLines: config.get<number>('previewLines', 10),
     compileOptimizeDuplicates: config.get<boolean>('compile.optimizeDuplicates', true),
+    directoryMode: setting<DirectoryMode>('directoryMode', projectConfig.directoryMode, 'tree'),
+    directoryMaxDepth: setting<number>('directoryMaxDepth', projectConfig.directoryMaxDepth, 3),
+    aliases: {
+      ...projectConfig.aliases,
+      ...config.get<Record<string, string | string[]>>('aliases', {}),
+    },
+    sandbox: setting<boolean>('sandbox', projectConfig.sandbox?.enabled, false),
+    rootStrategy: setting<WorkspaceRootStrategy | undefined>(
+      'rootStrategy',
+      projectConfig.workspaceRoot?.strategy,
+      undefined
+    ),
+    workspaceRoot: setting<string | undefined>('workspaceRoot', projectConfig.workspaceRoot?.path, undefined),
+    ignore: projectConfig.ignore ?? [],
+    tryExtensions: projectConfig.tryExtensions ?? [],
+    headingMode: projectConfig.headingMode ?? 'normalize',
+    wrapper: projectConfig.wrapper ?? 'xml',
+    outputDir: projectConfig.outputDir,
+    rules: projectConfig.rules ?? {},
+  };
+}
+
+/**
+ * Get the configured aliases with their roots as absolute paths
+ * (relative roots are resolved against the workspace folder)
+ */
+export function getAliases(workspaceFolder: vscode.WorkspaceFolder | undefined): Record<string, string[]> {
+  const aliases: Record<string, string[]> = {};
+
+  for (const [name, roots] of Object.entries(getConfig(workspaceFolder).aliases)) {
+    aliases[name] = (Array.isArray(roots) ? roots : [roots]).map((root) => {
+      const expanded = expandReferencePath(root).path;
+      return workspaceFolder ? path.resolve(workspaceFolder.uri.fsPath, expanded) : expanded;
+    });
+  }
+
+  return aliases;
+}
+
+/**
+ * Get the workspace root that bare references in a directory resolve against, found the same way
+ * as in the CLI (atReference.rootStrategy or the config file's workspaceRoot, default: the git root).
+ * The workspace folder is used when no directory has the strategy's marker.
+ */
+export function getWorkspaceRoot(workspaceFolder: vscode.WorkspaceFolder | undefined, startDir: string): string {
+  const { rootStrategy, workspaceRoot } = getConfig(workspaceFolder);
+  const fallback = workspaceFolder?.uri.fsPath ?? startDir;
+
+  try {
+    return findWorkspaceRoot(startDir, {
+      strategy: rootStrategy,
+      root: workspaceRoot === undefined ? undefined : path.resolve(fallback, workspaceRoot),
+      fallback,
+    });
+  } catch (err) {
+    console.error(`[at-reference] ${err instanceof Error ? err.message : err}`);
+    return fallback;
+  }
+}
+
+/**
+ * Get the sandbox policy for a workspace folder, if the sandbox is enabled: references may only
+ * resolve inside the workspace folder, its workspace root, the alias roots and the config file's allowed roots
+ */
+export function getSandbox(workspaceFolder: vscode.WorkspaceFolder | undefined): SandboxPolicy | undefined {
+  if (!workspaceFolder || !getConfig(workspaceFolder).sandbox) {
+    return undefined;
+  }
+
+  const projectSandbox = getProjectConfig(workspaceFolder).sandbox;
+  return {
+    allowedRoots: [
+      workspaceFolder.uri.fsPath,
+      getWorkspaceRoot(workspaceFolder, workspaceFolder.uri.fsPath),
+      ...Object.values(getAliases(workspaceFolder)).flat(),
+      ...(projectSandbox?.allowedRoots ?? []),
+    ],
+    followSymlinks: projectSandbox?.followSymlinks,
   };
 }
@@ -5,14 +5,29 @@ import { AtReferenceDiagnosticsProvider } from './providers/diagnosticsProvider'
 import { AtReferenceHoverProvider } from './providers/hoverProvider';
 import { AtReferenceCompletionProvider } from './providers/completionProvider';
 import { AtReferenceDecorationProvider } from './providers/decorationProvider';
-import { getConfig } from './config';
-import { compileFile, compileFolder, getBuiltOutputPath } from '@at-reference/core';
+import { AtReferenceCodeActionProvider } from './providers/codeActionProvider';
+import { getAliases, getConfig, getSandbox, getWorkspaceRoot, watchProjectConfig } from './config';
+import { compileFile, compileFolder, createResolutionCache, getBuiltOutputPath } from '@at-reference/core';
 
 export function activate(context: vscode.ExtensionContext) {
   console.log('At Reference Support activated');
 
+  // Registered before anything reads the config, so config file errors are reported
+  context.subscriptions.push(watchProjectConfig());
   const config = getConfig();
 
+  // Resolutions and file contents shared by the providers between edits.
+  // Registered before the providers, so the cache is invalidated before they revalidate.
+  const cache = createResolutionCache();
+  const cacheWatcher = vscode.workspace.createFileSystemWatcher('**/*');
+  context.subscriptions.push(
+    cacheWatcher,
+    cacheWatcher.onDidChange((uri) => cache.invalidate(uri.fsPath)),
+    cacheWatcher.onDidCreate(() => cache.invalidate()),
+    cacheWatcher.onDidDelete(() => cache.invalidate()),
+    vscode.workspace.onDidSaveTextDocument((doc) => cache.invalidate(doc.uri.fsPath))
+  );
+
   // Document links - always enabled for navigation
   const linkProvider = new AtReferenceLinkProvider();
   context.subscriptions.push(
@@ -24,13 +39,25 @@ export function activate(context: vscode.ExtensionContext) {
 
   // Diagnostics
   if (config.enableDiagnostics) {
-    const diagnosticsProvider = new AtReferenceDiagnosticsProvider();
+    const diagnosticsProvider = new AtReferenceDiagnosticsProvider(cache);
     context.subscriptions.push(diagnosticsProvider);
+
+    // Quick fixes for diagnostics (e.g., correct the casing of a path)
+    const codeActionProvider = new AtReferenceCodeActionProvider(cache);
+    context.subscriptions.push(
+      vscode.languages.registerCodeActionsProvider(
+        { language: 'markdown' },
+        codeActionProvider,
+        { providedCodeActionKinds: AtReferenceCodeActionProvider.providedCodeActionKinds }
+      ),
+      cacheWatcher.onDidCreate(() => codeActionProvider.invalidateWorkspaceFiles()),
+      cacheWatcher.onDidDelete(() => codeActionProvider.invalidateWorkspaceFiles())
+    );
   }
 
   // Hover
   if (config.enableHover) {
-    const hoverProvider = new AtReferenceHoverProvider();
+    const hoverProvider = new AtReferenceHoverProvider(cache);
     context.subscriptions.push(
       vscode.languages.registerHoverProvider(
         { language: 'markdown' },
@@ -77,15 +104,24 @@ export function activate(context: vscode.ExtensionContext) {
       }
 
       try {
-        const compileConfig = getConfig();
+        const workspaceFolder = vscode.workspace.getWorkspaceFolder(fileUri);
+        const compileConfig = getConfig(workspaceFolder);
         const result = compileFile(filePath, {
-          basePath: vscode.workspace.workspaceFolders?.[0]?.uri.fsPath,
-          optimizeDuplicates: compileConfig.compileOptimizeDuplicates
+          basePath: getWorkspaceRoot(workspaceFolder, path.dirname(filePath)),
+          optimizeDuplicates: compileConfig.compileOptimizeDuplicates,
+          headingMode: compileConfig.headingMode,
+          wrapper: compileConfig.wrapper,
+          tryExtensions: compileConfig.tryExtensions,
+          directoryMode: compileConfig.directoryMode,
+          directoryMaxDepth: compileConfig.directoryMaxDepth,
+          directoryIgnorePatterns: compileConfig.ignore.map((pattern) => new RegExp(pattern)),
+          aliases: getAliases(workspaceFolder),
+          sandbox: getSandbox(workspaceFolder)
         });
 
         if (result.failedCount > 0) {
           const failedRefs = result.references
-            .filter(r => !r.found)
+            .filter(r => !r.found && !r.skipped)
             .map(r => r.reference.raw)
             .join(', ');
           vscode.window.showWarningMessage(
@@ -115,10 +151,11 @@ export function activate(context: vscode.ExtensionContext) {
       }
 
       const folderPath = uri.fsPath;
-      const compileConfig = getConfig();
+      const workspaceFolder = vscode.workspace.getWorkspaceFolder(uri);
+      const compileConfig = getConfig(workspaceFolder);
 
-      // Output to dist/ at same level as folder (sibling)
-      const outputDir = path.join(path.dirname(folderPath), 'dist');
+      // Output to the config file's outputDir, or dist/ at same level as folder (sibling)
+      const outputDir = compileConfig.outputDir ?? path.join(path.dirname(folderPath), 'dist');
 
       try {
         const result = await vscode.window.withProgress(
@@ -130,8 +167,16 @@ export function activate(context: vscode.ExtensionContext) {
           async () => {
             return compileFolder(folderPath, {
               outputDir,
-              basePath: vscode.workspace.workspaceFolders?.[0]?.uri.fsPath,
-              optimizeDuplicates: compileConfig.compileOptimizeDuplicates
+              basePath: getWorkspaceRoot(workspaceFolder, folderPath),
+              optimizeDuplicates: compileConfig.compileOptimizeDuplicates,
+              headingMode: compileConfig.headingMode,
+              wrapper: compileConfig.wrapper,
+              tryExtensions: compileConfig.tryExtensions,
+              directoryMode: compileConfig.directoryMode,
+              directoryMaxDepth: compileConfig.directoryMaxDepth,
+              directoryIgnorePatterns: compileConfig.ignore.map((pattern) => new RegExp(pattern)),
+              aliases: getAliases(workspaceFolder),
+              sandbox: getSandbox(workspaceFolder)
             });
           }
         );
@@ -0,0 +1,160 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import {
+  extractReferences,
+  formatFragment,
+  formatReferencePath,
+  listWorkspaceFiles,
+  resolvePath,
+  suggestReferencePaths,
+  AtReference,
+  ResolutionCache,
+} from '@at-reference/core';
+import { getAliases, getConfig, getWorkspaceRoot } from '../config';
+
+/**
+ * Directive that suppresses validation errors on the line after it
+ */
+const DISABLE_NEXT_LINE_DIRECTIVE = '<!-- at-ref-disable-next-line -->';
+
+/**
+ * Quick fixes for reference diagnostics: respell a reference with the casing of the file on disk,
+ * replace a reference to a missing file with a similarly named or moved file,
+ * or suppress the diagnostic with an at-ref-disable-next-line directive
+ */
+export class AtReferenceCodeActionProvider implements vscode.CodeActionProvider {
+  static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+  /** Files in each workspace root to suggest from, listed on first use until a file is created or deleted */
+  private readonly workspaceFiles = new Map<string, string[]>();
+
+  constructor(private readonly cache: ResolutionCache) {}
+
+  /**
+   * Forget the listed workspace files, after a file was created or deleted
+   */
+  invalidateWorkspaceFiles(): void {
+    this.workspaceFiles.clear();
+  }
+
+  provideCodeActions(
+    document: vscode.TextDocument,
+    _range: vscode.Range,
+    context: vscode.CodeActionContext
+  ): vscode.CodeAction[] {
+    const referenceDiagnostics = context.diagnostics.filter((diagnostic) => diagnostic.source === 'at-reference');
+    if (referenceDiagnostics.length === 0) {
+      return [];
+    }
+
+    const refs = extractReferences(document.getText(), { zeroIndexed: true });
+    const actions: vscode.CodeAction[] = [];
+
+    for (const diagnostic of referenceDiagnostics) {
+      if (diagnostic.code !== 'case-mismatch' && diagnostic.code !== 'not-found') {
+        continue;
+      }
+
+      const ref = refs.find(
+        (r) => r.line === diagnostic.range.start.line && r.column === diagnostic.range.start.character
+      );
+      if (!ref) {
+        continue;
+      }
+
+      const fragment = ref.fragment ? `#${formatFragment(ref.fragment)}` : '';
+      const replacementPaths = this.getReplacementPaths(document, ref);
+
+      replacementPaths.forEach((replacementPath, index) => {
+        const replacement = `@${ref.optional ? '?' : ''}${formatReferencePath(replacementPath)}${fragment}`;
+
+        const action = new vscode.CodeAction(`Change to ${replacement}`, vscode.CodeActionKind.QuickFix);
+        action.edit = new vscode.WorkspaceEdit();
+        action.edit.replace(document.uri, diagnostic.range, replacement);
+        action.diagnostics = [diagnostic];
+        action.isPreferred = index === 0;
+        actions.push(action);
+      });
+    }
+
+    // One directive per line covers every reference on it
+    const lines = new Set(referenceDiagnostics.map((diagnostic) => diagnostic.range.start.line));
+    for (const line of lines) {
+      actions.push(this.createDisableAction(document, line, referenceDiagnostics));
+    }
+
+    return actions;
+  }
+
+  /**
+   * Insert an at-ref-disable-next-line directive above a line, with the line's indentation
+   */
+  private createDisableAction(
+    document: vscode.TextDocument,
+    line: number,
+    diagnostics: vscode.Diagnostic[]
+  ): vscode.CodeAction {
+    const textLine = document.lineAt(line);
+    const indentation = textLine.text.slice(0, textLine.firstNonWhitespaceCharacterIndex);
+
+    const action = new vscode.CodeAction('Disable @reference validation for this line', vscode.CodeActionKind.QuickFix);
+    action.edit = new vscode.WorkspaceEdit();
+    action.edit.insert(document.uri, new vscode.Position(line, 0), `${indentation}${DISABLE_NEXT_LINE_DIRECTIVE}\n`);
+    action.diagnostics = diagnostics.filter((diagnostic) => diagnostic.range.start.line === line);
+    return action;
+  }
+
+  /**
+   * Paths to replace a reference with: the path with the casing on disk, or suggested existing files
+   */
+  private getReplacementPaths(document: vscode.TextDocument, ref: AtReference): string[] {
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(document.uri);
+    const documentDir = path.dirname(document.uri.fsPath);
+    const workspaceRoot = getWorkspaceRoot(workspaceFolder, documentDir);
+
+    let basePath: string;
+    let refPath = ref.path;
+    let prefix = '';
+
+    if (refPath.startsWith('./') || refPath.startsWith('../')) {
+      basePath = documentDir;
+    } else if (refPath.startsWith('/')) {
+      basePath = workspaceRoot;
+      refPath = refPath.slice(1);
+      prefix = '/';
+    } else {
+      basePath = workspaceRoot;
+    }
+
+    const resolved = resolvePath(refPath, {
+      basePath,
+      referencingFile: document.uri.fsPath,
+      aliases: getAliases(workspaceFolder),
+      tryExtensions: getConfig(workspaceFolder).tryExtensions,
+      cache: this.cache,
+    });
+
+    if (resolved.correctedPath !== undefined) {
+      return [prefix + resolved.correctedPath];
+    }
+    if (resolved.errorCode !== 'not-found') {
+      return [];
+    }
+
+    return suggestReferencePaths(refPath, this.getWorkspaceFiles(workspaceRoot), { basePath }).map(
+      (suggestion) => prefix + suggestion
+    );
+  }
+
+  /**
+   * Files in a workspace root, listed once until invalidateWorkspaceFiles is called
+   */
+  private getWorkspaceFiles(workspaceRoot: string): string[] {
+    let files = this.workspaceFiles.get(workspaceRoot);
+    if (!files) {
+      files = listWorkspaceFiles(workspaceRoot);
+      this.workspaceFiles.set(workspaceRoot, files);
+    }
+    return files;
+  }
+}
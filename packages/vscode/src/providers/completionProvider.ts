@@ -1,6 +1,12 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { getConfig } from '../config';
+import {
+  findIgnoredRanges,
+  formatReferencePath,
+  listDirectory,
+  parseAliasedPath,
+} from '@at-reference/core';
+import { getAliases, getConfig, getWorkspaceRoot } from '../config';
 
 export class AtReferenceCompletionProvider implements vscode.CompletionItemProvider {
   async provideCompletionItems(
@@ -12,9 +18,32 @@ export class AtReferenceCompletionProvider implements vscode.CompletionItemProvi
     }
 
     const partial = this.getPartialPath(document, position);
+
+    // Replace everything typed after @ (including an opening quote), keeping an optional marker (@?)
+    const linePrefix = document.lineAt(position).text.substring(0, position.character);
+    const atIndex = linePrefix.lastIndexOf('@');
+    const markerLength = linePrefix[atIndex + 1] === '?' ? 1 : 0;
+    const replaceRange = new vscode.Range(
+      position.line,
+      atIndex + 1 + markerLength,
+      position.line,
+      position.character
+    );
+
+    // Aliased path (@shared:prompts/...) - complete files under the alias roots
+    const aliased = parseAliasedPath(partial);
+    if (aliased) {
+      return this.findAliasedFiles(document.uri, aliased.alias, aliased.path).map((file) =>
+        this.createAliasedCompletionItem(aliased.alias, file, document, replaceRange)
+      );
+    }
+
     const files = await this.findMatchingFiles(document.uri, partial);
 
-    return files.map((file) => this.createCompletionItem(file, document.uri));
+    return [
+      ...this.createAliasCompletionItems(document.uri, replaceRange),
+      ...files.map((file) => this.createCompletionItem(file, document, replaceRange)),
+    ];
   }
 
   private shouldTrigger(
@@ -29,7 +58,7 @@ export class AtReferenceCompletionProvider implements vscode.CompletionItemProvi
       return false;
     }
 
-    // Make sure @ is at start or after whitespace/bracket
+    // Make sure @ is at start or after whitespace/bracket (this also skips escaped \@)
     if (atIndex > 0) {
       const charBefore = linePrefix[atIndex - 1];
       if (charBefore && !/[\s\[\(\{]/.test(charBefore)) {
@@ -37,6 +66,13 @@ export class AtReferenceCompletionProvider implements vscode.CompletionItemProvi
       }
     }
 
+    // No completion inside <!-- at-ref-ignore --> regions
+    const offset = document.offsetAt(position);
+    const ignoredRanges = findIgnoredRanges(document.getText());
+    if (ignoredRanges.some((range) => offset >= range.start && offset < range.end)) {
+      return false;
+    }
+
     return true;
   }
 
@@ -51,7 +87,8 @@ export class AtReferenceCompletionProvider implements vscode.CompletionItemProvi
       return '';
     }
 
-    return linePrefix.substring(atIndex + 1);
+    // Optional (@?path) and quoted (@"docs/My Notes.md") forms - search on the path itself
+    return linePrefix.substring(atIndex + 1).replace(/^\??"?/, '');
   }
 
   private async findMatchingFiles(
@@ -76,14 +113,74 @@ export class AtReferenceCompletionProvider implements vscode.CompletionItemProvi
     return files;
   }
 
+  private findAliasedFiles(
+    documentUri: vscode.Uri,
+    alias: string,
+    partial: string
+  ): Array<{ root: string; relativePath: string }> {
+    const roots = getAliases(vscode.workspace.getWorkspaceFolder(documentUri))[alias] ?? [];
+    const files = new Map<string, { root: string; relativePath: string }>();
+
+    // The first root containing a path wins, as in resolution
+    for (const root of roots) {
+      for (const entry of listDirectory(root, { directoryMaxDepth: 5 })) {
+        const matchesPartial =
+          entry.relativePath.startsWith(partial) || entry.relativePath.includes(`/${partial}`);
+        if (!entry.isDirectory && matchesPartial && !files.has(entry.relativePath)) {
+          files.set(entry.relativePath, { root, relativePath: entry.relativePath });
+        }
+      }
+    }
+
+    return [...files.values()].slice(0, 50);
+  }
+
+  private createAliasCompletionItems(
+    documentUri: vscode.Uri,
+    replaceRange: vscode.Range
+  ): vscode.CompletionItem[] {
+    const aliases = getAliases(vscode.workspace.getWorkspaceFolder(documentUri));
+
+    return Object.entries(aliases).map(([alias, roots]) => {
+      const item = new vscode.CompletionItem(`${alias}:`, vscode.CompletionItemKind.Folder);
+      item.range = replaceRange;
+      item.detail = roots.join(', ');
+      item.sortText = ` ${alias}`;
+      // Continue with the files under the alias roots
+      item.command = { command: 'editor.action.triggerSuggest', title: 'Suggest files' };
+      return item;
+    });
+  }
+
+  private createAliasedCompletionItem(
+    alias: string,
+    file: { root: string; relativePath: string },
+    document: vscode.TextDocument,
+    replaceRange: vscode.Range
+  ): vscode.CompletionItem {
+    const label = `${alias}:${file.relativePath}`;
+    const item = new vscode.CompletionItem(label, this.getCompletionKind(file.relativePath));
+
+    const referencePath = formatReferencePath(label);
+    item.insertText = referencePath;
+    item.range = replaceRange;
+    item.filterText = document.getText(replaceRange).startsWith('"') ? referencePath : label;
+    item.detail = path.join(file.root, file.relativePath);
+    item.sortText = label;
+
+    return item;
+  }
+
   private createCompletionItem(
     fileUri: vscode.Uri,
-    documentUri: vscode.Uri
+    document: vscode.TextDocument,
+    replaceRange: vscode.Range
   ): vscode.CompletionItem {
-    const workspaceFolder = vscode.workspace.getWorkspaceFolder(documentUri);
-    const basePath = workspaceFolder?.uri.fsPath ?? path.dirname(documentUri.fsPath);
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(document.uri);
+    const basePath = getWorkspaceRoot(workspaceFolder, path.dirname(document.uri.fsPath));
 
-    const relativePath = path.relative(basePath, fileUri.fsPath);
+    // Backslashes are escapes in references, so always use forward slashes
+    const relativePath = path.relative(basePath, fileUri.fsPath).split(path.sep).join('/');
     const label = relativePath;
 
     const item = new vscode.CompletionItem(
@@ -91,8 +188,12 @@ export class AtReferenceCompletionProvider implements vscode.CompletionItemProvi
       this.getCompletionKind(fileUri.fsPath)
     );
 
-    item.insertText = relativePath;
-    item.filterText = relativePath;
+    // Quote paths with spaces or special characters: @"docs/Design Notes (v2).md"
+    const referencePath = formatReferencePath(relativePath);
+    item.insertText = referencePath;
+    item.range = replaceRange;
+    // Filter against what was typed, which only has the quote if the user typed it
+    item.filterText = document.getText(replaceRange).startsWith('"') ? referencePath : relativePath;
     item.detail = fileUri.fsPath;
     item.sortText = relativePath;
 
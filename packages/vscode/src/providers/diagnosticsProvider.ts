@@ -1,8 +1,30 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
-import { extractReferences, resolvePath } from '@at-reference/core';
-import { getConfig } from '../config';
+import {
+  AtReference,
+  checkRules,
+  checkSandbox,
+  expandDirectory,
+  extractReferences,
+  isMissingTarget,
+  resolvePath,
+  ResolutionCache,
+  ResolvedPath,
+  ResolvedReference,
+  ResolveOptions,
+} from '@at-reference/core';
+import { getAliases, getConfig, getSandbox, getWorkspaceRoot } from '../config';
+
+/**
+ * Options to resolve the references of a document with (see getResolveOptions)
+ */
+interface DocumentResolveOptions extends ResolveOptions {
+  /** Directory of the document, for ./ and ../ references */
+  documentDir: string;
+  /** Workspace root, for bare and / references */
+  workspaceRoot: string;
+}
 
 export class AtReferenceDiagnosticsProvider implements vscode.Disposable {
   private diagnosticCollection: vscode.DiagnosticCollection;
@@ -11,8 +33,9 @@ export class AtReferenceDiagnosticsProvider implements vscode.Disposable {
   private fsWatcherTimer?: NodeJS.Timeout;
   private excludePatterns: string[];
   private referencedFiles = new Set<string>();
+  private referencedGlobs = new Set<string>();
 
-  constructor() {
+  constructor(private readonly cache: ResolutionCache) {
     this.diagnosticCollection = vscode.languages.createDiagnosticCollection('at-references');
     this.excludePatterns = getConfig().exclude;
 
@@ -59,7 +82,9 @@ export class AtReferenceDiagnosticsProvider implements vscode.Disposable {
 
     this.disposables.push(
       fileWatcher.onDidCreate((uri) => {
-        if (!this.shouldExclude(uri.fsPath) && this.referencedFiles.has(uri.fsPath)) {
+        // A new file may also be a new match for a glob reference
+        const mayMatchGlob = this.referencedGlobs.size > 0;
+        if (!this.shouldExclude(uri.fsPath) && (this.referencedFiles.has(uri.fsPath) || mayMatchGlob)) {
           this.debouncedRevalidateAll();
         }
       })
@@ -116,33 +141,70 @@ export class AtReferenceDiagnosticsProvider implements vscode.Disposable {
 
   private rebuildReferencedFilesSet(): void {
     this.referencedFiles.clear();
+    this.referencedGlobs.clear();
 
     for (const doc of vscode.workspace.textDocuments) {
       if (doc.languageId === 'markdown') {
         const refs = extractReferences(doc.getText(), { zeroIndexed: true });
-        const workspaceFolder = vscode.workspace.getWorkspaceFolder(doc.uri);
-        const documentDir = path.dirname(doc.uri.fsPath);
+        const resolveOptions = this.getResolveOptions(doc);
 
         for (const ref of refs) {
-          let basePath: string;
-          let refPath = ref.path;
-
-          if (refPath.startsWith('./') || refPath.startsWith('../')) {
-            basePath = documentDir;
-          } else if (refPath.startsWith('/')) {
-            basePath = workspaceFolder?.uri.fsPath ?? documentDir;
-            refPath = refPath.slice(1);
-          } else {
-            basePath = workspaceFolder?.uri.fsPath ?? documentDir;
-          }
-
-          const resolved = resolvePath(refPath, { basePath });
-          this.referencedFiles.add(resolved.resolvedPath);
+          this.trackReferencedFiles(this.resolveReference(ref, resolveOptions));
         }
       }
     }
   }
 
+  /**
+   * Options to resolve a document's references with, shared by validation and the referenced files set
+   * so both resolve (and cache) each reference the same way
+   */
+  private getResolveOptions(document: vscode.TextDocument): DocumentResolveOptions {
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(document.uri);
+    const documentDir = path.dirname(document.uri.fsPath);
+
+    return {
+      documentDir,
+      workspaceRoot: getWorkspaceRoot(workspaceFolder, documentDir),
+      referencingFile: document.uri.fsPath,
+      aliases: getAliases(workspaceFolder),
+      tryExtensions: getConfig(workspaceFolder).tryExtensions,
+      sandbox: getSandbox(workspaceFolder),
+      cache: this.cache,
+    };
+  }
+
+  /**
+   * Resolve a reference: ./ and ../ paths against the document's directory, others against the workspace root
+   */
+  private resolveReference(ref: AtReference, options: DocumentResolveOptions): ResolvedPath {
+    const { documentDir, workspaceRoot, ...resolveOptions } = options;
+    let basePath: string;
+    let refPath = ref.path;
+
+    if (refPath.startsWith('./') || refPath.startsWith('../')) {
+      basePath = documentDir;
+    } else if (refPath.startsWith('/')) {
+      basePath = workspaceRoot;
+      refPath = refPath.slice(1);
+    } else {
+      basePath = workspaceRoot;
+    }
+
+    return resolvePath(refPath, { ...resolveOptions, basePath }, ref.fragment);
+  }
+
+  private trackReferencedFiles(resolved: ResolvedPath): void {
+    if (resolved.matches) {
+      this.referencedGlobs.add(resolved.resolvedPath);
+      for (const match of resolved.matches) {
+        this.referencedFiles.add(match);
+      }
+    } else {
+      this.referencedFiles.add(resolved.resolvedPath);
+    }
+  }
+
   private revalidateAllOpenDocuments(): void {
     for (const doc of vscode.workspace.textDocuments) {
       if (doc.languageId === 'markdown') {
@@ -154,29 +216,44 @@ export class AtReferenceDiagnosticsProvider implements vscode.Disposable {
   private validateDocument(document: vscode.TextDocument) {
     const refs = extractReferences(document.getText(), { zeroIndexed: true });
     const diagnostics: vscode.Diagnostic[] = [];
+    const resolvedRefs: ResolvedReference[] = [];
 
     const workspaceFolder = vscode.workspace.getWorkspaceFolder(document.uri);
-    const documentDir = path.dirname(document.uri.fsPath);
+    const { directoryMode, ignore, rules, tryExtensions } = getConfig(workspaceFolder);
+    const ignorePatterns = ignore.map((pattern) => new RegExp(pattern));
+    const resolveOptions = this.getResolveOptions(document);
+    const { sandbox } = resolveOptions;
 
     for (const ref of refs) {
-      let basePath: string;
-      let refPath = ref.path;
-
-      if (refPath.startsWith('./') || refPath.startsWith('../')) {
-        basePath = documentDir;
-      } else if (refPath.startsWith('/')) {
-        basePath = workspaceFolder?.uri.fsPath ?? documentDir;
-        refPath = refPath.slice(1);
-      } else {
-        basePath = workspaceFolder?.uri.fsPath ?? documentDir;
+      // References matching the config file's ignore patterns are not checked
+      if (ignorePatterns.some((pattern) => pattern.test(ref.path))) {
+        continue;
       }
 
-      const resolved = resolvePath(refPath, { basePath });
+      const resolved = this.resolveReference(ref, resolveOptions);
 
       // Track this file as referenced
-      this.referencedFiles.add(resolved.resolvedPath);
+      this.trackReferencedFiles(resolved);
 
-      if (!resolved.exists) {
+      // In 'index' mode a directory needs an index file
+      if (resolved.exists && resolved.isDirectory && directoryMode === 'index') {
+        const expansion = expandDirectory(resolved.resolvedPath, {
+          directoryMode: 'index',
+          directoryIgnorePatterns: ignorePatterns,
+          tryExtensions,
+        });
+        const sandboxError = sandbox && expansion.files.map((file) => checkSandbox(file, sandbox)).find(Boolean);
+        if (expansion.error || sandboxError) {
+          resolved.exists = false;
+          resolved.error = expansion.error ?? sandboxError;
+          resolved.errorCode = expansion.error ? 'no-index' : 'outside-sandbox';
+        }
+      }
+
+      resolvedRefs.push({ ...ref, resolution: resolved });
+
+      // Errors on references covered by an at-ref-disable directive are not reported
+      if (!resolved.exists && !ref.suppressed) {
         const range = new vscode.Range(
           ref.line,
           ref.column,
@@ -184,16 +261,35 @@ export class AtReferenceDiagnosticsProvider implements vscode.Disposable {
           ref.column + ref.raw.length
         );
 
+        // A missing target is expected for optional references (@?path)
+        const optionalMissing = ref.optional === true && isMissingTarget(resolved);
+        const message = resolved.error ?? `File not found: ${resolved.resolvedPath}`;
+
         const diagnostic = new vscode.Diagnostic(
           range,
-          `File not found: ${resolved.resolvedPath}`,
-          vscode.DiagnosticSeverity.Error
+          optionalMissing ? `${message} (optional reference)` : message,
+          optionalMissing ? vscode.DiagnosticSeverity.Information : vscode.DiagnosticSeverity.Error
         );
         diagnostic.source = 'at-reference';
+        diagnostic.code = resolved.errorCode;
         diagnostics.push(diagnostic);
       }
     }
 
+    // Rule violations, with the severity each rule is configured with (only direct references are checked)
+    const warnings = checkRules(resolvedRefs, { filePath: document.uri.fsPath, rules, cache: this.cache });
+    for (const warning of warnings) {
+      const { line, column, raw } = warning.reference;
+      const diagnostic = new vscode.Diagnostic(
+        new vscode.Range(line, column, line, column + raw.length),
+        warning.message,
+        warning.severity === 'error' ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning
+      );
+      diagnostic.source = 'at-reference';
+      diagnostic.code = warning.ruleId;
+      diagnostics.push(diagnostic);
+    }
+
     this.diagnosticCollection.set(document.uri, diagnostics);
   }
 
@@ -1,6 +1,16 @@
 import * as vscode from 'vscode';
+import * as fs from 'fs';
 import * as path from 'path';
-import { extractReferences } from '@at-reference/core';
+import {
+  expandReferencePath,
+  extractReferences,
+  getFragmentStartLine,
+  isGlobPattern,
+  parseAliasedPath,
+  ReferenceFragment,
+  resolvePath,
+} from '@at-reference/core';
+import { getAliases, getWorkspaceRoot } from '../config';
 
 export class AtReferenceLinkProvider implements vscode.DocumentLinkProvider {
   provideDocumentLinks(document: vscode.TextDocument): vscode.DocumentLink[] {
@@ -8,6 +18,11 @@ export class AtReferenceLinkProvider implements vscode.DocumentLinkProvider {
     const links: vscode.DocumentLink[] = [];
 
     for (const ref of refs) {
+      // A glob has no single target to open
+      if (isGlobPattern(ref.path)) {
+        continue;
+      }
+
       const range = new vscode.Range(
         ref.line,
         ref.column,
@@ -15,7 +30,14 @@ export class AtReferenceLinkProvider implements vscode.DocumentLinkProvider {
         ref.column + ref.raw.length
       );
 
-      const targetUri = this.resolveUri(ref.path, document.uri);
+      let targetUri = this.resolveUri(ref.path, document.uri);
+      if (targetUri && ref.fragment) {
+        // VS Code opens file links with an #L<line> fragment at that line
+        const line = this.getFragmentLine(targetUri, ref.fragment);
+        if (line !== undefined) {
+          targetUri = targetUri.with({ fragment: `L${line}` });
+        }
+      }
       if (targetUri) {
         const link = new vscode.DocumentLink(range, targetUri);
         link.tooltip = `Open ${ref.path}`;
@@ -26,23 +48,52 @@ export class AtReferenceLinkProvider implements vscode.DocumentLinkProvider {
     return links;
   }
 
+  private getFragmentLine(targetUri: vscode.Uri, fragment: ReferenceFragment): number | undefined {
+    if (fragment.type === 'lines') {
+      return fragment.start;
+    }
+
+    try {
+      return getFragmentStartLine(fs.readFileSync(targetUri.fsPath, 'utf-8'), fragment);
+    } catch {
+      return undefined;
+    }
+  }
+
   private resolveUri(refPath: string, documentUri: vscode.Uri): vscode.Uri | undefined {
     const workspaceFolder = vscode.workspace.getWorkspaceFolder(documentUri);
 
+    // Aliased path (shared:prompts/review.md) - link to the file under the first root that has it.
+    // Package paths (npm:zod/README.md) link into the installed package.
+    if (parseAliasedPath(refPath)) {
+      const resolved = resolvePath(refPath, { aliases: getAliases(workspaceFolder), referencingFile: documentUri.fsPath });
+      return resolved.errorCode === 'unknown-alias' ||
+        resolved.errorCode === 'undefined-variable' ||
+        resolved.errorCode === 'package-not-found'
+        ? undefined
+        : vscode.Uri.file(resolved.resolvedPath);
+    }
+
     let basePath: string;
     if (refPath.startsWith('./') || refPath.startsWith('../')) {
       // Relative to document
       basePath = path.dirname(documentUri.fsPath);
     } else if (refPath.startsWith('/')) {
       // Root-relative to workspace
-      basePath = workspaceFolder?.uri.fsPath ?? path.dirname(documentUri.fsPath);
+      basePath = getWorkspaceRoot(workspaceFolder, path.dirname(documentUri.fsPath));
       refPath = refPath.slice(1);
     } else {
       // Bare path - relative to workspace root
-      basePath = workspaceFolder?.uri.fsPath ?? path.dirname(documentUri.fsPath);
+      basePath = getWorkspaceRoot(workspaceFolder, path.dirname(documentUri.fsPath));
+    }
+
+    // Expand ~ and ${VAR} (an unset variable leaves nothing to link to)
+    const expanded = expandReferencePath(refPath);
+    if (expanded.undefinedVariable) {
+      return undefined;
     }
 
-    const resolvedPath = path.resolve(basePath, refPath);
+    const resolvedPath = path.resolve(basePath, expanded.path);
     return vscode.Uri.file(resolvedPath);
   }
 }
@@ -1,10 +1,20 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
-import { extractReferences, resolvePath, AtReference } from '@at-reference/core';
-import { getConfig } from '../config';
+import {
+  extractReferences,
+  listDirectory,
+  readFileWithCache,
+  resolvePath,
+  selectFragment,
+  AtReference,
+  ResolutionCache,
+} from '@at-reference/core';
+import { getAliases, getConfig, getSandbox, getWorkspaceRoot } from '../config';
 
 export class AtReferenceHoverProvider implements vscode.HoverProvider {
+  constructor(private readonly cache: ResolutionCache) {}
+
   provideHover(
     document: vscode.TextDocument,
     position: vscode.Position
@@ -23,18 +33,37 @@ export class AtReferenceHoverProvider implements vscode.HoverProvider {
     if (refPath.startsWith('./') || refPath.startsWith('../')) {
       basePath = documentDir;
     } else if (refPath.startsWith('/')) {
-      basePath = workspaceFolder?.uri.fsPath ?? documentDir;
+      basePath = getWorkspaceRoot(workspaceFolder, documentDir);
       refPath = refPath.slice(1);
     } else {
-      basePath = workspaceFolder?.uri.fsPath ?? documentDir;
+      basePath = getWorkspaceRoot(workspaceFolder, documentDir);
     }
 
-    const resolved = resolvePath(refPath, { basePath });
-
-    if (resolved.exists) {
-      return this.createPreviewHover(resolved.resolvedPath, ref);
+    const resolved = resolvePath(
+      refPath,
+      {
+        basePath,
+        referencingFile: document.uri.fsPath,
+        aliases: getAliases(workspaceFolder),
+        tryExtensions: getConfig(workspaceFolder).tryExtensions,
+        sandbox: getSandbox(workspaceFolder),
+        cache: this.cache,
+      },
+      ref.fragment
+    );
+
+    if (resolved.errorCode === 'fragment-out-of-range' || resolved.errorCode === 'heading-not-found') {
+      return this.createFragmentErrorHover(resolved.error ?? resolved.resolvedPath);
+    } else if (resolved.errorCode === 'outside-sandbox') {
+      return this.createSandboxErrorHover(resolved.error ?? resolved.resolvedPath);
+    } else if (resolved.errorCode === 'package-not-found') {
+      return this.createPackageErrorHover(resolved.error ?? resolved.resolvedPath, ref.optional === true);
+    } else if (resolved.matches) {
+      return this.createGlobHover(resolved.matches, basePath, ref);
+    } else if (resolved.exists) {
+      return this.createPreviewHover(resolved.resolvedPath, ref, workspaceFolder);
     } else {
-      return this.createErrorHover(resolved.resolvedPath);
+      return this.createErrorHover(resolved.resolvedPath, ref.optional === true);
     }
   }
 
@@ -62,24 +91,36 @@ export class AtReferenceHoverProvider implements vscode.HoverProvider {
 
   private createPreviewHover(
     resolvedPath: string,
-    ref: AtReference
+    ref: AtReference,
+    workspaceFolder: vscode.WorkspaceFolder | undefined
   ): vscode.Hover {
-    const config = getConfig();
+    const config = getConfig(workspaceFolder);
     const hover = new vscode.MarkdownString();
 
     try {
       if (fs.statSync(resolvedPath).isDirectory()) {
         hover.appendMarkdown(`**Directory:** \`${ref.path}\`\n\n`);
-        const entries = fs.readdirSync(resolvedPath).slice(0, 10);
+        // Direct children, without the entries the config file's ignore patterns leave out
+        const entries = listDirectory(resolvedPath, {
+          directoryMaxDepth: 1,
+          directoryIgnorePatterns: config.ignore.map((pattern) => new RegExp(pattern)),
+        });
         hover.appendMarkdown('Contents:\n');
-        for (const entry of entries) {
-          hover.appendMarkdown(`- ${entry}\n`);
+        for (const entry of entries.slice(0, 10)) {
+          hover.appendMarkdown(`- ${entry.relativePath}\n`);
         }
-        if (fs.readdirSync(resolvedPath).length > 10) {
+        if (entries.length > 10) {
           hover.appendMarkdown('- ...\n');
         }
       } else {
-        const content = fs.readFileSync(resolvedPath, 'utf-8');
+        let content = readFileWithCache(resolvedPath, { cache: this.cache });
+        if (ref.fragment?.type === 'lines') {
+          hover.appendMarkdown(`**Lines ${ref.fragment.start}-${ref.fragment.end}**\n\n`);
+          content = selectFragment(content, ref.fragment);
+        } else if (ref.fragment?.type === 'heading') {
+          hover.appendMarkdown(`**Section** \`#${ref.fragment.slug}\`\n\n`);
+          content = selectFragment(content, ref.fragment);
+        }
         const lines = content.split('\n').slice(0, config.previewLines);
         const preview = lines.join('\n');
 
@@ -97,10 +138,61 @@ export class AtReferenceHoverProvider implements vscode.HoverProvider {
     return new vscode.Hover(hover);
   }
 
-  private createErrorHover(resolvedPath: string): vscode.Hover {
+  private createGlobHover(
+    matches: string[],
+    basePath: string,
+    ref: AtReference
+  ): vscode.Hover {
+    const hover = new vscode.MarkdownString();
+    hover.appendMarkdown(`**Pattern:** \`${ref.path}\`\n\n`);
+
+    if (matches.length === 0) {
+      hover.appendMarkdown('No files match.');
+      return new vscode.Hover(hover);
+    }
+
+    hover.appendMarkdown(`${matches.length} ${matches.length === 1 ? 'file' : 'files'}:\n`);
+    for (const match of matches.slice(0, 10)) {
+      hover.appendMarkdown(`- ${path.relative(basePath, match)}\n`);
+    }
+    if (matches.length > 10) {
+      hover.appendMarkdown('- ...\n');
+    }
+
+    return new vscode.Hover(hover);
+  }
+
+  private createErrorHover(resolvedPath: string, optional: boolean): vscode.Hover {
     const hover = new vscode.MarkdownString();
     hover.appendMarkdown(`**File not found**\n\n`);
     hover.appendMarkdown(`Expected path: \`${resolvedPath}\``);
+    if (optional) {
+      hover.appendMarkdown('\n\nOptional reference - skipped when compiling.');
+    }
+    return new vscode.Hover(hover);
+  }
+
+  private createPackageErrorHover(message: string, optional: boolean): vscode.Hover {
+    const hover = new vscode.MarkdownString();
+    hover.appendMarkdown(`**Package not installed**\n\n`);
+    hover.appendMarkdown(message);
+    if (optional) {
+      hover.appendMarkdown('\n\nOptional reference - skipped when compiling.');
+    }
+    return new vscode.Hover(hover);
+  }
+
+  private createSandboxErrorHover(message: string): vscode.Hover {
+    const hover = new vscode.MarkdownString();
+    hover.appendMarkdown(`**Outside the workspace sandbox**\n\n`);
+    hover.appendMarkdown(message);
+    return new vscode.Hover(hover);
+  }
+
+  private createFragmentErrorHover(message: string): vscode.Hover {
+    const hover = new vscode.MarkdownString();
+    hover.appendMarkdown(`**Invalid fragment**\n\n`);
+    hover.appendMarkdown(message);
     return new vscode.Hover(hover);
   }
 